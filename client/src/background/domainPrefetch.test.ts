@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mockFetch, mockChromeStorage } from '../test/testUtils';
+
+type DomainPrefetch = typeof import('./domainPrefetch');
+
+function lookupResult(domain: string, couponCount: number) {
+  return { domain, found: couponCount > 0, couponCount, hash: couponCount > 0 ? `hash-${domain}` : null };
+}
+
+/**
+ * Storage with a fresh list of stores that have coupons
+ */
+function storeList(domains: string[] = ['example.com', 'other.com']) {
+  return { retailer_domains: { data: domains, timestamp: Date.now() } };
+}
+
+/**
+ * Domains sent in each lookup request
+ */
+function lookedUpDomains(): string[][] {
+  return vi
+    .mocked(global.fetch)
+    .mock.calls.map(([, init]) => (JSON.parse(String(init?.body)) as { domains: string[] }).domains);
+}
+
+describe('domainPrefetch', () => {
+  let prefetch: DomainPrefetch;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockChromeStorage(storeList());
+    // Fresh module state (pending tabs, recent lookups, rate limiter) for each test
+    vi.resetModules();
+    prefetch = await import('./domainPrefetch');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should look up pages from several tabs in one request after a short delay', async () => {
+    vi.useFakeTimers();
+    mockFetch({ data: [lookupResult('example.com', 3), lookupResult('other.com', 0)] });
+
+    prefetch.queueDomainLookup(1, 'https://www.example.com/cart');
+    prefetch.queueDomainLookup(2, 'https://other.com/');
+    prefetch.queueDomainLookup(3, 'https://example.com/checkout');
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(lookedUpDomains()).toEqual([['example.com', 'other.com']]);
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ tabId: 1, text: '3' });
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ tabId: 3, text: '3' });
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ tabId: 2, text: '' });
+  });
+
+  it('should badge from a recent lookup without another request', async () => {
+    mockFetch({ data: [lookupResult('example.com', 2)] });
+
+    prefetch.queueDomainLookup(1, 'https://example.com/');
+    await prefetch.flushDomainLookups();
+    prefetch.queueDomainLookup(2, 'https://example.com/other-page');
+    await prefetch.flushDomainLookups();
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ tabId: 2, text: '2' });
+  });
+
+  it('should skip pages that cannot have coupons', async () => {
+    mockFetch({ data: [] });
+
+    prefetch.queueDomainLookup(1, 'chrome://extensions');
+    prefetch.queueDomainLookup(2, 'not a url');
+    await prefetch.flushDomainLookups();
+
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should warm the coupon cache with the lookup results', async () => {
+    mockFetch({ data: [lookupResult('other.com', 0)] });
+
+    prefetch.queueDomainLookup(1, 'https://other.com/');
+    await prefetch.flushDomainLookups();
+
+    expect(chrome.storage.local.set).toHaveBeenCalledWith({
+      'coupons_v2_other.com': expect.objectContaining({ data: { data: [] } }),
+    });
+  });
+
+  it('should leave badges alone when the lookup fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockFetch(null, false, 500);
+
+    prefetch.queueDomainLookup(1, 'https://example.com/');
+    await prefetch.flushDomainLookups();
+
+    expect(chrome.action.setBadgeText).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should only send hostnames of stores with coupons', async () => {
+    mockFetch({ data: [lookupResult('shop.example.com', 1)] });
+
+    prefetch.queueDomainLookup(1, 'https://shop.example.com/cart');
+    prefetch.queueDomainLookup(2, 'https://mybank.com/accounts');
+    await prefetch.flushDomainLookups();
+
+    expect(lookedUpDomains()).toEqual([['shop.example.com']]);
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ tabId: 1, text: '1' });
+    expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ tabId: 2, text: '' });
+  });
+
+  it('should not ask the server when no visited page is a store', async () => {
+    mockFetch({ data: [] });
+
+    prefetch.queueDomainLookup(1, 'https://mybank.com/accounts');
+    await prefetch.flushDomainLookups();
+
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should send nothing when badges are turned off', async () => {
+    mockChromeStorage({ ...storeList(), badgePrefetchEnabled: false });
+    mockFetch({ data: [lookupResult('example.com', 3)] });
+
+    prefetch.queueDomainLookup(1, 'https://example.com/');
+    await prefetch.flushDomainLookups();
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(chrome.action.setBadgeText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Domain Prefetch
+ * Batches the pages reported by content scripts into bulk coupon lookups,
+ * badges each tab with its coupon count and warms the coupon cache for the popup
+ *
+ * Only hostnames of stores with coupons (see getRetailerDomains) are sent to the server,
+ * and nothing is sent when the user has turned badges off
+ */
+
+import type { DomainLookupResult } from '@/types';
+import {
+  extractHostname,
+  getRetailerDomains,
+  isBadgePrefetchEnabled,
+  isValidUrl,
+  lookupDomains,
+  warmCouponCache,
+} from '@/services/api';
+
+const BATCH_DELAY_MS = 1000; // Collect navigations across tabs into one request
+const LOOKUP_TTL_MS = 5 * 60 * 1000; // Same as the coupon cache duration
+const MAX_BATCH_SIZE = 50; // Server limit per lookup
+const BADGE_COLOR = '#16a34a';
+
+/**
+ * Tabs waiting for the next lookup, by hostname
+ */
+const pendingTabs = new Map<string, Set<number>>();
+
+/**
+ * Coupon counts from recent lookups, by hostname
+ */
+const recentLookups = new Map<string, { couponCount: number; checkedAt: number }>();
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Shows the coupon count on a tab's toolbar icon (nothing when there are no coupons)
+ */
+function setTabBadge(tabId: number, couponCount: number): void {
+  const text = couponCount > 0 ? String(couponCount) : '';
+
+  // The tab may have closed while the lookup was in flight
+  chrome.action.setBadgeText({ tabId, text }).catch(() => undefined);
+  if (text) {
+    chrome.action.setBadgeBackgroundColor({ tabId, color: BADGE_COLOR }).catch(() => undefined);
+  }
+}
+
+/**
+ * Whether a hostname is a store's domain or one of its subdomains
+ */
+function isRetailerHostname(hostname: string, retailerDomains: Set<string>): boolean {
+  const labels = hostname.split('.');
+  return labels.some((_label, index) => retailerDomains.has(labels.slice(index).join('.')));
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) return;
+
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushDomainLookups();
+  }, BATCH_DELAY_MS);
+}
+
+/**
+ * Queues a tab's page for the next bulk lookup
+ * Hostnames looked up in the last 5 minutes are badged from the previous result without a request
+ *
+ * @param tabId - Tab that loaded the page
+ * @param url - URL of the page
+ */
+export function queueDomainLookup(tabId: number, url: string): void {
+  if (!isValidUrl(url)) return;
+
+  const hostname = extractHostname(url);
+  if (!hostname) return;
+
+  const recent = recentLookups.get(hostname);
+  if (recent && Date.now() - recent.checkedAt <= LOOKUP_TTL_MS) {
+    setTabBadge(tabId, recent.couponCount);
+    return;
+  }
+
+  const tabIds = pendingTabs.get(hostname) ?? new Set<number>();
+  tabIds.add(tabId);
+  pendingTabs.set(hostname, tabIds);
+
+  scheduleFlush();
+}
+
+/**
+ * Looks up the queued store hostnames, badges their tabs and warms the coupon cache
+ * Failures are logged only: badges are a hint and the popup fetches coupons when opened
+ */
+export async function flushDomainLookups(): Promise<void> {
+  const batch = [...pendingTabs.entries()].slice(0, MAX_BATCH_SIZE);
+  batch.forEach(([hostname]) => pendingTabs.delete(hostname));
+
+  // Anything over the server limit goes in the next request
+  if (pendingTabs.size > 0) {
+    scheduleFlush();
+  }
+
+  if (batch.length === 0) return;
+  if (!(await isBadgePrefetchEnabled())) return;
+
+  let results: DomainLookupResult[];
+  try {
+    const retailerDomains = new Set(await getRetailerDomains());
+    const hostnames = batch
+      .map(([hostname]) => hostname)
+      .filter((hostname) => isRetailerHostname(hostname, retailerDomains));
+    results = hostnames.length > 0 ? await lookupDomains(hostnames) : [];
+  } catch (error) {
+    console.warn('[Prefetch] Domain lookup failed:', error);
+    return;
+  }
+
+  const now = Date.now();
+  for (const [hostname, lookup] of recentLookups) {
+    if (now - lookup.checkedAt > LOOKUP_TTL_MS) recentLookups.delete(hostname);
+  }
+
+  // Other sites have no coupons, so they are badged as empty without asking the server
+  const resultsByDomain = new Map(results.map((result) => [result.domain, result]));
+  for (const [hostname, tabIds] of batch) {
+    const couponCount = resultsByDomain.get(hostname)?.couponCount ?? 0;
+    recentLookups.set(hostname, { couponCount, checkedAt: now });
+    tabIds.forEach((tabId) => setTabBadge(tabId, couponCount));
+  }
+
+  await warmCouponCache(results);
+}
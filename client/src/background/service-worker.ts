@@ -1,9 +1,10 @@
 /**
  * Background Service Worker
- * Handles periodic queue processing and extension lifecycle events
+ * Handles periodic queue processing, extension lifecycle events and coupon badges for visited pages
  */
 
 import { processQueue, cleanupQueue } from '@/utils/feedbackQueue';
+import { queueDomainLookup } from './domainPrefetch';
 import { isValidMessageSender, isValidMessageStructure } from '@/utils/security';
 
 /**
@@ -116,6 +117,15 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === 'PAGE_VISITED') {
+    // Content scripts report each page load so the tab can be badged with its coupon count
+    if (sender.tab?.id !== undefined && sender.url) {
+      queueDomainLookup(sender.tab.id, sender.url);
+    }
+    sendResponse({ success: true });
+    return true;
+  }
+
   // Unknown message type
   sendResponse({ success: false, error: 'Unknown message type' });
   return true;
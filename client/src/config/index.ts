@@ -101,3 +101,25 @@ export async function setApiBaseUrl(url: string): Promise<void> {
 export async function getApiUrl(): Promise<string> {
   return getApiBaseUrl();
 }
+
+const INSTALL_ID_STORAGE_KEY = 'installId';
+
+/**
+ * Get the anonymous install ID, generating and storing it on first use
+ * Sent with feedback so the server can weigh votes per install; it identifies nothing but this install
+ */
+export async function getInstallId(): Promise<string> {
+  try {
+    const result = await chrome.storage.local.get(INSTALL_ID_STORAGE_KEY);
+    if (typeof result[INSTALL_ID_STORAGE_KEY] === 'string') {
+      return result[INSTALL_ID_STORAGE_KEY];
+    }
+
+    const installId = crypto.randomUUID();
+    await chrome.storage.local.set({ [INSTALL_ID_STORAGE_KEY]: installId });
+    return installId;
+  } catch (error) {
+    console.warn('[Config] Failed to read install ID from storage:', error);
+    return crypto.randomUUID();
+  }
+}
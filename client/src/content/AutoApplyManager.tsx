@@ -9,18 +9,19 @@ import {
   isValidMessageSender,
   isValidMessageStructure,
   isValidCouponsArray,
+  isValidRetailer,
   sanitizeErrorMessage,
 } from '@/utils/security';
 import AutoApplyOverlay from './components/AutoApplyOverlay';
 import AutoApplyResult from './components/AutoApplyResult';
-import type { Coupon, ApplierResult, CouponTestResult } from '@/types';
+import type { Coupon, Retailer, ApplierResult, CouponTestResult } from '@/types';
 
 /**
  * AutoApplyManager
  *
  * Manages the auto-apply coupon testing flow:
  * - Listens for messages from popup
- * - Detects coupon input fields
+ * - Detects coupon input fields (retailer selectors first, then heuristics)
  * - Runs auto-apply with progress UI
  * - Shows results to user
  */
@@ -71,13 +72,19 @@ export default class AutoApplyManager {
 
       if (message.type === 'AUTO_APPLY_COUPONS') {
         // Security: Validate coupons array
-        const msg = message as { coupons?: unknown };
+        const msg = message as { coupons?: unknown; retailer?: unknown };
         if (!isValidCouponsArray(msg.coupons)) {
           sendResponse({ success: false, error: 'Invalid coupons data' });
           return true;
         }
 
-        this.handleAutoApply(msg.coupons as Coupon[])
+        // Retailer is optional (older API responses do not include it)
+        if (msg.retailer !== undefined && !isValidRetailer(msg.retailer)) {
+          sendResponse({ success: false, error: 'Invalid retailer data' });
+          return true;
+        }
+
+        this.handleAutoApply(msg.coupons as Coupon[], msg.retailer as Retailer | undefined)
           .then((result) => {
             sendResponse({ success: true, result });
           })
@@ -101,7 +108,7 @@ export default class AutoApplyManager {
     console.log('[OpenCoupon] AutoApplyManager initialized');
   }
 
-  private async handleAutoApply(coupons: Coupon[]): Promise<ApplierResult> {
+  private async handleAutoApply(coupons: Coupon[], retailer?: Retailer): Promise<ApplierResult> {
     if (this.isRunning) {
       throw new Error('Auto-apply is already running');
     }
@@ -123,7 +130,8 @@ export default class AutoApplyManager {
 
       // Step 1: Detect coupon input fields
       console.log('[OpenCoupon] Detecting coupon fields...');
-      const detection = await findCouponElements();
+      const selectorConfig = retailer?.selectorConfig ?? undefined;
+      const detection = await findCouponElements({ selectorConfig });
 
       if (!detection.inputElement || !detection.submitElement) {
         const errorResult: ApplierResult = {
@@ -151,6 +159,7 @@ export default class AutoApplyManager {
         coupons,
         inputElement: detection.inputElement,
         submitElement: detection.submitElement,
+        priceSelectors: selectorConfig?.priceSelectors,
         maxAttempts: 20,
         timeout: 5000,
         onProgress: (current, total, code) => {
@@ -546,6 +546,59 @@ describe('applier - Auto-Apply Integration', () => {
       expect(onProgress).toHaveBeenNthCalledWith(2, 2, 2, 'LOW');
     });
 
+    it('should keep the server ranking when coupons have scores', async () => {
+      document.body.innerHTML = `
+        <div class="total">$100.00</div>
+        <input id="coupon" type="text" />
+        <button id="apply">Apply</button>
+      `;
+
+      const input = document.getElementById('coupon') as HTMLInputElement;
+      const button = document.getElementById('apply') as HTMLElement;
+
+      const coupons: Coupon[] = [
+        {
+          id: '1',
+          code: 'FRESH',
+          description: 'Worked yesterday',
+          successCount: 1,
+          failureCount: 0,
+          score: 0.2,
+          retailerId: 'test',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+        {
+          id: '2',
+          code: 'STALE',
+          description: 'Popular two years ago',
+          successCount: 500,
+          failureCount: 10,
+          score: 0,
+          retailerId: 'test',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      ];
+
+      const onProgress = vi.fn();
+
+      const options: ApplierOptions = {
+        coupons,
+        inputElement: input,
+        submitElement: button,
+        onProgress,
+      };
+
+      const applyPromise = autoApplyCoupons(options);
+      await vi.runAllTimersAsync();
+      await applyPromise;
+
+      // FRESH ranks first despite fewer successes
+      expect(onProgress).toHaveBeenNthCalledWith(1, 1, 2, 'FRESH');
+      expect(onProgress).toHaveBeenNthCalledWith(2, 2, 2, 'STALE');
+    });
+
     it('should respect maxAttempts limit', async () => {
       document.body.innerHTML = `
         <div class="total">$100.00</div>
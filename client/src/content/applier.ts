@@ -15,6 +15,7 @@
  */
 
 import type { PriceInfo, CouponTestResult, ApplierResult, ApplierOptions } from '../types';
+import { orderCoupons } from '../utils/ranking';
 
 // Default configuration constants
 const DEFAULT_DELAY_MIN = 2000; // 2 seconds minimum
@@ -532,18 +533,8 @@ export async function autoApplyCoupons(options: ApplierOptions): Promise<Applier
 
     console.debug(`Baseline price detected: ${baselinePrice.currency}${baselinePrice.value}`);
 
-    // Sort coupons by success count (highest first), then by lastSuccessAt (most recent first)
-    const sortedCoupons = [...coupons].sort((a, b) => {
-      // Primary sort: success count (descending)
-      if (b.successCount !== a.successCount) {
-        return b.successCount - a.successCount;
-      }
-
-      // Secondary sort: most recently successful (descending)
-      const aTime = a.lastSuccessAt ? new Date(a.lastSuccessAt).getTime() : 0;
-      const bTime = b.lastSuccessAt ? new Date(b.lastSuccessAt).getTime() : 0;
-      return bTime - aTime;
-    });
+    // Test coupons in ranking order (server confidence score, or success count for unscored lists)
+    const sortedCoupons = orderCoupons(coupons);
 
     // Limit to maxAttempts
     const couponsToTest = sortedCoupons.slice(0, maxAttempts);
@@ -62,6 +62,7 @@ export async function submitAutoApplyFeedback(result: ApplierResult, domain: str
             await addToQueue(itemResult.couponId, {
               success: feedbackItem.success,
               metadata: feedbackItem.metadata,
+              eventId: feedbackItem.eventId,
             });
           }
         }
@@ -78,6 +79,7 @@ export async function submitAutoApplyFeedback(result: ApplierResult, domain: str
       await addToQueue(item.couponId, {
         success: item.success,
         metadata: item.metadata,
+        eventId: item.eventId,
       });
     }
 
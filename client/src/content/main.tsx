@@ -19,3 +19,8 @@ createRoot(container).render(
 // Initialize Auto-Apply Manager (handles messages from popup)
 const autoApplyManager = new AutoApplyManager();
 autoApplyManager.init();
+
+// Let the service worker badge this tab with the number of coupons for the site
+chrome.runtime.sendMessage({ type: 'PAGE_VISITED' }).catch(() => {
+  // The service worker may be restarting; the popup still looks up coupons when opened
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BadgeSetting from './BadgeSetting';
+import { mockChromeStorage } from '../../test/testUtils';
+
+describe('BadgeSetting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should be checked by default', async () => {
+    mockChromeStorage({});
+    render(<BadgeSetting />);
+
+    await waitFor(() => expect(screen.getByRole('checkbox')).toBeChecked());
+  });
+
+  it('should show the saved preference', async () => {
+    mockChromeStorage({ badgePrefetchEnabled: false });
+    render(<BadgeSetting />);
+
+    await waitFor(() => expect(screen.getByRole('checkbox')).toBeEnabled());
+    expect(screen.getByRole('checkbox')).not.toBeChecked();
+  });
+
+  it('should save the preference when toggled', async () => {
+    const storage: Record<string, unknown> = {};
+    mockChromeStorage(storage);
+    render(<BadgeSetting />);
+    await waitFor(() => expect(screen.getByRole('checkbox')).toBeChecked());
+
+    await userEvent.click(screen.getByRole('checkbox'));
+
+    expect(storage.badgePrefetchEnabled).toBe(false);
+    expect(screen.getByRole('checkbox')).not.toBeChecked();
+  });
+});
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { isBadgePrefetchEnabled, setBadgePrefetchEnabled } from '@/services/api';
+
+/**
+ * Toggle for toolbar badges, which send the hostnames of visited stores to the server
+ */
+export default function BadgeSetting() {
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    isBadgePrefetchEnabled().then(setEnabled);
+  }, []);
+
+  const handleChange = async (checked: boolean) => {
+    setEnabled(checked);
+    await setBadgePrefetchEnabled(checked);
+  };
+
+  return (
+    <div className="border-t border-gray-200 px-4 py-3 text-xs text-gray-600">
+      <label className="flex items-start gap-2">
+        <input
+          type="checkbox"
+          checked={enabled ?? false}
+          disabled={enabled === null}
+          onChange={(event) => handleChange(event.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Show coupon counts on the toolbar icon
+          <span className="block text-gray-500">
+            Checks the stores you visit with OpenCoupon. Other sites are never sent.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+}
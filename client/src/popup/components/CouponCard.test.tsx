@@ -66,6 +66,13 @@ describe('CouponCard', () => {
     expect(screen.getByText('Expired')).toBeInTheDocument();
   });
 
+  it('should show expired badge for coupons the server marked as expired', () => {
+    const coupon = { ...mockCoupons[1], status: 'expired' as const }; // No expiry date
+    render(<CouponCard coupon={coupon} onCopy={onCopy} />);
+
+    expect(screen.getByText('Expired')).toBeInTheDocument();
+  });
+
   it('should show "Expires Soon" warning for coupons expiring within 7 days', () => {
     const coupon = mockCoupons[3]; // Expires in 3 days
     render(<CouponCard coupon={coupon} onCopy={onCopy} />);
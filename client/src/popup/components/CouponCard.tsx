@@ -27,6 +27,7 @@ export default function CouponCard({ coupon, onCopy }: CouponCardProps) {
   };
 
   const isExpired = (): boolean => {
+    if (coupon.status === 'expired') return true;
     if (!coupon.expiryDate) return false;
     return new Date(coupon.expiryDate).getTime() < now;
   };
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import CouponList from './CouponList';
-import { mockCoupons, mockTab, mockInvalidTab } from '../../test/mockData';
+import { mockCoupons, mockRetailer, mockTab, mockInvalidTab } from '../../test/mockData';
 import { mockFetch, mockChromeTabs, mockChromeStorage } from '../../test/testUtils';
 
 // Mock the logo import
@@ -95,6 +95,26 @@ describe('CouponList', () => {
         expect(couponCodes[3]).toBe('EXPIRING30'); // 50 success
       });
     });
+
+    it('should keep the server ranking when coupons have scores', async () => {
+      mockChromeTabs([mockTab]);
+      const scoredCoupons = [mockCoupons[3], mockCoupons[1], mockCoupons[0], mockCoupons[2]].map((coupon, index) => ({
+        ...coupon,
+        score: 0.9 - index * 0.1,
+      }));
+      mockFetch({ data: scoredCoupons });
+
+      render(<CouponList />);
+
+      await waitFor(() => {
+        const couponCodes = screen
+          .getAllByRole('button', { name: /copy/i })
+          .map((btn) => btn.closest('.bg-white'))
+          .map((card) => card?.querySelector('code')?.textContent);
+
+        expect(couponCodes).toEqual(['EXPIRING30', 'FREESHIP', 'SAVE20', 'EXPIRED10']);
+      });
+    });
   });
 
   describe('Empty State', () => {
@@ -119,6 +139,21 @@ describe('CouponList', () => {
         expect(screen.getByText('No Coupons Available')).toBeInTheDocument();
       });
     });
+
+    it('should open the store directory from the empty state and go back', async () => {
+      const user = userEvent.setup();
+      mockChromeTabs([mockTab]);
+      mockFetch({ data: [], pagination: { limit: 20, nextCursor: null } });
+
+      render(<CouponList />);
+      await user.click(await screen.findByText('Browse Stores with Coupons'));
+
+      expect(screen.getByLabelText('Search stores')).toBeInTheDocument();
+
+      await user.click(screen.getByLabelText('Back to coupons'));
+
+      expect(screen.getByText('No Coupons Available')).toBeInTheDocument();
+    });
   });
 
   describe('Error State', () => {
@@ -172,6 +207,7 @@ describe('CouponList', () => {
         return Promise.resolve({
           ok: true,
           status: 200,
+          headers: new Headers(),
           json: () => Promise.resolve({ data: mockCoupons }),
         } as Response);
       });
@@ -228,4 +264,45 @@ describe('CouponList', () => {
       expect(svg).toHaveClass('animate-spin');
     });
   });
+
+  describe('Auto-Apply', () => {
+    it('should send the retailer selector config with the coupons', async () => {
+      const user = userEvent.setup();
+      mockChromeTabs([mockTab]);
+      mockFetch({ data: mockCoupons, retailer: mockRetailer });
+      vi.mocked(chrome.tabs.sendMessage).mockResolvedValue({
+        success: true,
+        result: { bestCoupon: null },
+      } as never);
+
+      render(<CouponList />);
+
+      await user.click(await screen.findByText('Auto-Apply Best Coupon'));
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(mockTab.id, {
+        type: 'AUTO_APPLY_COUPONS',
+        coupons: expect.any(Array),
+        retailer: mockRetailer,
+      });
+    });
+
+    it('should omit the retailer when the API did not send one', async () => {
+      const user = userEvent.setup();
+      mockChromeTabs([mockTab]);
+      mockFetch({ data: mockCoupons });
+      vi.mocked(chrome.tabs.sendMessage).mockResolvedValue({
+        success: true,
+        result: { bestCoupon: null },
+      } as never);
+
+      render(<CouponList />);
+
+      await user.click(await screen.findByText('Auto-Apply Best Coupon'));
+
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(mockTab.id, {
+        type: 'AUTO_APPLY_COUPONS',
+        coupons: expect.any(Array),
+      });
+    });
+  });
 });
@@ -1,14 +1,18 @@
 import { useEffect, useState } from 'react';
-import type { Coupon } from '@/types';
-import { fetchCouponsForDomain, getCurrentTab, extractHostname, isValidUrl } from '@/services/api';
+import type { Coupon, Retailer } from '@/types';
+import { fetchCouponsWithRetailer, getCurrentTab, extractHostname, isValidUrl } from '@/services/api';
+import { orderCoupons } from '@/utils/ranking';
 import CouponCard from './CouponCard';
 import EmptyState from './EmptyState';
 import ErrorState from './ErrorState';
 import LoadingState from './LoadingState';
+import StoreSearch from './StoreSearch';
+import BadgeSetting from './BadgeSetting';
 import logo from '@/assets/logo.png';
 
 interface CouponListState {
   coupons: Coupon[];
+  retailer: Retailer | null;
   loading: boolean;
   error: Error | null;
   domain: string | null;
@@ -27,6 +31,7 @@ interface AutoApplyState {
 export default function CouponList() {
   const [state, setState] = useState<CouponListState>({
     coupons: [],
+    retailer: null,
     loading: true,
     error: null,
     domain: null,
@@ -42,6 +47,9 @@ export default function CouponList() {
     error: null,
   });
 
+  // Store directory, opened from the empty state when this site has no coupons
+  const [browsingStores, setBrowsingStores] = useState(false);
+
   const loadCoupons = async (): Promise<void> => {
     setState((prev) => ({ ...prev, loading: true, error: null }));
 
@@ -51,6 +59,7 @@ export default function CouponList() {
       if (!tab?.url || !isValidUrl(tab.url)) {
         setState({
           coupons: [],
+          retailer: null,
           loading: false,
           error: new Error('Invalid page. Navigate to a website to see coupons.'),
           domain: null,
@@ -63,6 +72,7 @@ export default function CouponList() {
       if (!hostname) {
         setState({
           coupons: [],
+          retailer: null,
           loading: false,
           error: new Error('Could not extract domain from URL'),
           domain: null,
@@ -70,21 +80,14 @@ export default function CouponList() {
         return;
       }
 
-      const coupons = await fetchCouponsForDomain(hostname);
-
-      // Sort by success count DESC, then by lastSuccessAt DESC
-      const sortedCoupons = coupons.sort((a, b) => {
-        if (b.successCount !== a.successCount) {
-          return b.successCount - a.successCount;
-        }
+      const { data: coupons, retailer } = await fetchCouponsWithRetailer(hostname);
 
-        const aTime = a.lastSuccessAt ? new Date(a.lastSuccessAt).getTime() : 0;
-        const bTime = b.lastSuccessAt ? new Date(b.lastSuccessAt).getTime() : 0;
-        return bTime - aTime;
-      });
+      // Keep the API's ranking (falls back to success count for unscored lists)
+      const sortedCoupons = orderCoupons(coupons);
 
       setState({
         coupons: sortedCoupons,
+        retailer: retailer ?? null,
         loading: false,
         error: null,
         domain: hostname,
@@ -144,6 +147,8 @@ export default function CouponList() {
         response = await chrome.tabs.sendMessage(tab.id, {
           type: 'AUTO_APPLY_COUPONS',
           coupons: state.coupons,
+          // Retailer selectors let the content script skip heuristic detection
+          ...(state.retailer ? { retailer: state.retailer } : {}),
         });
       } catch (error) {
         // Content script not loaded - try to inject it programmatically
@@ -232,8 +237,12 @@ export default function CouponList() {
 
         {!state.loading && state.error && <ErrorState error={state.error} onRetry={handleRetry} />}
 
-        {!state.loading && !state.error && state.coupons.length === 0 && (
-          <EmptyState domain={state.domain || undefined} />
+        {!state.loading && !state.error && state.coupons.length === 0 && browsingStores && (
+          <StoreSearch onClose={() => setBrowsingStores(false)} />
+        )}
+
+        {!state.loading && !state.error && state.coupons.length === 0 && !browsingStores && (
+          <EmptyState domain={state.domain || undefined} onBrowseStores={() => setBrowsingStores(true)} />
         )}
 
         {!state.loading && !state.error && state.coupons.length > 0 && (
@@ -299,6 +308,8 @@ export default function CouponList() {
         )}
       </div>
 
+      <BadgeSetting />
+
       {/* Toast Notification */}
       {toast.show && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white px-4 py-2 rounded-lg shadow-lg text-sm animate-fade-in z-50">
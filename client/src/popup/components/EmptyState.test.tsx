@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import EmptyState from './EmptyState';
 
 describe('EmptyState', () => {
@@ -23,6 +24,21 @@ describe('EmptyState', () => {
     expect(screen.getByText(/Check back later or help contribute/)).toBeInTheDocument();
   });
 
+  it('should offer to browse stores when a handler is provided', async () => {
+    const onBrowseStores = vi.fn();
+    render(<EmptyState domain="example.com" onBrowseStores={onBrowseStores} />);
+
+    await userEvent.click(screen.getByText('Browse Stores with Coupons'));
+
+    expect(onBrowseStores).toHaveBeenCalled();
+  });
+
+  it('should not offer store browsing without a handler', () => {
+    render(<EmptyState />);
+
+    expect(screen.queryByText('Browse Stores with Coupons')).not.toBeInTheDocument();
+  });
+
   it('should render icon', () => {
     const { container } = render(<EmptyState />);
 
@@ -1,8 +1,9 @@
 interface EmptyStateProps {
   domain?: string;
+  onBrowseStores?: () => void;
 }
 
-export default function EmptyState({ domain }: EmptyStateProps) {
+export default function EmptyState({ domain, onBrowseStores }: EmptyStateProps) {
   return (
     <div className="flex flex-col items-center justify-center py-12 px-6 text-center">
       <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
@@ -21,6 +22,14 @@ export default function EmptyState({ domain }: EmptyStateProps) {
           ? `We don't have any coupon codes for ${domain} yet.`
           : 'No coupon codes are available for this website.'}
       </p>
+      {onBrowseStores && (
+        <button
+          onClick={onBrowseStores}
+          className="px-4 py-2 mb-4 bg-primary-500 text-white rounded-md font-medium text-sm hover:bg-primary-600 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        >
+          Browse Stores with Coupons
+        </button>
+      )}
       <div className="text-xs text-gray-500">
         <p>Check back later or help contribute by submitting codes you find!</p>
       </div>
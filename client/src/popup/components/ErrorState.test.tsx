@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import ErrorState from './ErrorState';
+import { ApiError } from '@/services/api';
 
 describe('ErrorState', () => {
   it('should render error message', () => {
@@ -12,6 +13,19 @@ describe('ErrorState', () => {
     expect(screen.getByText('Test error message')).toBeInTheDocument();
   });
 
+  it('should show the request ID of an API error for bug reports', () => {
+    render(<ErrorState error={new ApiError('API error: 500 Error', 500, 'req-123')} onRetry={() => {}} />);
+
+    expect(screen.getByText('req-123')).toBeInTheDocument();
+    expect(screen.getByText(/Request ID:/)).toBeInTheDocument();
+  });
+
+  it('should not show a request ID for other errors', () => {
+    render(<ErrorState error={new Error('Test error message')} onRetry={() => {}} />);
+
+    expect(screen.queryByText(/Request ID:/)).not.toBeInTheDocument();
+  });
+
   it('should render default message when error has no message', () => {
     render(<ErrorState error={null} onRetry={() => {}} />);
 
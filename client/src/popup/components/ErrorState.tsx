@@ -1,9 +1,13 @@
+import { getErrorRequestId } from '@/utils/security';
+
 interface ErrorStateProps {
   error: Error | null;
   onRetry: () => void;
 }
 
 export default function ErrorState({ error, onRetry }: ErrorStateProps) {
+  const requestId = getErrorRequestId(error);
+
   return (
     <div className="flex flex-col items-center justify-center py-12 px-6 text-center">
       <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4">
@@ -20,6 +24,11 @@ export default function ErrorState({ error, onRetry }: ErrorStateProps) {
       <p className="text-sm text-gray-600 mb-4 max-w-xs">
         {error?.message || 'Failed to load coupons. Please try again.'}
       </p>
+      {requestId && (
+        <p className="text-xs text-gray-500 mb-4">
+          Request ID: <span className="font-mono select-all">{requestId}</span>
+        </p>
+      )}
       <button
         onClick={onRetry}
         className="px-4 py-2 bg-primary-500 text-white rounded-md font-medium text-sm hover:bg-primary-600 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
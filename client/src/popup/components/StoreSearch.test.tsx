@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import StoreSearch from './StoreSearch';
+import type { RetailerSummary } from '@/types';
+import { mockFetch, mockChromeStorage } from '../../test/testUtils';
+
+const stores: RetailerSummary[] = [
+  {
+    id: 'retailer-1',
+    domain: 'example.com',
+    name: 'Example Store',
+    logoUrl: null,
+    homeUrl: 'https://example.com/shop',
+    activeCouponCount: 3,
+    bestDiscount: { amount: 15, percentage: 20 },
+  },
+  {
+    id: 'retailer-2',
+    domain: 'another.com',
+    name: 'Another Shop',
+    logoUrl: null,
+    homeUrl: null,
+    activeCouponCount: 1,
+    bestDiscount: { amount: 7.5, percentage: null },
+  },
+];
+
+function lastFetchUrl(): string {
+  return String(vi.mocked(global.fetch).mock.calls.at(-1)![0]);
+}
+
+describe('StoreSearch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChromeStorage({});
+  });
+
+  it('should list stores with coupons before anything is typed', async () => {
+    mockFetch({ data: stores, pagination: { limit: 20, nextCursor: null } });
+
+    render(<StoreSearch onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Example Store')).toBeInTheDocument();
+    });
+    expect(lastFetchUrl()).toContain('/retailers?hasCoupons=true');
+    expect(screen.getByText('3 coupons')).toBeInTheDocument();
+    expect(screen.getByText('Up to 20% off')).toBeInTheDocument();
+    expect(screen.getByText('Up to $7.50 off')).toBeInTheDocument();
+  });
+
+  it('should search once the user stops typing', async () => {
+    const user = userEvent.setup();
+    mockFetch({ data: [], pagination: { limit: 20, nextCursor: null } });
+
+    render(<StoreSearch onClose={vi.fn()} />);
+    await user.type(screen.getByLabelText('Search stores'), 'exa');
+
+    await waitFor(() => {
+      expect(lastFetchUrl()).toContain('search=exa');
+    });
+    await waitFor(() => {
+      expect(screen.getByText('No stores with coupons match "exa".')).toBeInTheDocument();
+    });
+    // Typing started before the browse request went out, and keystrokes did not fire their own
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load the next page with the cursor', async () => {
+    const user = userEvent.setup();
+    mockFetch({ data: [stores[0]], pagination: { limit: 1, nextCursor: 'next-page' } });
+
+    render(<StoreSearch onClose={vi.fn()} />);
+    await user.click(await screen.findByText('Load More'));
+
+    await waitFor(() => {
+      expect(lastFetchUrl()).toContain('cursor=next-page');
+    });
+  });
+
+  it('should open a store in a new tab', async () => {
+    const user = userEvent.setup();
+    mockFetch({ data: stores, pagination: { limit: 20, nextCursor: null } });
+
+    render(<StoreSearch onClose={vi.fn()} />);
+    await user.click(await screen.findByText('Example Store'));
+    await user.click(screen.getByText('Another Shop'));
+
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://example.com/shop' });
+    expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://another.com' });
+  });
+
+  it('should show an error when the search fails', async () => {
+    mockFetch(null, false, 500);
+
+    render(<StoreSearch onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/API error: 500/)).toBeInTheDocument();
+    });
+  });
+
+  it('should call onClose from the back button', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    mockFetch({ data: [], pagination: { limit: 20, nextCursor: null } });
+
+    render(<StoreSearch onClose={onClose} />);
+    await user.click(screen.getByLabelText('Back to coupons'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import type { RetailerSummary } from '@/types';
+import { searchRetailers } from '@/services/api';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_SEARCH_LENGTH = 2; // Shorter input browses all stores instead
+
+interface StoreSearchProps {
+  onClose: () => void;
+}
+
+interface StoreSearchState {
+  stores: RetailerSummary[];
+  nextCursor: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Formats the best discount a store has seen, preferring the percentage
+ */
+function formatBestDiscount(bestDiscount: RetailerSummary['bestDiscount']): string | null {
+  if (bestDiscount?.percentage != null) return `Up to ${Math.round(bestDiscount.percentage)}% off`;
+  if (bestDiscount?.amount != null) return `Up to $${bestDiscount.amount.toFixed(2)} off`;
+  return null;
+}
+
+export default function StoreSearch({ onClose }: StoreSearchProps) {
+  const [query, setQuery] = useState('');
+  const [state, setState] = useState<StoreSearchState>({
+    stores: [],
+    nextCursor: null,
+    loading: true,
+    error: null,
+  });
+
+  const search = query.trim().length >= MIN_SEARCH_LENGTH ? query.trim() : undefined;
+
+  // Fetch the first page whenever the search changes, after the user stops typing
+  useEffect(() => {
+    let cancelled = false;
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    const timer = setTimeout(async () => {
+      try {
+        const { data, pagination } = await searchRetailers({ search, hasCoupons: true });
+        if (!cancelled) {
+          setState({ stores: data, nextCursor: pagination.nextCursor, loading: false, error: null });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setState({
+            stores: [],
+            nextCursor: null,
+            loading: false,
+            error: error instanceof Error ? error.message : 'Failed to load stores',
+          });
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  const handleLoadMore = async (): Promise<void> => {
+    if (!state.nextCursor || state.loading) return;
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const { data, pagination } = await searchRetailers({ search, cursor: state.nextCursor, hasCoupons: true });
+      setState((prev) => ({
+        stores: [...prev.stores, ...data],
+        nextCursor: pagination.nextCursor,
+        loading: false,
+        error: null,
+      }));
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to load stores',
+      }));
+    }
+  };
+
+  const handleOpenStore = (store: RetailerSummary): void => {
+    chrome.tabs.create({ url: store.homeUrl ?? `https://${store.domain}` });
+  };
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+          aria-label="Back to coupons"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h3 className="text-sm font-semibold text-gray-900">Stores with Coupons</h3>
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search stores by name or domain"
+        aria-label="Search stores"
+        autoFocus
+        className="w-full px-3 py-2 mb-3 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+
+      {state.error && <p className="text-sm text-red-600 mb-3">{state.error}</p>}
+
+      {!state.loading && !state.error && state.stores.length === 0 && (
+        <p className="text-sm text-gray-600 text-center py-6">
+          {search ? `No stores with coupons match "${search}".` : 'No stores with coupons yet.'}
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {state.stores.map((store) => {
+          const bestDiscount = formatBestDiscount(store.bestDiscount);
+          return (
+            <li key={store.id}>
+              <button
+                onClick={() => handleOpenStore(store)}
+                className="w-full flex items-center justify-between gap-3 p-3 bg-white border border-gray-200 rounded-lg text-left hover:border-primary-500 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{store.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{store.domain}</p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="text-xs font-medium text-gray-700">
+                    {store.activeCouponCount} coupon{store.activeCouponCount !== 1 ? 's' : ''}
+                  </p>
+                  {bestDiscount && <p className="text-xs text-green-700">{bestDiscount}</p>}
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {state.loading && <p className="text-sm text-gray-500 text-center py-3">Loading stores...</p>}
+
+      {!state.loading && state.nextCursor && (
+        <button
+          onClick={handleLoadMore}
+          className="w-full mt-3 py-2 text-sm font-medium text-primary-600 hover:bg-gray-100 rounded-md transition-colors"
+        >
+          Load More
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,21 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { fetchCouponsForDomain, getCurrentTab, extractHostname, isValidUrl } from './api';
-import { mockCoupons, mockTab } from '../test/mockData';
+import {
+  ApiError,
+  fetchCouponsForDomain,
+  fetchCouponsWithRetailer,
+  searchRetailers,
+  getRetailerDomains,
+  isBadgePrefetchEnabled,
+  setBadgePrefetchEnabled,
+  lookupDomains,
+  warmCouponCache,
+  getCurrentTab,
+  extractHostname,
+  isValidUrl,
+} from './api';
+import { sanitizeErrorMessage } from '@/utils/security';
+import { apiRateLimiter } from '@/utils/rateLimiter';
+import { mockCoupons, mockRetailer, mockTab } from '../test/mockData';
 import { mockFetch, mockFetchError, mockChromeStorage, mockChromeTabs } from '../test/testUtils';
 
 describe('API Service', () => {
@@ -15,6 +30,12 @@ describe('API Service', () => {
       expect(extractHostname('http://subdomain.example.com')).toBe('subdomain.example.com');
     });
 
+    it('should normalize the hostname like the server', () => {
+      expect(extractHostname('https://www.Example.com/path')).toBe('example.com');
+      expect(extractHostname('https://shop.example.co.uk./cart')).toBe('shop.example.co.uk');
+      expect(extractHostname('https://m.www.example.com')).toBe('m.www.example.com');
+    });
+
     it('should return null for invalid URL', () => {
       expect(extractHostname('not-a-url')).toBe(null);
       expect(extractHostname('')).toBe(null);
@@ -81,10 +102,10 @@ describe('API Service', () => {
 
     it('should return cached coupons if available', async () => {
       const cachedData = {
-        data: mockCoupons.slice(0, 2),
+        data: { data: mockCoupons.slice(0, 2) },
         timestamp: Date.now(),
       };
-      mockChromeStorage({ [`coupons_${domain}`]: cachedData });
+      mockChromeStorage({ [`coupons_v2_${domain}`]: cachedData });
 
       const coupons = await fetchCouponsForDomain(domain);
 
@@ -94,10 +115,10 @@ describe('API Service', () => {
 
     it('should fetch new data if cache is expired', async () => {
       const expiredData = {
-        data: mockCoupons.slice(0, 1),
+        data: { data: mockCoupons.slice(0, 1) },
         timestamp: Date.now() - 6 * 60 * 1000, // 6 minutes ago
       };
-      mockChromeStorage({ [`coupons_${domain}`]: expiredData });
+      mockChromeStorage({ [`coupons_v2_${domain}`]: expiredData });
       mockFetch({ data: mockCoupons });
 
       const coupons = await fetchCouponsForDomain(domain);
@@ -120,6 +141,23 @@ describe('API Service', () => {
       await expect(fetchCouponsForDomain(domain)).rejects.toThrow('API error: 500');
     });
 
+    it('should attach the server request ID to API errors', async () => {
+      mockFetch({ success: false, error: 'Internal Server Error', requestId: 'body-id' }, false, 500, {
+        'X-Request-Id': 'req-123',
+      });
+
+      await expect(fetchCouponsForDomain(domain)).rejects.toMatchObject({ status: 500, requestId: 'req-123' });
+    });
+
+    it('should fall back to the request ID in the error body', async () => {
+      mockFetch({ success: false, error: 'Internal Server Error', requestId: 'body-id' }, false, 500);
+
+      const error = await fetchCouponsForDomain(domain).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(sanitizeErrorMessage(error)).toBe('An error occurred. Please try again. (Request ID: body-id)');
+    });
+
     it('should retry on network failure', async () => {
       let callCount = 0;
       global.fetch = vi.fn(() => {
@@ -130,6 +168,7 @@ describe('API Service', () => {
         return Promise.resolve({
           ok: true,
           status: 200,
+          headers: new Headers(),
           json: () => Promise.resolve({ data: mockCoupons }),
         } as Response);
       });
@@ -154,12 +193,252 @@ describe('API Service', () => {
 
       expect(chrome.storage.local.set).toHaveBeenCalledWith(
         expect.objectContaining({
-          [`coupons_${domain}`]: expect.objectContaining({
-            data: mockCoupons,
+          [`coupons_v2_${domain}`]: expect.objectContaining({
+            data: { data: mockCoupons },
             timestamp: expect.any(Number),
           }),
         }),
       );
     });
+
+    it('should store the ETag with the cached coupons', async () => {
+      mockFetch({ data: mockCoupons }, true, 200, { ETag: '"abc123"' });
+
+      await fetchCouponsForDomain(domain);
+
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({
+        [`coupons_v2_${domain}`]: expect.objectContaining({ data: { data: mockCoupons }, etag: '"abc123"' }),
+      });
+    });
+
+    it('should revalidate an expired entry with If-None-Match', async () => {
+      const storage: Record<string, unknown> = {
+        [`coupons_v2_${domain}`]: {
+          data: { data: mockCoupons.slice(0, 1) },
+          timestamp: Date.now() - 6 * 60 * 1000,
+          etag: '"abc123"',
+        },
+      };
+      mockChromeStorage(storage);
+      mockFetch(null, false, 304);
+
+      const coupons = await fetchCouponsForDomain(domain);
+
+      const [, options] = vi.mocked(global.fetch).mock.calls[0]!;
+      expect(options?.headers).toEqual({ 'If-None-Match': '"abc123"' });
+      expect(coupons).toEqual(mockCoupons.slice(0, 1));
+      // The entry is kept for another cache period
+      expect(storage[`coupons_v2_${domain}`]).toMatchObject({
+        etag: '"abc123"',
+        timestamp: expect.any(Number),
+      });
+      expect((storage[`coupons_v2_${domain}`] as { timestamp: number }).timestamp).toBeGreaterThan(Date.now() - 1000);
+    });
+
+    it('should replace an expired entry when the coupons changed', async () => {
+      mockChromeStorage({
+        [`coupons_v2_${domain}`]: { data: { data: [] }, timestamp: Date.now() - 6 * 60 * 1000, etag: '"old"' },
+      });
+      mockFetch({ data: mockCoupons }, true, 200, { ETag: '"new"' });
+
+      const coupons = await fetchCouponsForDomain(domain);
+
+      expect(coupons).toEqual(mockCoupons);
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({
+        [`coupons_v2_${domain}`]: expect.objectContaining({ data: { data: mockCoupons }, etag: '"new"' }),
+      });
+    });
+
+    it('should not send If-None-Match without a cached ETag', async () => {
+      mockFetch({ data: mockCoupons });
+
+      await fetchCouponsForDomain(domain);
+
+      const [, options] = vi.mocked(global.fetch).mock.calls[0]!;
+      expect(options?.headers).toEqual({});
+    });
+  });
+
+  describe('fetchCouponsWithRetailer', () => {
+    const domain = 'example.com';
+
+    it('should return the coupons with their retailer', async () => {
+      mockFetch({ data: mockCoupons, retailer: mockRetailer });
+
+      const result = await fetchCouponsWithRetailer(domain);
+
+      expect(result).toEqual({ data: mockCoupons, retailer: mockRetailer });
+    });
+
+    it('should cache the retailer with the coupons', async () => {
+      mockFetch({ data: mockCoupons, retailer: mockRetailer });
+
+      await fetchCouponsWithRetailer(domain);
+      const cached = await fetchCouponsWithRetailer(domain);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(cached.retailer?.selectorConfig).toEqual(mockRetailer.selectorConfig);
+    });
+
+    it('should return no retailer for a 404 response', async () => {
+      mockFetch(null, false, 404);
+
+      const result = await fetchCouponsWithRetailer(domain);
+
+      expect(result).toEqual({ data: [] });
+    });
+  });
+
+  describe('searchRetailers', () => {
+    const page = { data: [], pagination: { limit: 20, nextCursor: null } };
+
+    beforeEach(() => {
+      apiRateLimiter.reset();
+    });
+
+    it('should browse the directory without a query', async () => {
+      mockFetch(page);
+
+      const result = await searchRetailers();
+
+      expect(global.fetch).toHaveBeenCalledWith(expect.stringMatching(/\/retailers$/), expect.any(Object));
+      expect(result).toEqual(page);
+    });
+
+    it('should send the search, cursor and coupon filter', async () => {
+      mockFetch(page);
+
+      await searchRetailers({ search: 'ex am', cursor: 'abc', hasCoupons: true });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/retailers?search=ex+am&cursor=abc&hasCoupons=true'),
+        expect.any(Object),
+      );
+    });
+
+    it('should throw ApiError with the request ID on failure', async () => {
+      mockFetch({ success: false, error: 'Invalid cursor' }, false, 400, { 'X-Request-Id': 'req-123' });
+
+      const error = await searchRetailers({ cursor: 'bogus' }).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status: 400, requestId: 'req-123' });
+    });
+  });
+
+  describe('getRetailerDomains', () => {
+    const retailer = (domain: string) => ({ domain });
+
+    beforeEach(() => {
+      apiRateLimiter.reset();
+    });
+
+    it('should page through the stores with coupons and cache their domains', async () => {
+      const storage: Record<string, unknown> = {};
+      mockChromeStorage(storage);
+      global.fetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ data: [retailer('example.com')], pagination: { limit: 50, nextCursor: 'next' } }),
+          ),
+        )
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ data: [retailer('other.com')], pagination: { limit: 50, nextCursor: null } })),
+        );
+
+      expect(await getRetailerDomains()).toEqual(['example.com', 'other.com']);
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/retailers?cursor=next&hasCoupons=true&limit=50'),
+        expect.any(Object),
+      );
+
+      vi.mocked(global.fetch).mockClear();
+      expect(await getRetailerDomains()).toEqual(['example.com', 'other.com']);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a stale list when the stores cannot be fetched', async () => {
+      mockChromeStorage({ retailer_domains: { data: ['example.com'], timestamp: 0 } });
+      mockFetchError(new Error('Network error'));
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      expect(await getRetailerDomains()).toEqual(['example.com']);
+      warn.mockRestore();
+    });
+  });
+
+  describe('badge prefetch setting', () => {
+    it('should be on until the user turns it off', async () => {
+      expect(await isBadgePrefetchEnabled()).toBe(true);
+
+      await setBadgePrefetchEnabled(false);
+
+      expect(await isBadgePrefetchEnabled()).toBe(false);
+    });
+  });
+
+  describe('lookupDomains', () => {
+    beforeEach(() => {
+      apiRateLimiter.reset();
+    });
+
+    it('should post the domains and return one result per domain', async () => {
+      const results = [
+        { domain: 'example.com', found: true, couponCount: 2, hash: 'abc' },
+        { domain: 'other.com', found: false, couponCount: 0, hash: null },
+      ];
+      mockFetch({ data: results });
+
+      const result = await lookupDomains(['example.com', 'other.com']);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/coupons\/lookup$/),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ domains: ['example.com', 'other.com'] }) }),
+      );
+      expect(result).toEqual(results);
+    });
+
+    it('should throw ApiError on failure', async () => {
+      mockFetch({ success: false, error: 'Invalid request body' }, false, 400);
+
+      await expect(lookupDomains([])).rejects.toBeInstanceOf(ApiError);
+    });
+  });
+
+  describe('warmCouponCache', () => {
+    const cached = (etag: string, timestamp: number) => ({
+      data: { data: mockCoupons, retailer: mockRetailer },
+      timestamp,
+      etag,
+    });
+
+    it('should keep a cached list whose ETag matches the lookup hash', async () => {
+      const storage = { 'coupons_v2_example.com': cached('"abc"', 0) };
+      mockChromeStorage(storage);
+
+      await warmCouponCache([{ domain: 'example.com', found: true, couponCount: 2, hash: 'abc' }]);
+
+      expect(storage['coupons_v2_example.com'].timestamp).toBeGreaterThan(0);
+      expect(storage['coupons_v2_example.com'].etag).toBe('"abc"');
+    });
+
+    it('should leave a cached list with a different ETag to be revalidated', async () => {
+      mockChromeStorage({ 'coupons_v2_example.com': cached('"old"', 0) });
+
+      await warmCouponCache([{ domain: 'example.com', found: true, couponCount: 2, hash: 'new' }]);
+
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
+
+    it('should cache an empty list for a domain without a retailer', async () => {
+      mockChromeStorage({});
+
+      await warmCouponCache([{ domain: 'other.com', found: false, couponCount: 0, hash: null }]);
+      global.fetch = vi.fn();
+
+      expect(await fetchCouponsWithRetailer('other.com')).toEqual({ data: [] });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,44 +1,67 @@
-import type { Coupon, CouponResponse, CacheEntry } from '@/types';
+import type { Coupon, CouponResponse, CacheEntry, DomainLookupResult, RetailerSearchResponse } from '@/types';
 import { getApiUrl } from '@/config';
 import { apiRateLimiter } from '@/utils/rateLimiter';
 
 const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+const RETAILER_DOMAINS_CACHE_KEY = 'retailer_domains';
+const RETAILER_DOMAINS_DURATION_MS = 24 * 60 * 60 * 1000; // 1 day
+const MAX_RETAILER_PAGES = 10; // 500 stores, within the API rate limiter
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
 
+/**
+ * Error response from the API
+ * Carries the server's request ID so users can include it in bug reports
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly requestId: string | undefined;
+
+  constructor(message: string, status: number, requestId?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Reads the server's request ID from an error response
+ * Prefers the X-Request-Id header and falls back to the requestId field of the JSON body
+ */
+export async function getResponseRequestId(response: Response, body?: unknown): Promise<string | undefined> {
+  const header = response.headers.get('X-Request-Id');
+  if (header) {
+    return header;
+  }
+
+  const data = body ?? (await response.json().catch(() => undefined));
+  const requestId = (data as { requestId?: unknown } | undefined)?.requestId;
+  return typeof requestId === 'string' ? requestId : undefined;
+}
+
 /**
  * Extracts hostname from a URL
+ * Normalized the same way as the server (lowercase, no trailing dot, no leading "www.")
+ * so cache keys and API lookups agree; the server resolves subdomains and aliases
  */
 export function extractHostname(url: string): string | null {
   try {
     const urlObj = new URL(url);
-    return urlObj.hostname;
+    return urlObj.hostname.replace(/\.$/, '').replace(/^www\./, '') || null;
   } catch {
     return null;
   }
 }
 
 /**
- * Gets cached data from chrome.storage.local
+ * Gets a cache entry from chrome.storage.local
+ * Expired entries are returned too so their ETag can be used to revalidate them
  */
-async function getFromCache<T>(key: string): Promise<T | null> {
+async function getCacheEntry<T>(key: string): Promise<CacheEntry<T> | null> {
   try {
     const result = await chrome.storage.local.get(key);
-    const cacheEntry = result[key] as CacheEntry<T> | undefined;
-
-    if (!cacheEntry) {
-      return null;
-    }
-
-    const now = Date.now();
-    const isExpired = now - cacheEntry.timestamp > CACHE_DURATION_MS;
-
-    if (isExpired) {
-      await chrome.storage.local.remove(key);
-      return null;
-    }
-
-    return cacheEntry.data;
+    return (result[key] as CacheEntry<T> | undefined) ?? null;
   } catch (error) {
     console.error('Error reading from cache:', error);
     return null;
@@ -46,13 +69,21 @@ async function getFromCache<T>(key: string): Promise<T | null> {
 }
 
 /**
- * Saves data to chrome.storage.local with timestamp
+ * Checks whether a cache entry is recent enough to use without asking the API
+ */
+function isCacheFresh<T>(cacheEntry: CacheEntry<T>): boolean {
+  return Date.now() - cacheEntry.timestamp <= CACHE_DURATION_MS;
+}
+
+/**
+ * Saves data to chrome.storage.local with timestamp and the response ETag (if any)
  */
-async function saveToCache<T>(key: string, data: T): Promise<void> {
+async function saveToCache<T>(key: string, data: T, etag?: string | null): Promise<void> {
   try {
     const cacheEntry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
+      ...(etag ? { etag } : {}),
     };
     await chrome.storage.local.set({ [key]: cacheEntry });
   } catch (error) {
@@ -107,15 +138,17 @@ async function fetchWithRetry(
 }
 
 /**
- * Fetches coupons for a given domain
+ * Fetches coupons for a given domain together with the retailer they belong to
+ * The retailer carries the selector config used by the content script
  */
-export async function fetchCouponsForDomain(domain: string): Promise<Coupon[]> {
-  const cacheKey = `coupons_${domain}`;
+export async function fetchCouponsWithRetailer(domain: string): Promise<CouponResponse> {
+  // v2 entries hold the whole response (coupons and retailer), not just the coupon array
+  const cacheKey = `coupons_v2_${domain}`;
 
   // Try to get from cache first
-  const cachedData = await getFromCache<Coupon[]>(cacheKey);
-  if (cachedData) {
-    return cachedData;
+  const cacheEntry = await getCacheEntry<CouponResponse>(cacheKey);
+  if (cacheEntry && isCacheFresh(cacheEntry)) {
+    return cacheEntry.data;
   }
 
   // Rate limiting: Check if we can make this request
@@ -131,29 +164,203 @@ export async function fetchCouponsForDomain(domain: string): Promise<Coupon[]> {
   const url = `${apiBaseUrl}/coupons?domain=${encodeURIComponent(domain)}`;
 
   try {
-    const response = await fetchWithRetry(url);
+    // Revalidate an expired entry instead of downloading the coupons again
+    const headers: Record<string, string> = cacheEntry?.etag ? { 'If-None-Match': cacheEntry.etag } : {};
+    const response = await fetchWithRetry(url, { headers });
+
+    if (response.status === 304 && cacheEntry) {
+      // Coupons have not changed: keep the cached copy for another cache period
+      await saveToCache(cacheKey, cacheEntry.data, cacheEntry.etag);
+      return cacheEntry.data;
+    }
 
     if (!response.ok) {
       if (response.status === 404) {
         // No coupons found for this domain
-        return [];
+        await chrome.storage.local.remove(cacheKey);
+        return { data: [] };
       }
-      throw new Error(`API error: ${response.status} ${response.statusText}`);
+      throw new ApiError(
+        `API error: ${response.status} ${response.statusText}`,
+        response.status,
+        await getResponseRequestId(response),
+      );
     }
 
-    const data: CouponResponse = await response.json();
-    const coupons = data.data || [];
+    const body: CouponResponse = await response.json();
+    const result: CouponResponse = body.retailer
+      ? { data: body.data || [], retailer: body.retailer }
+      : { data: body.data || [] };
 
-    // Cache the result
-    await saveToCache(cacheKey, coupons);
+    // Cache the result with its ETag for revalidation
+    await saveToCache(cacheKey, result, response.headers.get('ETag'));
 
-    return coupons;
+    return result;
   } catch (error) {
     console.error('Error fetching coupons:', error);
     throw error;
   }
 }
 
+/**
+ * Fetches coupons for a given domain
+ */
+export async function fetchCouponsForDomain(domain: string): Promise<Coupon[]> {
+  const { data } = await fetchCouponsWithRetailer(domain);
+  return data;
+}
+
+/**
+ * Looks up coupon counts and list hashes for several domains in one request
+ * Used by the service worker to badge tabs without fetching each coupon list
+ */
+export async function lookupDomains(domains: string[]): Promise<DomainLookupResult[]> {
+  await apiRateLimiter.acquire();
+
+  const apiBaseUrl = await getApiUrl();
+  const response = await fetchWithTimeout(`${apiBaseUrl}/coupons/lookup`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ domains }),
+  });
+
+  if (!response.ok) {
+    throw new ApiError(
+      `API error: ${response.status} ${response.statusText}`,
+      response.status,
+      await getResponseRequestId(response),
+    );
+  }
+
+  const body: { data?: DomainLookupResult[] } = await response.json();
+  return body.data || [];
+}
+
+/**
+ * Checks whether the user allows visited pages to be looked up for toolbar badges
+ * @returns Promise resolving to true unless badges were turned off
+ */
+export async function isBadgePrefetchEnabled(): Promise<boolean> {
+  try {
+    const result = await chrome.storage.local.get('badgePrefetchEnabled');
+    // Default to true if not set
+    return result.badgePrefetchEnabled !== false;
+  } catch (error) {
+    console.error('Error checking badge settings:', error);
+    return false; // Send nothing if the setting cannot be read
+  }
+}
+
+/**
+ * Sets the badge prefetch preference
+ * @param enabled - Whether visited pages may be looked up for toolbar badges
+ */
+export async function setBadgePrefetchEnabled(enabled: boolean): Promise<void> {
+  try {
+    await chrome.storage.local.set({ badgePrefetchEnabled: enabled });
+  } catch (error) {
+    console.error('Error saving badge settings:', error);
+  }
+}
+
+/**
+ * Gets the domains of stores that have coupons, so only their hostnames are sent for lookups
+ * The list is cached for a day; a stale list is used if it cannot be refreshed
+ */
+export async function getRetailerDomains(): Promise<string[]> {
+  const cacheEntry = await getCacheEntry<string[]>(RETAILER_DOMAINS_CACHE_KEY);
+  if (cacheEntry && Date.now() - cacheEntry.timestamp <= RETAILER_DOMAINS_DURATION_MS) {
+    return cacheEntry.data;
+  }
+
+  try {
+    const domains: string[] = [];
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_RETAILER_PAGES; page++) {
+      const response: RetailerSearchResponse = await searchRetailers({
+        hasCoupons: true,
+        limit: 50,
+        ...(cursor ? { cursor } : {}),
+      });
+      domains.push(...response.data.map((retailer) => retailer.domain));
+
+      cursor = response.pagination.nextCursor;
+      if (!cursor) break;
+    }
+
+    await saveToCache(RETAILER_DOMAINS_CACHE_KEY, domains);
+    return domains;
+  } catch (error) {
+    if (cacheEntry) {
+      console.warn('[API] Using stale store list:', error);
+      return cacheEntry.data;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refreshes cached coupon lists that a lookup showed to be current
+ * An entry whose ETag matches the lookup hash is kept for another cache period, and domains
+ * without a retailer are cached as empty. Other entries are left for the popup to revalidate.
+ */
+export async function warmCouponCache(results: DomainLookupResult[]): Promise<void> {
+  for (const result of results) {
+    const cacheKey = `coupons_v2_${result.domain}`;
+
+    if (!result.found) {
+      await saveToCache<CouponResponse>(cacheKey, { data: [] });
+      continue;
+    }
+
+    const cacheEntry = await getCacheEntry<CouponResponse>(cacheKey);
+    if (cacheEntry?.etag && cacheEntry.etag === `"${result.hash}"`) {
+      await saveToCache(cacheKey, cacheEntry.data, cacheEntry.etag);
+    }
+  }
+}
+
+export interface RetailerSearchOptions {
+  /** Start of a store name or domain; omit to browse */
+  search?: string;
+  /** nextCursor of the previous page */
+  cursor?: string;
+  /** Only list stores that have coupons */
+  hasCoupons?: boolean;
+  /** Page size, 1-50 (server default 20) */
+  limit?: number;
+}
+
+/**
+ * Searches the store directory by name or domain prefix
+ * Not cached: results follow what the user types
+ */
+export async function searchRetailers(options: RetailerSearchOptions = {}): Promise<RetailerSearchResponse> {
+  await apiRateLimiter.acquire();
+
+  const params = new URLSearchParams();
+  if (options.search) params.set('search', options.search);
+  if (options.cursor) params.set('cursor', options.cursor);
+  if (options.hasCoupons !== undefined) params.set('hasCoupons', String(options.hasCoupons));
+  if (options.limit !== undefined) params.set('limit', String(options.limit));
+
+  const apiBaseUrl = await getApiUrl();
+  const query = params.toString();
+  const response = await fetchWithTimeout(`${apiBaseUrl}/retailers${query ? `?${query}` : ''}`);
+
+  if (!response.ok) {
+    throw new ApiError(
+      `API error: ${response.status} ${response.statusText}`,
+      response.status,
+      await getResponseRequestId(response),
+    );
+  }
+
+  const body: RetailerSearchResponse = await response.json();
+  return { data: body.data || [], pagination: body.pagination };
+}
+
 /**
  * Gets the current active tab
  */
@@ -11,11 +11,22 @@ import type {
   BatchFeedbackResponse,
   CouponTestResult,
 } from '@/types';
-import { getApiUrl } from '@/config';
+import { getApiUrl, getInstallId } from '@/config';
+import { getResponseRequestId } from '@/services/api';
 import { feedbackRateLimiter } from '@/utils/rateLimiter';
 
 const FEEDBACK_TIMEOUT_MS = 10000; // 10 seconds
 
+/**
+ * Ensures feedback carries an event ID
+ * The server ignores repeated event IDs, so a retried submission is only counted once
+ * @param feedback - Feedback data, with or without an event ID
+ * @returns Copy of the feedback with its existing event ID or a new one
+ */
+export function withEventId<T extends FeedbackRequest>(feedback: T): T & { eventId: string } {
+  return { ...feedback, eventId: feedback.eventId ?? crypto.randomUUID() };
+}
+
 /**
  * Sends feedback for a single coupon
  * @param couponId - UUID of the coupon
@@ -39,6 +50,7 @@ export async function sendFeedback(
   }
 
   const apiBaseUrl = await getApiUrl();
+  const installId = await getInstallId();
   const url = `${apiBaseUrl}/coupons/${couponId}/feedback`;
 
   try {
@@ -49,8 +61,9 @@ export async function sendFeedback(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'X-Install-Id': installId,
       },
-      body: JSON.stringify(feedback),
+      body: JSON.stringify(withEventId(feedback)),
       signal: controller.signal,
     });
 
@@ -60,10 +73,12 @@ export async function sendFeedback(
 
     if (!response.ok) {
       console.warn(`Feedback API error for coupon ${couponId}:`, data);
+      const requestId = await getResponseRequestId(response, data);
       return {
         success: false,
         error: data.error || `HTTP ${response.status}: ${response.statusText}`,
         code: data.code || 'SERVER_ERROR',
+        ...(requestId ? { requestId } : {}),
       };
     }
 
@@ -99,6 +114,7 @@ export async function sendBatchFeedback(
   }
 
   const apiBaseUrl = await getApiUrl();
+  const installId = await getInstallId();
   const url = `${apiBaseUrl}/coupons/feedback/batch`;
 
   try {
@@ -109,8 +125,9 @@ export async function sendBatchFeedback(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'X-Install-Id': installId,
       },
-      body: JSON.stringify({ feedback: feedbackItems }),
+      body: JSON.stringify({ feedback: feedbackItems.map(withEventId) }),
       signal: controller.signal,
     });
 
@@ -120,10 +137,12 @@ export async function sendBatchFeedback(
 
     if (!response.ok) {
       console.warn('Batch feedback API error:', data);
+      const requestId = await getResponseRequestId(response, data);
       return {
         success: false,
         error: data.error || `HTTP ${response.status}: ${response.statusText}`,
         code: data.code || 'SERVER_ERROR',
+        ...(requestId ? { requestId } : {}),
       };
     }
 
@@ -140,11 +159,13 @@ export async function sendBatchFeedback(
 
 /**
  * Converts CouponTestResult to FeedbackRequest format
+ * Each call generates a new event ID for the test result
  * @param testResult - Result from auto-apply testing
  * @param domain - Current retailer domain
  * @returns Formatted feedback request
  */
 export function testResultToFeedback(testResult: CouponTestResult, domain: string): FeedbackRequest {
+  const eventId = crypto.randomUUID();
   const metadata = {
     domain,
     testDurationMs: testResult.durationMs,
@@ -155,6 +176,7 @@ export function testResultToFeedback(testResult: CouponTestResult, domain: strin
   if (testResult.success) {
     return {
       success: true,
+      eventId,
       metadata: {
         ...metadata,
         discountAmount: testResult.discountAmount,
@@ -164,6 +186,7 @@ export function testResultToFeedback(testResult: CouponTestResult, domain: strin
   } else {
     return {
       success: false,
+      eventId,
       metadata: {
         ...metadata,
         failureReason: mapFailureReason(testResult.failureReason),
@@ -1,4 +1,4 @@
-import type { Coupon } from '@/types';
+import type { Coupon, Retailer } from '@/types';
 
 export const mockCoupons: Coupon[] = [
   {
@@ -56,6 +56,19 @@ export const mockCoupons: Coupon[] = [
   },
 ];
 
+export const mockRetailer: Retailer = {
+  id: 'retailer-1',
+  domain: 'example.com',
+  name: 'Example Store',
+  logoUrl: 'https://example.com/logo.png',
+  homeUrl: 'https://example.com',
+  selectorConfig: {
+    input: '#promo-code',
+    submit: '#apply-promo',
+    priceSelectors: ['.order-total'],
+  },
+};
+
 export const mockTab: chrome.tabs.Tab = {
   id: 1,
   index: 0,
@@ -68,6 +68,12 @@ global.chrome = {
   },
   tabs: {
     query: vi.fn(),
+    sendMessage: vi.fn(),
+    create: vi.fn(),
+  },
+  action: {
+    setBadgeText: vi.fn(() => Promise.resolve()),
+    setBadgeBackgroundColor: vi.fn(() => Promise.resolve()),
   },
   runtime: {
     sendMessage: vi.fn(),
@@ -11,11 +11,12 @@ export function renderWithProviders(ui: ReactElement, options?: Omit<RenderOptio
 /**
  * Mock fetch responses
  */
-export function mockFetch(data: unknown, ok = true, status = 200) {
+export function mockFetch(data: unknown, ok = true, status = 200, headers: Record<string, string> = {}) {
   global.fetch = vi.fn(() =>
     Promise.resolve({
       ok,
       status,
+      headers: new Headers(headers),
       json: () => Promise.resolve(data),
       statusText: ok ? 'OK' : 'Error',
     } as Response),
@@ -1,3 +1,5 @@
+export type CouponStatus = 'active' | 'stale' | 'expired' | 'disabled' | 'pending-review';
+
 export interface Coupon {
   id: string;
   code: string;
@@ -8,24 +10,22 @@ export interface Coupon {
   lastTestedAt?: string;
   expiryDate?: string;
   source?: string;
+  status?: CouponStatus;
   retailerId: string;
   createdAt: string;
   updatedAt: string;
+  /** Confidence score (0-1) computed by the API; coupons arrive ordered by it */
+  score?: number;
 }
 
+/** Retailer as served with its coupons by GET /coupons */
 export interface Retailer {
   id: string;
   domain: string;
   name: string;
-  logoUrl?: string;
-  homeUrl?: string;
-  isActive: boolean;
-  selectorConfig?: {
-    input?: string;
-    submit?: string;
-  };
-  createdAt: string;
-  updatedAt: string;
+  logoUrl: string | null;
+  homeUrl: string | null;
+  selectorConfig: SelectorConfig | null;
 }
 
 export interface CouponResponse {
@@ -33,9 +33,43 @@ export interface CouponResponse {
   retailer?: Retailer;
 }
 
+/** Retailer as listed by GET /retailers */
+export interface RetailerSummary {
+  id: string;
+  domain: string;
+  name: string;
+  logoUrl: string | null;
+  homeUrl: string | null;
+  /** Coupons currently served for the retailer */
+  activeCouponCount: number;
+  /** Largest discount a successful test reported in the last 90 days */
+  bestDiscount: { amount: number | null; percentage: number | null } | null;
+}
+
+export interface RetailerSearchResponse {
+  data: RetailerSummary[];
+  pagination: {
+    limit: number;
+    /** Pass as `cursor` to fetch the next page; null on the last page */
+    nextCursor: string | null;
+  };
+}
+
+export interface DomainLookupResult {
+  /** Normalized hostname, as returned by extractHostname */
+  domain: string;
+  /** Whether an active retailer serves the domain */
+  found: boolean;
+  couponCount: number;
+  /** ETag (without quotes) of the domain's coupon list, or null when not found */
+  hash: string | null;
+}
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  /** ETag of the API response, sent as If-None-Match when the entry expires */
+  etag?: string;
 }
 
 // Detector types
@@ -53,6 +87,7 @@ export interface SelectorConfig {
   input?: string;
   submit?: string;
   container?: string;
+  priceSelectors?: string[]; // Order total selectors, tried before the generic ones
 }
 
 export interface DetectorOptions {
@@ -126,6 +161,8 @@ export interface FeedbackMetadata {
 export interface FeedbackRequest {
   success: boolean;
   metadata?: FeedbackMetadata;
+  // Generated once per test result and reused on retries so the server counts it once
+  eventId?: string;
 }
 
 export interface FeedbackResponse {
@@ -145,12 +182,15 @@ export interface FeedbackError {
   success: false;
   error: string;
   code?: 'COUPON_NOT_FOUND' | 'INVALID_REQUEST' | 'RATE_LIMITED' | 'SERVER_ERROR';
+  /** Server request ID (X-Request-Id) to quote in bug reports */
+  requestId?: string;
 }
 
 export interface BatchFeedbackItem {
   couponId: string;
   success: boolean;
   metadata?: FeedbackMetadata;
+  eventId?: string;
 }
 
 export interface BatchFeedbackRequest {
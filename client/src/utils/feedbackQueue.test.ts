@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { addToQueue, getQueue, processQueue } from './feedbackQueue';
+import { sendFeedback, testResultToFeedback } from '@/services/feedback';
+import { mockFetch } from '../test/testUtils';
+import type { CouponTestResult } from '@/types';
+
+const couponId = '123e4567-e89b-12d3-a456-426614174000';
+
+const testResult: CouponTestResult = {
+  couponId,
+  code: 'SAVE20',
+  priceBefore: { value: 100, rawText: '$100.00', currency: '$', element: null, detectedAt: 0 },
+  priceAfter: { value: 80, rawText: '$80.00', currency: '$', element: null, detectedAt: 0 },
+  discountAmount: 20,
+  discountPercentage: 20,
+  success: true,
+  detectionMethod: 'price-change',
+  durationMs: 1200,
+};
+
+/**
+ * Event IDs sent in the body of each fetch call so far
+ */
+function sentEventIds(): string[] {
+  return vi
+    .mocked(fetch)
+    .mock.calls.map(([, init]) => (JSON.parse((init as RequestInit).body as string) as { eventId: string }).eventId);
+}
+
+describe('Feedback identifiers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should generate a new event ID for each test result', () => {
+    const first = testResultToFeedback(testResult, 'example.com');
+    const second = testResultToFeedback(testResult, 'example.com');
+
+    expect(first.eventId).toEqual(expect.any(String));
+    expect(second.eventId).not.toBe(first.eventId);
+  });
+
+  it('should send the event ID with the feedback', async () => {
+    mockFetch({ success: true });
+    const feedback = testResultToFeedback(testResult, 'example.com');
+
+    await sendFeedback(couponId, feedback);
+
+    expect(sentEventIds()).toEqual([feedback.eventId]);
+  });
+
+  it('should add an event ID when the feedback has none', async () => {
+    mockFetch({ success: true });
+
+    await sendFeedback(couponId, { success: true });
+
+    expect(sentEventIds()[0]).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should send the same install ID with every submission', async () => {
+    mockFetch({ success: true });
+
+    await sendFeedback(couponId, { success: true });
+    await sendFeedback(couponId, { success: false });
+
+    const installIds = vi.mocked(fetch).mock.calls.map(([, init]) => new Headers(init?.headers).get('X-Install-Id'));
+    expect(installIds[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(installIds[1]).toBe(installIds[0]);
+  });
+
+  it('should return the server request ID with a failed submission', async () => {
+    mockFetch({ success: false, error: 'Internal Server Error' }, false, 500, { 'X-Request-Id': 'req-123' });
+
+    const result = await sendFeedback(couponId, { success: true });
+
+    expect(result).toMatchObject({ success: false, code: 'SERVER_ERROR', requestId: 'req-123' });
+  });
+
+  it('should persist the event ID in the queue and reuse it on every retry', async () => {
+    await addToQueue(couponId, { success: false });
+    const [queued] = await getQueue();
+    expect(queued?.feedback.eventId).toEqual(expect.any(String));
+
+    mockFetch({ success: true });
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      statusText: 'Error',
+      headers: new Headers(),
+      json: () => Promise.resolve({ success: false, error: 'Server error' }),
+    } as Response);
+
+    await processQueue();
+    await processQueue();
+
+    expect(sentEventIds()).toEqual([queued?.feedback.eventId, queued?.feedback.eventId]);
+    expect(await getQueue()).toEqual([]);
+  });
+});
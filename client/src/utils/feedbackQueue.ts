@@ -4,7 +4,7 @@
  */
 
 import type { QueuedFeedback, FeedbackRequest } from '@/types';
-import { sendFeedback } from '@/services/feedback';
+import { sendFeedback, withEventId } from '@/services/feedback';
 
 const QUEUE_STORAGE_KEY = 'feedbackQueue';
 const MAX_QUEUE_SIZE = 100;
@@ -18,11 +18,13 @@ interface QueueData {
 
 /**
  * Adds a failed feedback item to the queue
+ * The event ID is stored with the item (generated if missing) so every retry reuses it
  * @param couponId - UUID of the coupon
  * @param feedback - Feedback data
  */
 export async function addToQueue(couponId: string, feedback: FeedbackRequest): Promise<void> {
   try {
+    const queuedFeedback = withEventId(feedback);
     const queueData = await getQueueData();
     const now = Date.now();
 
@@ -33,7 +35,7 @@ export async function addToQueue(couponId: string, feedback: FeedbackRequest): P
       // Update existing item
       queueData.queue[existingIndex] = {
         ...queueData.queue[existingIndex],
-        feedback,
+        feedback: queuedFeedback,
         attempts: queueData.queue[existingIndex].attempts + 1,
         lastAttemptAt: now,
       };
@@ -41,7 +43,7 @@ export async function addToQueue(couponId: string, feedback: FeedbackRequest): P
       // Add new item
       const newItem: QueuedFeedback = {
         couponId,
-        feedback,
+        feedback: queuedFeedback,
         attempts: 0,
         createdAt: now,
       };
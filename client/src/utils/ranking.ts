@@ -0,0 +1,31 @@
+/**
+ * Coupon Ranking
+ * Orders coupons for display and testing
+ */
+
+import type { Coupon } from '../types';
+
+/**
+ * Orders coupons best-first
+ * The API ranks coupons by confidence score and returns them in that order, so
+ * scored lists are kept as-is. Lists without scores (e.g. cached from an older
+ * API) fall back to success count, then most recent success.
+ *
+ * @param coupons - Coupons as returned by the API
+ * @returns New array in ranking order
+ */
+export function orderCoupons(coupons: Coupon[]): Coupon[] {
+  if (coupons.every((coupon) => typeof coupon.score === 'number')) {
+    return [...coupons];
+  }
+
+  return [...coupons].sort((a, b) => {
+    if (b.successCount !== a.successCount) {
+      return b.successCount - a.successCount;
+    }
+
+    const aTime = a.lastSuccessAt ? new Date(a.lastSuccessAt).getTime() : 0;
+    const bTime = b.lastSuccessAt ? new Date(b.lastSuccessAt).getTime() : 0;
+    return bTime - aTime;
+  });
+}
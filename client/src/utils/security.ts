@@ -3,6 +3,8 @@
  * Provides validation and sanitization functions for security-critical operations
  */
 
+import type { Retailer } from '@/types';
+
 /**
  * Validates that a message sender is from our own extension
  * Prevents malicious messages from other extensions or webpages
@@ -91,9 +93,69 @@ export function isValidCouponsArray(coupons: unknown): coupons is Array<{
   return true;
 }
 
+/**
+ * Validates the retailer sent with an auto-apply request
+ * Only the selector config is used by the content script, so only its shape is checked:
+ * selectors must be strings and priceSelectors an array of strings
+ *
+ * @param retailer - Retailer to validate
+ * @returns true if the retailer is safe to use for detection
+ */
+export function isValidRetailer(retailer: unknown): retailer is Retailer {
+  if (!retailer || typeof retailer !== 'object') {
+    console.warn('[Security] Invalid retailer: not an object');
+    return false;
+  }
+
+  const selectorConfig = (retailer as Record<string, unknown>).selectorConfig;
+  if (selectorConfig === null || selectorConfig === undefined) {
+    return true;
+  }
+
+  if (typeof selectorConfig !== 'object') {
+    console.warn('[Security] Invalid retailer: selectorConfig is not an object');
+    return false;
+  }
+
+  const config = selectorConfig as Record<string, unknown>;
+
+  for (const key of ['input', 'submit', 'container']) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      console.warn(`[Security] Invalid retailer: selectorConfig.${key} is not a string`);
+      return false;
+    }
+  }
+
+  if (
+    config.priceSelectors !== undefined &&
+    (!Array.isArray(config.priceSelectors) || !config.priceSelectors.every((selector) => typeof selector === 'string'))
+  ) {
+    console.warn('[Security] Invalid retailer: priceSelectors is not a string array');
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Gets the server request ID attached to an error (see ApiError), if any
+ *
+ * @param error - Error object or message
+ * @returns Request ID to quote in bug reports
+ */
+export function getErrorRequestId(error: unknown): string | undefined {
+  if (!(error instanceof Error) || !('requestId' in error)) {
+    return undefined;
+  }
+
+  const { requestId } = error as { requestId: unknown };
+  return typeof requestId === 'string' && /^[\w.:-]{1,128}$/.test(requestId) ? requestId : undefined;
+}
+
 /**
  * Sanitizes error messages to prevent information disclosure
  * Removes technical details that could reveal implementation
+ * The server request ID, when known, is kept so users can include it in bug reports
  *
  * @param error - Error object or message
  * @returns Safe error message for display
@@ -103,6 +165,9 @@ export function sanitizeErrorMessage(error: unknown): string {
     return 'An unexpected error occurred';
   }
 
+  const requestId = getErrorRequestId(error);
+  const reference = requestId ? ` (Request ID: ${requestId})` : '';
+
   // List of safe error patterns that can be shown to users
   const safePatterns = [
     /network error/i,
@@ -122,12 +187,12 @@ export function sanitizeErrorMessage(error: unknown): string {
 
   if (isSafe) {
     // Return original message for safe errors
-    return error.message;
+    return error.message + reference;
   }
 
   // For potentially sensitive errors, log internally and return generic message
   console.error('[Error Details]:', error);
-  return 'An error occurred. Please try again.';
+  return 'An error occurred. Please try again.' + reference;
 }
 
 /**
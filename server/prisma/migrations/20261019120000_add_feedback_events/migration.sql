@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "feedback_events" (
+    "id" UUID NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "discountAmount" DOUBLE PRECISION,
+    "discountPercentage" DOUBLE PRECISION,
+    "failureReason" TEXT,
+    "detectionMethod" TEXT,
+    "domain" TEXT,
+    "testDurationMs" INTEGER,
+    "testedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "couponId" UUID NOT NULL,
+
+    CONSTRAINT "feedback_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "feedback_events_couponId_createdAt_idx" ON "feedback_events"("couponId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "feedback_events" ADD CONSTRAINT "feedback_events_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
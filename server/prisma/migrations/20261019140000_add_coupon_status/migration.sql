@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "coupons" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active';
+
+-- Backfill coupons whose expiry date has already passed
+UPDATE "coupons" SET "status" = 'expired' WHERE "expiryDate" IS NOT NULL AND "expiryDate" < CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "coupons_retailerId_status_idx" ON "coupons"("retailerId", "status");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "retailer_domains" (
+    "id" UUID NOT NULL,
+    "domain" TEXT NOT NULL,
+    "region" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retailerId" UUID NOT NULL,
+
+    CONSTRAINT "retailer_domains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retailer_domains_domain_key" ON "retailer_domains"("domain");
+
+-- CreateIndex
+CREATE INDEX "retailer_domains_retailerId_idx" ON "retailer_domains"("retailerId");
+
+-- AddForeignKey
+ALTER TABLE "retailer_domains" ADD CONSTRAINT "retailer_domains_retailerId_fkey" FOREIGN KEY ("retailerId") REFERENCES "retailers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "feedback_events" ADD COLUMN "eventId" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "feedback_events_eventId_key" ON "feedback_events"("eventId");
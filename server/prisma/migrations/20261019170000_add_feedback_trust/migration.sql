@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "coupons" ADD COLUMN "weightedSuccess" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "weightedFailure" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Existing votes were all applied at full weight
+UPDATE "coupons" SET "weightedSuccess" = "successCount", "weightedFailure" = "failureCount";
+
+-- AlterTable
+ALTER TABLE "feedback_events" ADD COLUMN "outcome" TEXT NOT NULL DEFAULT 'applied',
+ADD COLUMN "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN "submitterHash" TEXT,
+ADD COLUMN "sourceHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "feedback_reviews" (
+    "id" UUID NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "feedbackEventId" UUID NOT NULL,
+
+    CONSTRAINT "feedback_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "feedback_events_couponId_submitterHash_createdAt_idx" ON "feedback_events"("couponId", "submitterHash", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "feedback_events_couponId_sourceHash_createdAt_idx" ON "feedback_events"("couponId", "sourceHash", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "feedback_events_submitterHash_createdAt_idx" ON "feedback_events"("submitterHash", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "feedback_reviews_feedbackEventId_key" ON "feedback_reviews"("feedbackEventId");
+
+-- CreateIndex
+CREATE INDEX "feedback_reviews_status_createdAt_idx" ON "feedback_reviews"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "feedback_reviews" ADD CONSTRAINT "feedback_reviews_feedbackEventId_fkey" FOREIGN KEY ("feedbackEventId") REFERENCES "feedback_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
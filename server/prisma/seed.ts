@@ -6,9 +6,9 @@
 import { PrismaClient } from '../src/generated/prisma/index.js';
 import { PrismaPg } from '@prisma/adapter-pg';
 import pg from 'pg';
-import 'dotenv/config';
+import { config } from '../src/lib/config.js';
 
-const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const pool = new pg.Pool({ connectionString: config.databaseUrl });
 const adapter = new PrismaPg(pool);
 const prisma = new PrismaClient({ adapter });
 
@@ -32,6 +32,10 @@ async function main(): Promise<void> {
       selectorConfig: {
         input: '#promoCode',
         submit: 'button[type="submit"]',
+        priceSelectors: ['[data-testid="order-total"]'],
+      },
+      domains: {
+        create: [{ domain: 'nike.co.uk', region: 'GB' }],
       },
       coupons: {
         create: [
@@ -40,6 +44,8 @@ async function main(): Promise<void> {
             description: '20% off entire order',
             successCount: 150,
             failureCount: 10,
+            weightedSuccess: 150,
+            weightedFailure: 10,
             source: 'admin',
             lastSuccessAt: new Date('2024-12-15'),
             lastTestedAt: new Date('2024-12-16'),
@@ -49,6 +55,8 @@ async function main(): Promise<void> {
             description: 'Free shipping on orders over $50',
             successCount: 89,
             failureCount: 5,
+            weightedSuccess: 89,
+            weightedFailure: 5,
             source: 'user-submission',
             lastSuccessAt: new Date('2024-12-14'),
             lastTestedAt: new Date('2024-12-16'),
@@ -58,6 +66,8 @@ async function main(): Promise<void> {
             description: '$15 off orders over $100',
             successCount: 45,
             failureCount: 12,
+            weightedSuccess: 45,
+            weightedFailure: 12,
             source: 'scraper-v1',
             lastTestedAt: new Date('2024-12-10'),
           },
@@ -86,6 +96,8 @@ async function main(): Promise<void> {
             description: '10% off for Prime members',
             successCount: 200,
             failureCount: 3,
+            weightedSuccess: 200,
+            weightedFailure: 3,
             source: 'admin',
             lastSuccessAt: new Date('2024-12-16'),
             lastTestedAt: new Date('2024-12-16'),
@@ -95,6 +107,8 @@ async function main(): Promise<void> {
             description: '$5 off first order',
             successCount: 112,
             failureCount: 8,
+            weightedSuccess: 112,
+            weightedFailure: 8,
             source: 'user-submission',
             lastSuccessAt: new Date('2024-12-15'),
             lastTestedAt: new Date('2024-12-16'),
@@ -121,6 +135,8 @@ async function main(): Promise<void> {
             description: 'This should not be returned',
             successCount: 0,
             failureCount: 0,
+            weightedSuccess: 0,
+            weightedFailure: 0,
             source: 'admin',
           },
         ],
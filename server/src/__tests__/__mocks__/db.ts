@@ -1,8 +1,12 @@
 /**
  * Manual mock for database client
  * Used in unit tests
+ *
+ * Usage: jest.unstable_mockModule('../../lib/db.js', () => import('../__mocks__/db.js'));
  */
 
+import { jest } from '@jest/globals';
+
 export const mockFindUnique = jest.fn();
 
 export const db = {
@@ -10,7 +14,13 @@ export const db = {
     findUnique: mockFindUnique,
   },
   coupon: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+    updateManyAndReturn: jest.fn(),
     deleteMany: jest.fn(),
   },
+  feedbackEvent: {
+    groupBy: jest.fn(),
+  },
   $disconnect: jest.fn(),
-} as unknown as typeof import('../../lib/db').db;
+} as unknown as typeof import('../../lib/db.js').db;
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the Express app factory
+ * Tests that the app is built from its dependencies without listening or touching the database
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import request from 'supertest';
+
+jest.unstable_mockModule('../lib/db.js', () => ({
+  db: {},
+}));
+
+const { createApp } = await import('../app.js');
+const { db } = await import('../lib/db.js');
+const { config } = await import('../lib/config.js');
+
+describe('createApp', () => {
+  it('should serve liveness probes and tag responses with a request ID', async () => {
+    const app = createApp({ readinessDb: db, config });
+
+    const response = await request(app).get('/health/live').expect(200);
+
+    expect(response.body).toEqual({ status: 'ok' });
+    expect(response.headers['x-request-id']).toEqual(expect.any(String));
+  });
+
+  it('should protect /metrics with the configured token', async () => {
+    const app = createApp({ readinessDb: db, config: { ...config, metricsToken: 'secret-token' } });
+
+    await request(app).get('/metrics').expect(401);
+    await request(app).get('/metrics').set('Authorization', 'Bearer secret-token').expect(200);
+  });
+
+  it('should leave out endpoints whose feature flag is off', async () => {
+    const app = createApp({ readinessDb: db, config: { ...config, features: { metrics: false, apiDocs: false } } });
+
+    await request(app).get('/metrics').expect(404);
+    await request(app).get('/api/v1/openapi.json').expect(404);
+  });
+
+  it('should only let the admin dashboard call the admin API from a browser', async () => {
+    const app = createApp({
+      readinessDb: db,
+      config: {
+        ...config,
+        cors: {
+          extensionOrigins: ['chrome-extension://abcdefghijklmnop'],
+          adminOrigins: ['https://admin.example.com'],
+        },
+      },
+    });
+
+    const preflight = (path: string, origin: string) =>
+      request(app).options(path).set('Origin', origin).set('Access-Control-Request-Method', 'POST');
+
+    await preflight('/api/v1/coupons/feedback/batch', 'chrome-extension://abcdefghijklmnop').expect(204);
+    await preflight('/api/v1/coupons/feedback/batch', 'https://admin.example.com').expect(204);
+    await preflight('/api/v1/admin/coupons/import', 'https://admin.example.com').expect(204);
+    await preflight('/api/v1/admin/coupons/import', 'chrome-extension://abcdefghijklmnop').expect(403);
+    await preflight('/api/v1/coupons/lookup', 'https://shop.example.com').expect(403);
+    await preflight('/api/v1/admin/coupons/import', 'https://shop.example.com').expect(403);
+  });
+
+  it('should let content scripts send feedback with the shopping page origin', async () => {
+    const app = createApp({ readinessDb: db, config });
+    const origin = 'https://www.amazon.com';
+
+    for (const path of [
+      '/api/v1/coupons/feedback/batch',
+      '/api/v1/coupons/123e4567-e89b-12d3-a456-426614174000/feedback',
+    ]) {
+      const response = await request(app)
+        .options(path)
+        .set('Origin', origin)
+        .set('Access-Control-Request-Method', 'POST')
+        .set('Access-Control-Request-Headers', 'content-type, x-install-id')
+        .expect(204);
+
+      expect(response.headers['access-control-allow-origin']).toBe(origin);
+    }
+
+    // The origin check passes, so the request reaches validation
+    await request(app).post('/api/v1/coupons/feedback/batch').set('Origin', origin).send({ feedback: [] }).expect(400);
+  });
+
+  it('should let extension pages call the public API with the default CORS settings', async () => {
+    const app = createApp({ readinessDb: db, config: { ...config, cors: { extensionOrigins: [], adminOrigins: [] } } });
+    const origin = 'chrome-extension://abcdefghijklmnop';
+
+    const response = await request(app)
+      .options('/api/v1/coupons/lookup')
+      .set('Origin', origin)
+      .set('Access-Control-Request-Method', 'POST')
+      .expect(204);
+
+    expect(response.headers['access-control-allow-origin']).toBe(origin);
+    await request(app)
+      .options('/api/v1/admin/coupons/import')
+      .set('Origin', origin)
+      .set('Access-Control-Request-Method', 'POST')
+      .expect(403);
+  });
+
+  it('should answer unknown routes with a 404 carrying the request ID', async () => {
+    const app = createApp({ readinessDb: db, config });
+
+    const response = await request(app).get('/nowhere').set('X-Request-Id', 'req-123').expect(404);
+
+    expect(response.body).toMatchObject({ success: false, requestId: 'req-123' });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for Health Controller
+ * Tests the liveness and readiness endpoints with a mocked health service
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import type { ReadinessReport } from '../../services/health.service.js';
+import type { Database } from '../../lib/db.js';
+
+jest.unstable_mockModule('../../services/health.service.js', () => ({
+  checkReadiness: jest.fn(),
+}));
+
+const { createHealthRoutes } = await import('../../routes/health.routes.js');
+const { checkReadiness } = await import('../../services/health.service.js');
+
+const mockCheckReadiness = checkReadiness as jest.MockedFunction<typeof checkReadiness>;
+
+const db = {} as Database;
+const app = express();
+app.use(createHealthRoutes(db));
+
+const readyReport: ReadinessReport = {
+  status: 'ready',
+  version: '1.0.0',
+  checks: {
+    database: { status: 'up', latencyMs: 2 },
+    migrations: { status: 'up-to-date', applied: 12, pending: [], failed: [] },
+  },
+};
+
+describe('Health Controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should answer liveness probes without checking dependencies', async () => {
+    for (const path of ['/health', '/health/live']) {
+      const response = await request(app).get(path).expect(200);
+      expect(response.body).toEqual({ status: 'ok' });
+    }
+
+    expect(mockCheckReadiness).not.toHaveBeenCalled();
+  });
+
+  it('should return 200 with the readiness report when ready', async () => {
+    mockCheckReadiness.mockResolvedValue(readyReport);
+
+    const response = await request(app).get('/health/ready').expect(200);
+
+    expect(response.body).toEqual(readyReport);
+    expect(mockCheckReadiness).toHaveBeenCalledWith(db);
+  });
+
+  it('should return 503 with the failing checks when not ready', async () => {
+    const report: ReadinessReport = {
+      ...readyReport,
+      status: 'not-ready',
+      checks: {
+        ...readyReport.checks,
+        database: { status: 'down', latencyMs: 2000, error: 'Database check timed out after 2000ms' },
+      },
+    };
+    mockCheckReadiness.mockResolvedValue(report);
+
+    const response = await request(app).get('/health/ready').expect(503);
+
+    expect(response.body).toEqual(report);
+  });
+});
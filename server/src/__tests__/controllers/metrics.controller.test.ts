@@ -0,0 +1,56 @@
+/**
+ * Unit tests for Metrics Controller
+ * Tests the /metrics endpoint, its optional token, and the request metrics it reports
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createMetricsRoutes } from '../../routes/metrics.routes.js';
+import { requestLogger } from '../../middleware/request.middleware.js';
+import { errorHandler } from '../../middleware/error.middleware.js';
+import { resetMetrics } from '../../lib/metrics.js';
+
+const app = express();
+app.use(requestLogger);
+app.use(createMetricsRoutes(undefined));
+app.get('/coupons/:id', (_req, res) => {
+  res.json({ success: true });
+});
+app.use(errorHandler);
+
+describe('Metrics Controller', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('should serve metrics in the Prometheus text format', async () => {
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toContain('# TYPE http_requests_total counter');
+  });
+
+  it('should count requests and latency by route pattern and status', async () => {
+    await request(app).get('/coupons/abc').expect(200);
+    await request(app).get('/coupons/def').expect(200);
+    await request(app).get('/nowhere/123').expect(404);
+
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.text).toContain('http_requests_total{method="GET",route="/coupons/:id",status="200"} 2');
+    expect(response.text).toContain('http_requests_total{method="GET",route="unmatched",status="404"} 1');
+    expect(response.text).toContain('http_request_duration_seconds_count{method="GET",route="/coupons/:id"} 2');
+    expect(response.text).not.toContain('/nowhere');
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    const protectedApp = express();
+    protectedApp.use(createMetricsRoutes('secret-token'));
+    protectedApp.use(errorHandler);
+
+    await request(protectedApp).get('/metrics').expect(401);
+    await request(protectedApp).get('/metrics').set('Authorization', 'Bearer wrong').expect(401);
+    await request(protectedApp).get('/metrics').set('Authorization', 'Bearer secret-token').expect(200);
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * Integration tests for Admin API endpoints
+ * Tests the full request/response cycle for retailer management
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import { createApiKey } from '../../services/apiKey.service.js';
+import { db } from '../../lib/db.js';
+import { config } from '../../lib/config.js';
+
+// Same app the server runs
+const app = createApp({ readinessDb: db, config });
+
+describe('Admin API Integration Tests', () => {
+  const testDomains = ['admintest.com', 'admintest-renamed.com', 'admincoupons.com'];
+  const testApiKeyIds: string[] = [];
+  let adminKey: string;
+  let clientKey: string;
+
+  /**
+   * Send a request authenticated with the admin API key
+   */
+  function adminRequest(method: 'get' | 'post' | 'patch' | 'delete', url: string): request.Test {
+    return request(app)[method](url).set('X-API-Key', adminKey);
+  }
+
+  beforeAll(async () => {
+    const admin = await createApiKey({ label: 'Admin integration test', role: 'admin' });
+    const client = await createApiKey({ label: 'Client integration test', role: 'client' });
+    adminKey = admin.key;
+    clientKey = client.key;
+    testApiKeyIds.push(admin.apiKey.id, client.apiKey.id);
+  });
+
+  afterAll(async () => {
+    await db.apiKey.deleteMany({
+      where: {
+        id: {
+          in: testApiKeyIds,
+        },
+      },
+    });
+    // Clean up ONLY test data
+    await db.retailer.deleteMany({
+      where: {
+        domain: {
+          in: testDomains,
+        },
+      },
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should return 401 without an API key', async () => {
+      const response = await request(app).get('/api/v1/admin/retailers').expect(401);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toContain('API key required');
+    });
+
+    it('should return 401 for an unknown API key', async () => {
+      await request(app).get('/api/v1/admin/retailers').set('X-API-Key', 'oc_not-a-real-key').expect(401);
+    });
+
+    it('should return 403 for a key without the admin role', async () => {
+      const response = await request(app).get('/api/v1/admin/retailers').set('X-API-Key', clientKey).expect(403);
+
+      expect(response.body.error).toContain('not allowed');
+    });
+
+    it('should accept the key as a Bearer token', async () => {
+      await request(app).get('/api/v1/admin/retailers').set('Authorization', `Bearer ${adminKey}`).expect(200);
+    });
+  });
+
+  describe('Retailer management', () => {
+    let retailerId: string;
+
+    it('should create a retailer and normalize its domain', async () => {
+      const response = await adminRequest('post', '/api/v1/admin/retailers')
+        .send({
+          domain: 'WWW.AdminTest.com',
+          name: 'Admin Test Store',
+          selectorConfig: { input: '#promo', submit: '#apply' },
+        })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        domain: 'admintest.com',
+        name: 'Admin Test Store',
+        isActive: true,
+        selectorConfig: { input: '#promo', submit: '#apply' },
+      });
+
+      retailerId = response.body.data.id;
+    });
+
+    it('should return 409 when the domain already exists', async () => {
+      const response = await adminRequest('post', '/api/v1/admin/retailers')
+        .send({ domain: 'admintest.com', name: 'Duplicate' })
+        .expect(409);
+
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Retailer already exists for domain: admintest.com',
+      });
+    });
+
+    it('should return 400 for an invalid payload', async () => {
+      const response = await adminRequest('post', '/api/v1/admin/retailers')
+        .send({ domain: 'not a domain', name: '' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid request body');
+    });
+
+    it('should list and search retailers with pagination', async () => {
+      const response = await adminRequest('get', '/api/v1/admin/retailers')
+        .query({ search: 'admintest', pageSize: 5 })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.pagination).toEqual({ page: 1, pageSize: 5, total: 1, totalPages: 1 });
+    });
+
+    it('should update selectorConfig, isActive and logoUrl', async () => {
+      const response = await adminRequest('patch', `/api/v1/admin/retailers/${retailerId}`)
+        .send({
+          domain: 'admintest-renamed.com',
+          isActive: false,
+          logoUrl: 'https://example.com/logo.png',
+          selectorConfig: null,
+        })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        domain: 'admintest-renamed.com',
+        isActive: false,
+        logoUrl: 'https://example.com/logo.png',
+        selectorConfig: null,
+      });
+    });
+
+    it('should return 400 for an empty update', async () => {
+      await adminRequest('patch', `/api/v1/admin/retailers/${retailerId}`).send({}).expect(400);
+    });
+
+    it('should add, list and remove domain aliases', async () => {
+      const created = await adminRequest('post', `/api/v1/admin/retailers/${retailerId}/domains`)
+        .send({ domain: 'WWW.AdminTest.co.uk', region: 'gb' })
+        .expect(201);
+
+      expect(created.body.data).toMatchObject({ domain: 'admintest.co.uk', region: 'GB', retailerId });
+
+      const list = await adminRequest('get', `/api/v1/admin/retailers/${retailerId}/domains`).expect(200);
+      expect(list.body.data.map((alias: { domain: string }) => alias.domain)).toEqual(['admintest.co.uk']);
+
+      await adminRequest('post', `/api/v1/admin/retailers/${retailerId}/domains`)
+        .send({ domain: 'admintest.co.uk' })
+        .expect(409);
+
+      await adminRequest('delete', `/api/v1/admin/retailers/${retailerId}/domains/${created.body.data.id}`).expect(204);
+      await adminRequest('delete', `/api/v1/admin/retailers/${retailerId}/domains/${created.body.data.id}`).expect(404);
+    });
+
+    it("should return 409 when the alias is a retailer's primary domain", async () => {
+      await adminRequest('post', `/api/v1/admin/retailers/${retailerId}/domains`)
+        .send({ domain: 'admintest-renamed.com' })
+        .expect(409);
+    });
+
+    it('should delete the retailer', async () => {
+      await adminRequest('delete', `/api/v1/admin/retailers/${retailerId}`).expect(204);
+
+      const retailer = await db.retailer.findUnique({ where: { id: retailerId } });
+      expect(retailer).toBeNull();
+    });
+
+    it('should return 404 when deleting a missing retailer', async () => {
+      await adminRequest('delete', `/api/v1/admin/retailers/${retailerId}`).expect(404);
+    });
+
+    it('should return 400 for a malformed retailer ID', async () => {
+      const response = await adminRequest('delete', '/api/v1/admin/retailers/not-a-uuid').expect(400);
+
+      expect(response.body.error).toContain('Invalid retailer ID');
+    });
+  });
+
+  describe('Coupon management', () => {
+    let couponId: string;
+
+    beforeAll(async () => {
+      await db.retailer.create({
+        data: { domain: 'admincoupons.com', name: 'Admin Coupons Store' },
+      });
+    });
+
+    it('should create a coupon for a retailer domain', async () => {
+      const response = await adminRequest('post', '/api/v1/admin/coupons')
+        .send({ domain: 'admincoupons.com', code: 'ADMIN20', description: '20% off' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        code: 'ADMIN20',
+        description: '20% off',
+        source: 'admin',
+        successCount: 0,
+        failureCount: 0,
+      });
+
+      couponId = response.body.data.id;
+    });
+
+    it('should return 409 for a duplicate code', async () => {
+      await adminRequest('post', '/api/v1/admin/coupons')
+        .send({ domain: 'admincoupons.com', code: 'ADMIN20', description: 'Duplicate' })
+        .expect(409);
+    });
+
+    it('should return 404 for an unknown retailer domain', async () => {
+      await adminRequest('post', '/api/v1/admin/coupons')
+        .send({ domain: 'unknown-admin.com', code: 'X', description: 'Y' })
+        .expect(404);
+    });
+
+    it('should edit a coupon', async () => {
+      const response = await adminRequest('patch', `/api/v1/admin/coupons/${couponId}`)
+        .send({ description: '25% off', expiryDate: '2030-01-01T00:00:00.000Z' })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        description: '25% off',
+        expiryDate: '2030-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should expire a coupon', async () => {
+      const response = await adminRequest('post', `/api/v1/admin/coupons/${couponId}/expire`).expect(200);
+
+      expect(new Date(response.body.data.expiryDate).getTime()).toBeLessThanOrEqual(Date.now());
+      expect(response.body.data.status).toBe('expired');
+    });
+
+    it('should import coupons from a JSON array with a per-row report', async () => {
+      const response = await adminRequest('post', '/api/v1/admin/coupons/import')
+        .send([
+          { domain: 'admincoupons.com', code: 'ADMIN20', description: 'Updated by import' },
+          { domain: 'admincoupons.com', code: 'IMPORT10', description: '10% off', source: 'scraper-v1' },
+          { domain: 'unknown-admin.com', code: 'NOPE', description: 'Unknown retailer' },
+        ])
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        created: 1,
+        updated: 1,
+        rejected: 1,
+      });
+      expect(response.body.results.map((result: { status: string }) => result.status)).toEqual([
+        'updated',
+        'created',
+        'rejected',
+      ]);
+    });
+
+    it('should import coupons from CSV', async () => {
+      const response = await adminRequest('post', '/api/v1/admin/coupons/import')
+        .set('Content-Type', 'text/csv')
+        .send('domain,code,description,expiryDate\nadmincoupons.com,CSV15,"15% off, today only",2030-06-01\n')
+        .expect(200);
+
+      expect(response.body).toMatchObject({ created: 1, updated: 0, rejected: 0 });
+      expect(response.body.results[0]).toMatchObject({ row: 1, code: 'CSV15', status: 'created' });
+    });
+
+    it('should return 400 when the import body is not an array', async () => {
+      await adminRequest('post', '/api/v1/admin/coupons/import').send({ code: 'X' }).expect(400);
+    });
+
+    it('should delete a coupon', async () => {
+      await adminRequest('delete', `/api/v1/admin/coupons/${couponId}`).expect(204);
+      await adminRequest('delete', `/api/v1/admin/coupons/${couponId}`).expect(404);
+    });
+  });
+
+  describe('Submission moderation', () => {
+    let approveId: string;
+    let rejectId: string;
+
+    beforeAll(async () => {
+      const retailer = await db.retailer.findUniqueOrThrow({ where: { domain: 'admincoupons.com' } });
+      const [toApprove, toReject] = await Promise.all(
+        ['COMMUNITY1', 'COMMUNITY2'].map((code) =>
+          db.coupon.create({
+            data: {
+              code,
+              description: 'Community submission',
+              source: 'user-submission',
+              status: 'pending-review',
+              retailerId: retailer.id,
+            },
+          }),
+        ),
+      );
+      approveId = toApprove!.id;
+      rejectId = toReject!.id;
+    });
+
+    it('should list pending submissions with their retailer', async () => {
+      const response = await adminRequest('get', '/api/v1/admin/coupons/pending?pageSize=100').expect(200);
+
+      const ids = response.body.data.map((coupon: { id: string }) => coupon.id);
+      expect(ids).toEqual(expect.arrayContaining([approveId, rejectId]));
+      expect(response.body.data[0].retailer).toHaveProperty('domain');
+      expect(response.body.pagination).toMatchObject({ page: 1, pageSize: 100 });
+    });
+
+    it('should approve a submission', async () => {
+      const response = await adminRequest('post', `/api/v1/admin/coupons/${approveId}/approve`).expect(200);
+
+      expect(response.body.data.status).toBe('active');
+    });
+
+    it('should reject a submission', async () => {
+      const response = await adminRequest('post', `/api/v1/admin/coupons/${rejectId}/reject`).expect(200);
+
+      expect(response.body.data.status).toBe('disabled');
+    });
+
+    it('should return 409 when the coupon is no longer pending', async () => {
+      await adminRequest('post', `/api/v1/admin/coupons/${approveId}/reject`).expect(409);
+    });
+
+    it('should return 403 for a key without the admin role', async () => {
+      await request(app).post(`/api/v1/admin/coupons/${approveId}/approve`).set('X-API-Key', clientKey).expect(403);
+    });
+  });
+
+  describe('Feedback moderation', () => {
+    let couponId: string;
+    let applyId: string;
+    let dismissId: string;
+
+    beforeAll(async () => {
+      const retailer = await db.retailer.findUniqueOrThrow({ where: { domain: 'admincoupons.com' } });
+      const coupon = await db.coupon.create({
+        data: { code: 'FLAGGED1', description: 'Coupon with flagged feedback', retailerId: retailer.id },
+      });
+      couponId = coupon.id;
+
+      const [toApply, toDismiss] = await Promise.all(
+        [0, 1].map(() =>
+          db.feedbackReview.create({
+            data: {
+              reason: 'failure-burst',
+              feedbackEvent: { create: { success: false, outcome: 'flagged', weight: 0.5, couponId } },
+            },
+          }),
+        ),
+      );
+      applyId = toApply!.id;
+      dismissId = toDismiss!.id;
+    });
+
+    it('should list pending reviews with their vote and coupon', async () => {
+      const response = await adminRequest('get', '/api/v1/admin/feedback/reviews?pageSize=100').expect(200);
+
+      const ids = response.body.data.map((review: { id: string }) => review.id);
+      expect(ids).toEqual(expect.arrayContaining([applyId, dismissId]));
+      expect(response.body.data[0].feedbackEvent.coupon.retailer).toHaveProperty('domain');
+      expect(response.body.pagination).toMatchObject({ page: 1, pageSize: 100 });
+    });
+
+    it('should count an applied vote in the coupon counters', async () => {
+      const response = await adminRequest('post', `/api/v1/admin/feedback/reviews/${applyId}/apply`).expect(200);
+
+      expect(response.body.data.status).toBe('applied');
+      expect(response.body.data.feedbackEvent.outcome).toBe('applied');
+      const coupon = await db.coupon.findUniqueOrThrow({ where: { id: couponId } });
+      expect(coupon).toMatchObject({ failureCount: 1, weightedFailure: 0.5 });
+    });
+
+    it('should dismiss a vote without counting it', async () => {
+      const response = await adminRequest('post', `/api/v1/admin/feedback/reviews/${dismissId}/dismiss`).expect(200);
+
+      expect(response.body.data.status).toBe('dismissed');
+      expect(response.body.data.feedbackEvent.outcome).toBe('flagged');
+      const coupon = await db.coupon.findUniqueOrThrow({ where: { id: couponId } });
+      expect(coupon.failureCount).toBe(1);
+    });
+
+    it('should return 409 when the review was already resolved', async () => {
+      await adminRequest('post', `/api/v1/admin/feedback/reviews/${applyId}/apply`).expect(409);
+    });
+
+    it('should return 403 for a key without the admin role', async () => {
+      await request(app).get('/api/v1/admin/feedback/reviews').set('X-API-Key', clientKey).expect(403);
+    });
+  });
+});
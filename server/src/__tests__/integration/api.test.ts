@@ -5,27 +5,12 @@
 
 import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import request from 'supertest';
-import express from 'express';
-import couponRoutes from '../../routes/coupon.routes.js';
-import { errorHandler, notFoundHandler } from '../../middleware/error.middleware.js';
+import { createApp } from '../../app.js';
 import { db } from '../../lib/db.js';
+import { config, loadConfig } from '../../lib/config.js';
 
-// Create test app
-const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-// Health check
-app.get('/health', (req, res) => {
-  res.status(200).json({ status: 'ok' });
-});
-
-// API routes
-app.use('/api/v1', couponRoutes);
-
-// Error handlers
-app.use(notFoundHandler);
-app.use(errorHandler);
+// Same app the server runs
+const app = createApp({ readinessDb: db, config });
 
 describe('API Integration Tests', () => {
   // Store test data IDs for cleanup
@@ -51,6 +36,8 @@ describe('API Integration Tests', () => {
               description: '20% off',
               successCount: 100,
               failureCount: 5,
+              weightedSuccess: 100,
+              weightedFailure: 5,
               source: 'admin',
               lastSuccessAt: new Date('2024-12-15'),
               lastTestedAt: new Date('2024-12-16'),
@@ -60,6 +47,8 @@ describe('API Integration Tests', () => {
               description: 'Free shipping',
               successCount: 50,
               failureCount: 2,
+              weightedSuccess: 50,
+              weightedFailure: 2,
               source: 'user-submission',
               lastSuccessAt: new Date('2024-12-14'),
               lastTestedAt: new Date('2024-12-16'),
@@ -69,15 +58,46 @@ describe('API Integration Tests', () => {
               description: '$10 off',
               successCount: 25,
               failureCount: 10,
+              weightedSuccess: 25,
+              weightedFailure: 10,
               source: 'scraper-v1',
               lastTestedAt: new Date('2024-12-10'),
             },
+            {
+              code: 'EXPIRED5',
+              description: '$5 off (expired)',
+              successCount: 300,
+              failureCount: 1,
+              weightedSuccess: 300,
+              weightedFailure: 1,
+              source: 'admin',
+              expiryDate: new Date('2024-01-01'),
+            },
+            {
+              code: 'DISABLED',
+              description: 'Soft-disabled by an admin',
+              successCount: 10,
+              failureCount: 0,
+              weightedSuccess: 10,
+              weightedFailure: 0,
+              source: 'admin',
+              status: 'disabled',
+            },
           ],
         },
       },
     });
     testRetailerIds.push(testStore.id);
 
+    // Regional storefront alias for the test store
+    await db.retailerDomain.create({
+      data: {
+        domain: 'teststore.co.uk',
+        region: 'GB',
+        retailerId: testStore.id,
+      },
+    });
+
     // Create inactive retailer
     const inactiveStore = await db.retailer.create({
       data: {
@@ -91,6 +111,8 @@ describe('API Integration Tests', () => {
               description: 'Should not be returned',
               successCount: 0,
               failureCount: 0,
+              weightedSuccess: 0,
+              weightedFailure: 0,
               source: 'admin',
             },
           ],
@@ -122,6 +144,17 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('GET /health/ready', () => {
+    it('should report the migrated test database as ready', async () => {
+      const response = await request(app).get('/health/ready');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('ready');
+      expect(response.body.checks.database.status).toBe('up');
+      expect(response.body.checks.migrations).toMatchObject({ status: 'up-to-date', pending: [], failed: [] });
+    });
+  });
+
   describe('GET /api/v1/coupons', () => {
     it('should return coupons for a valid domain', async () => {
       const response = await request(app).get('/api/v1/coupons?domain=teststore.com');
@@ -131,9 +164,24 @@ describe('API Integration Tests', () => {
       expect(Array.isArray(response.body.data)).toBe(true);
       expect(response.body.data).toHaveLength(3);
 
-      // Verify coupons are ordered by successCount DESC
-      expect(response.body.data[0].successCount).toBeGreaterThanOrEqual(response.body.data[1].successCount);
-      expect(response.body.data[1].successCount).toBeGreaterThanOrEqual(response.body.data[2].successCount);
+      // Verify coupons are ordered by confidence score DESC
+      expect(response.body.data[0].score).toBeGreaterThanOrEqual(response.body.data[1].score);
+      expect(response.body.data[1].score).toBeGreaterThanOrEqual(response.body.data[2].score);
+    });
+
+    it('should order coupons by success count when requested', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com&sort=success-count');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((c: { code: string }) => c.code)).toEqual(['TEST20', 'FREESHIP', 'SAVE10']);
+    });
+
+    it('should return 400 for an unknown sort order', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com&sort=random');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('sort');
+      expect(response.body.success).toBe(false);
     });
 
     it('should return coupons with correct structure', async () => {
@@ -154,6 +202,46 @@ describe('API Integration Tests', () => {
       expect(coupon).toHaveProperty('createdAt');
       expect(coupon).toHaveProperty('updatedAt');
       expect(coupon).toHaveProperty('retailerId');
+      expect(coupon).toHaveProperty('status', 'active');
+      expect(coupon).toHaveProperty('score');
+    });
+
+    it('should return the retailer with its selector config', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com');
+
+      expect(response.body.retailer).toEqual({
+        id: expect.any(String),
+        domain: 'teststore.com',
+        name: 'Test Store',
+        logoUrl: 'https://example.com/logo.png',
+        homeUrl: 'https://teststore.com',
+        selectorConfig: { input: '#promo', submit: '#apply' },
+      });
+    });
+
+    it('should exclude expired and disabled coupons by default', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com');
+
+      const codes = response.body.data.map((c: { code: string }) => c.code);
+      expect(codes).not.toContain('EXPIRED5');
+      expect(codes).not.toContain('DISABLED');
+    });
+
+    it('should include expired coupons when includeExpired=true', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com&includeExpired=true');
+
+      expect(response.status).toBe(200);
+      const codes = response.body.data.map((c: { code: string }) => c.code);
+      expect(codes).toHaveLength(4);
+      expect(codes).toContain('EXPIRED5');
+      expect(codes).not.toContain('DISABLED');
+    });
+
+    it('should return 400 for an invalid includeExpired value', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com&includeExpired=yes');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('includeExpired');
     });
 
     it('should handle www prefix in domain', async () => {
@@ -170,6 +258,23 @@ describe('API Integration Tests', () => {
       expect(response.body.data).toHaveLength(3);
     });
 
+    it('should match subdomains to the registrable domain', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=https://m.teststore.com/cart');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(3);
+    });
+
+    it('should match domain aliases and their subdomains', async () => {
+      const alias = await request(app).get('/api/v1/coupons?domain=teststore.co.uk');
+      const aliasSubdomain = await request(app).get('/api/v1/coupons?domain=shop.teststore.co.uk');
+
+      expect(alias.status).toBe(200);
+      expect(alias.body.data).toHaveLength(3);
+      expect(aliasSubdomain.status).toBe(200);
+      expect(aliasSubdomain.body.data).toHaveLength(3);
+    });
+
     it('should return 404 for non-existent retailer', async () => {
       const response = await request(app).get('/api/v1/coupons?domain=nonexistent.com');
 
@@ -233,6 +338,275 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('GET /api/v1/coupons caching', () => {
+    it('should send a strong ETag and Cache-Control header', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toMatch(/^"[A-Za-z0-9_-]+"$/);
+      expect(response.headers['cache-control']).toBe('public, max-age=60, must-revalidate');
+    });
+
+    it('should return 304 when If-None-Match matches', async () => {
+      const first = await request(app).get('/api/v1/coupons?domain=teststore.com');
+
+      const response = await request(app)
+        .get('/api/v1/coupons?domain=teststore.com')
+        .set('If-None-Match', first.headers.etag!);
+
+      expect(response.status).toBe(304);
+      expect(response.text).toBeFalsy();
+      expect(response.headers.etag).toBe(first.headers.etag);
+    });
+
+    it('should return 200 with a new ETag for a different coupon set', async () => {
+      const first = await request(app).get('/api/v1/coupons?domain=teststore.com');
+
+      const response = await request(app)
+        .get('/api/v1/coupons?domain=teststore.com&includeExpired=true')
+        .set('If-None-Match', first.headers.etag!);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).not.toBe(first.headers.etag);
+    });
+
+    it('should not send Cache-Control on error responses', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=nonexistent.com');
+
+      expect(response.status).toBe(404);
+      expect(response.headers['cache-control']).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/v1/coupons/lookup', () => {
+    it('should report coupon counts and list hashes for several domains', async () => {
+      const response = await request(app)
+        .post('/api/v1/coupons/lookup')
+        .send({ domains: ['https://www.teststore.com/cart', 'teststore.co.uk', 'inactive.com', 'nonexistent.com'] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([
+        { domain: 'teststore.com', found: true, couponCount: 3, hash: expect.any(String) },
+        { domain: 'teststore.co.uk', found: true, couponCount: 3, hash: response.body.data[0].hash },
+        { domain: 'inactive.com', found: false, couponCount: 0, hash: null },
+        { domain: 'nonexistent.com', found: false, couponCount: 0, hash: null },
+      ]);
+    });
+
+    it('should return the ETag of the coupon list as the hash', async () => {
+      const list = await request(app).get('/api/v1/coupons?domain=teststore.com');
+      const response = await request(app)
+        .post('/api/v1/coupons/lookup')
+        .send({ domains: ['teststore.com'] });
+
+      expect(list.headers.etag).toBe(`"${response.body.data[0].hash}"`);
+    });
+
+    it('should return 400 for an empty or oversized domain list', async () => {
+      const tooMany = Array.from({ length: 51 }, (_, index) => `store${index}.com`);
+
+      expect((await request(app).post('/api/v1/coupons/lookup').send({ domains: [] })).status).toBe(400);
+      expect((await request(app).post('/api/v1/coupons/lookup').send({ domains: tooMany })).status).toBe(400);
+      expect((await request(app).post('/api/v1/coupons/lookup').send({})).status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/coupons', () => {
+    it('should create a pending submission', async () => {
+      const response = await request(app).post('/api/v1/coupons').send({
+        domain: 'https://www.teststore.com/checkout',
+        code: 'COMMUNITY15',
+        description: '15% off for newsletter subscribers',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toMatchObject({ code: 'COMMUNITY15', status: 'pending-review' });
+
+      const coupon = await db.coupon.findUniqueOrThrow({ where: { id: response.body.data.id } });
+      expect(coupon.source).toBe('user-submission');
+    });
+
+    it('should not serve pending submissions', async () => {
+      const response = await request(app).get('/api/v1/coupons?domain=teststore.com');
+
+      expect(response.body.data.map((c: { code: string }) => c.code)).not.toContain('COMMUNITY15');
+    });
+
+    it('should return 409 for a code the retailer already has, ignoring case', async () => {
+      const response = await request(app)
+        .post('/api/v1/coupons')
+        .send({ domain: 'teststore.com', code: 'test20', description: 'Duplicate' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should return 404 for an unknown retailer', async () => {
+      const response = await request(app)
+        .post('/api/v1/coupons')
+        .send({ domain: 'nonexistent.com', code: 'NEW10', description: '10% off' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 for an expiry date in the past', async () => {
+      const response = await request(app)
+        .post('/api/v1/coupons')
+        .send({ domain: 'teststore.com', code: 'OLD10', description: '10% off', expiryDate: '2020-01-01' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Expiry date must be in the future');
+    });
+
+    it('should return 400 for unknown fields', async () => {
+      const response = await request(app)
+        .post('/api/v1/coupons')
+        .send({ domain: 'teststore.com', code: 'NEW10', description: '10% off', status: 'active' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Statistics', () => {
+    let couponId: string;
+
+    beforeAll(async () => {
+      const coupon = await db.coupon.findFirstOrThrow({
+        where: { code: 'TEST20', retailer: { domain: 'teststore.com' } },
+      });
+      couponId = coupon.id;
+      const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      await db.feedbackEvent.createMany({
+        data: [
+          {
+            couponId,
+            success: true,
+            discountAmount: 10,
+            discountPercentage: 20,
+            detectionMethod: 'price-change',
+            createdAt: daysAgo(1),
+          },
+          {
+            couponId,
+            success: true,
+            discountAmount: 30,
+            discountPercentage: 20,
+            detectionMethod: 'price-change',
+            createdAt: daysAgo(20),
+          },
+          { couponId, success: false, failureReason: 'expired', detectionMethod: 'timeout', createdAt: daysAgo(2) },
+          { couponId, success: false, failureReason: 'expired', createdAt: daysAgo(60) },
+          // Over the daily cap: stored but not counted
+          { couponId, success: false, failureReason: 'invalid', outcome: 'capped', createdAt: daysAgo(1) },
+          // Outside every window
+          { couponId, success: false, failureReason: 'invalid', createdAt: daysAgo(120) },
+        ],
+      });
+    });
+
+    it('should return success rates, medians and breakdowns for a coupon', async () => {
+      const response = await request(app).get(`/api/v1/coupons/${couponId}/stats`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toBe('public, max-age=300');
+      expect(response.body.data).toEqual({
+        couponId,
+        code: 'TEST20',
+        windows: [
+          { days: 7, successCount: 1, failureCount: 1, successRate: 50 },
+          { days: 30, successCount: 2, failureCount: 1, successRate: 67 },
+          { days: 90, successCount: 2, failureCount: 2, successRate: 50 },
+        ],
+        discount: { medianAmount: 20, medianPercentage: 20, sampleSize: 2 },
+        failureReasons: [{ value: 'expired', count: 2 }],
+        detectionMethods: [
+          { value: 'price-change', count: 2 },
+          { value: 'timeout', count: 1 },
+          { value: 'unspecified', count: 1 },
+        ],
+      });
+    });
+
+    it('should return 400 for a malformed coupon ID and 404 for an unknown one', async () => {
+      expect((await request(app).get('/api/v1/coupons/not-a-uuid/stats')).status).toBe(400);
+      expect((await request(app).get('/api/v1/coupons/00000000-0000-4000-8000-000000000000/stats')).status).toBe(404);
+    });
+
+    it('should return test counts and savings for a retailer, resolving aliases', async () => {
+      const response = await request(app).get('/api/v1/retailers/teststore.co.uk/stats');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        retailer: { domain: 'teststore.com', name: 'Test Store' },
+        activeCoupons: 3,
+        tests: { successCount: 485, failureCount: 18, successRate: 96 },
+        recentTests: { days: 30, successCount: 2, failureCount: 1, successRate: 67 },
+        savings: { totalAmount: 40, averageAmount: 20, averagePercentage: 20, reportCount: 2 },
+      });
+    });
+
+    it('should return 404 for unknown and inactive retailers', async () => {
+      expect((await request(app).get('/api/v1/retailers/nonexistent.com/stats')).status).toBe(404);
+      expect((await request(app).get('/api/v1/retailers/inactive.com/stats')).status).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/retailers', () => {
+    it('should find retailers by name, domain, or alias prefix', async () => {
+      for (const search of ['test s', 'teststore', 'teststore.co.']) {
+        const response = await request(app).get('/api/v1/retailers').query({ search });
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.map((retailer: { domain: string }) => retailer.domain)).toEqual(['teststore.com']);
+      }
+    });
+
+    it('should include served coupon counts and the best reported discount', async () => {
+      const response = await request(app).get('/api/v1/retailers').query({ search: 'teststore', hasCoupons: 'true' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([
+        {
+          id: expect.any(String),
+          domain: 'teststore.com',
+          name: 'Test Store',
+          logoUrl: 'https://example.com/logo.png',
+          homeUrl: 'https://teststore.com',
+          activeCouponCount: 3,
+          bestDiscount: { amount: 30, percentage: 20 },
+        },
+      ]);
+      expect(response.body.pagination).toEqual({ limit: 20, nextCursor: null });
+    });
+
+    it('should leave out inactive retailers', async () => {
+      const response = await request(app).get('/api/v1/retailers').query({ search: 'inactive' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([]);
+    });
+
+    it('should return 400 for an invalid cursor or limit', async () => {
+      expect((await request(app).get('/api/v1/retailers').query({ cursor: 'bogus' })).status).toBe(400);
+      expect((await request(app).get('/api/v1/retailers').query({ limit: '500' })).status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/openapi.json', () => {
+    it('should return the OpenAPI document for the public routes', async () => {
+      const response = await request(app).get('/api/v1/openapi.json');
+
+      expect(response.status).toBe(200);
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(response.body.paths).toHaveProperty('/api/v1/coupons');
+      expect(response.body.paths).toHaveProperty('/api/v1/coupons/{id}/feedback');
+      expect(response.body.paths).toHaveProperty('/api/v1/retailers/{domain}/stats');
+      expect(response.body.components.schemas).toHaveProperty('Coupon');
+    });
+  });
+
   describe('GET /api/v1/undefined-route', () => {
     it('should return 404 for undefined routes', async () => {
       const response = await request(app).get('/api/v1/undefined-route');
@@ -246,14 +620,18 @@ describe('API Integration Tests', () => {
 
   describe('Error handling', () => {
     it('should not expose stack trace in non-development environment', async () => {
-      const originalEnv = process.env.NODE_ENV;
-      process.env.NODE_ENV = 'production';
-
-      const response = await request(app).get('/api/v1/coupons?domain=error.com');
+      const productionApp = createApp({
+        readinessDb: db,
+        config: loadConfig({
+          ...process.env,
+          NODE_ENV: 'production',
+          FEEDBACK_HASH_SECRET: 'production-feedback-hash-secret-of-32+',
+        }),
+      });
 
-      expect(response.body.error).not.toHaveProperty('stack');
+      const response = await request(productionApp).get('/api/v1/coupons?domain=error.com');
 
-      process.env.NODE_ENV = originalEnv;
+      expect(response.body).not.toHaveProperty('stack');
     });
   });
 });
@@ -3,6 +3,7 @@
  * Tests the full request/response cycle for feedback submission
  */
 
+import { randomUUID } from 'node:crypto';
 import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import request from 'supertest';
 import express from 'express';
@@ -15,6 +16,16 @@ const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Each request comes from its own client IP unless a test sets X-Forwarded-For,
+// so the per-submitter vote caps only apply where a test exercises them
+let clientCount = 0;
+app.set('trust proxy', true);
+app.use((req, _res, next) => {
+  clientCount++;
+  req.headers['x-forwarded-for'] ??= `10.0.${Math.floor(clientCount / 256) % 256}.${clientCount % 256}`;
+  next();
+});
+
 // API routes
 app.use('/api/v1', couponRoutes);
 
@@ -182,6 +193,102 @@ describe('Feedback API Integration Tests', () => {
       expect(updatedCoupon?.lastSuccessAt).not.toEqual(initialLastSuccessAt);
       expect(updatedCoupon?.lastSuccessAt).toBeDefined();
     });
+
+    it('should persist a feedback event with its metadata', async () => {
+      const testedAt = new Date().toISOString();
+
+      await request(app)
+        .post(`/api/v1/coupons/${testCouponId2}/feedback`)
+        .send({
+          success: false,
+          metadata: {
+            failureReason: 'minimum-not-met',
+            domain: 'feedbacktest.com',
+            testDurationMs: 900,
+            detectionMethod: 'failure-message',
+            testedAt,
+          },
+        })
+        .expect(200);
+
+      const event = await db.feedbackEvent.findFirst({
+        where: { couponId: testCouponId2, failureReason: 'minimum-not-met' },
+      });
+
+      expect(event).toMatchObject({
+        success: false,
+        domain: 'feedbacktest.com',
+        testDurationMs: 900,
+        detectionMethod: 'failure-message',
+      });
+      expect(event?.testedAt?.toISOString()).toBe(testedAt);
+    });
+
+    it('should count a retried event ID only once', async () => {
+      const eventId = randomUUID();
+      const before = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId2 } });
+
+      await request(app).post(`/api/v1/coupons/${testCouponId2}/feedback`).send({ success: true, eventId }).expect(200);
+      const response = await request(app)
+        .post(`/api/v1/coupons/${testCouponId2}/feedback`)
+        .send({ success: true, eventId })
+        .expect(200);
+
+      expect(response.body.updatedCoupon.successCount).toBe(before.successCount + 1);
+      expect(await db.feedbackEvent.count({ where: { eventId } })).toBe(1);
+    });
+
+    it('should return 409 when an event ID is reused for another coupon', async () => {
+      const eventId = randomUUID();
+
+      await request(app).post(`/api/v1/coupons/${testCouponId}/feedback`).send({ success: true, eventId }).expect(200);
+      await request(app).post(`/api/v1/coupons/${testCouponId2}/feedback`).send({ success: true, eventId }).expect(409);
+    });
+  });
+
+  describe('Trust screening', () => {
+    it('should stop counting votes from one submitter after the daily cap', async () => {
+      const installId = randomUUID();
+      const before = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId } });
+
+      for (let i = 0; i < 4; i++) {
+        await request(app)
+          .post(`/api/v1/coupons/${testCouponId}/feedback`)
+          .set('X-Install-Id', installId)
+          .set('X-Forwarded-For', '192.0.2.10')
+          .send({ success: true })
+          .expect(200);
+      }
+
+      const after = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId } });
+      expect(after.successCount).toBe(before.successCount + 3);
+      // New install: each applied vote carries half weight
+      expect(after.weightedSuccess).toBeCloseTo(before.weightedSuccess + 1.5);
+
+      const outcomes = await db.feedbackEvent.groupBy({
+        by: ['outcome'],
+        where: { couponId: testCouponId, createdAt: { gte: before.updatedAt } },
+        _count: { _all: true },
+      });
+      expect(outcomes).toEqual(expect.arrayContaining([{ outcome: 'capped', _count: { _all: 1 } }]));
+    });
+
+    it('should not store the raw install ID or IP', async () => {
+      const installId = randomUUID();
+      const eventId = randomUUID();
+
+      await request(app)
+        .post(`/api/v1/coupons/${testCouponId2}/feedback`)
+        .set('X-Install-Id', installId)
+        .set('X-Forwarded-For', '192.0.2.11')
+        .send({ success: true, eventId })
+        .expect(200);
+
+      const event = await db.feedbackEvent.findUniqueOrThrow({ where: { eventId } });
+      expect(event.submitterHash).toEqual(expect.any(String));
+      expect(event.submitterHash).not.toContain(installId);
+      expect(event.sourceHash).not.toContain('192.0.2.11');
+    });
   });
 
   describe('POST /api/v1/coupons/feedback/batch', () => {
@@ -251,5 +358,45 @@ describe('Feedback API Integration Tests', () => {
       expect(response.body.results[1].success).toBe(false);
       expect(response.body.results[1].error).toContain('not found');
     });
+
+    it('should combine duplicate coupon IDs into one update', async () => {
+      const before = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId3 } });
+      const eventsBefore = await db.feedbackEvent.count({ where: { couponId: testCouponId3 } });
+
+      const response = await request(app)
+        .post('/api/v1/coupons/feedback/batch')
+        .send({
+          feedback: [
+            { couponId: testCouponId3, success: true },
+            { couponId: testCouponId3, success: false },
+            { couponId: testCouponId3, success: true },
+          ],
+        })
+        .expect(200);
+
+      expect(response.body.processed).toBe(3);
+      expect(response.body.failed).toBe(0);
+
+      const after = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId3 } });
+      expect(after.successCount).toBe(before.successCount + 2);
+      expect(after.failureCount).toBe(before.failureCount + 1);
+      expect(after.lastSuccessAt).not.toBeNull();
+
+      const eventsAfter = await db.feedbackEvent.count({ where: { couponId: testCouponId3 } });
+      expect(eventsAfter).toBe(eventsBefore + 3);
+    });
+
+    it('should skip items whose event ID was already recorded', async () => {
+      const eventId = randomUUID();
+      const batch = { feedback: [{ couponId: testCouponId3, success: false, eventId }] };
+      const before = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId3 } });
+
+      await request(app).post('/api/v1/coupons/feedback/batch').send(batch).expect(200);
+      const response = await request(app).post('/api/v1/coupons/feedback/batch').send(batch).expect(200);
+
+      expect(response.body.results).toEqual([{ couponId: testCouponId3, success: true }]);
+      const after = await db.coupon.findUniqueOrThrow({ where: { id: testCouponId3 } });
+      expect(after.failureCount).toBe(before.failureCount + 1);
+    });
   });
 });
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the Prune Stale Coupons job
+ * Uses the shared mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+// Mock the db module before importing the job
+jest.unstable_mockModule('../../lib/db.js', () => import('../__mocks__/db.js'));
+jest.unstable_mockModule('../../lib/logger.js', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+// Import after mocking
+const { pruneStaleCoupons, formatPruneSummary, startPruneSchedule } = await import('../../jobs/pruneStaleCoupons.js');
+const { db } = await import('../../lib/db.js');
+const { logger } = await import('../../lib/logger.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const now = new Date('2025-01-15T00:00:00Z');
+const windowStart = new Date('2025-01-01T00:00:00Z'); // 14 days before now
+
+function failureGroup(couponId: string, failures: number): unknown {
+  return { couponId, _count: { _all: failures } };
+}
+
+describe('pruneStaleCoupons job', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.feedbackEvent.groupBy.mockResolvedValue([] as never);
+    mockDb.coupon.updateManyAndReturn.mockResolvedValue([] as never);
+    mockDb.coupon.updateMany.mockResolvedValue({ count: 0 });
+    mockDb.coupon.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe('pruneStaleCoupons', () => {
+    it('should count recent failures from feedback events', async () => {
+      await pruneStaleCoupons({}, now);
+
+      expect(mockDb.feedbackEvent.groupBy.mock.calls[0]?.[0]).toEqual({
+        by: ['couponId'],
+        where: { success: false, outcome: 'applied', createdAt: { gte: windowStart } },
+        _count: { _all: true },
+      });
+    });
+
+    it('should skip the demotions when nothing reaches the stale threshold', async () => {
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([failureGroup('c1', 4)] as never);
+
+      const summary = await pruneStaleCoupons({}, now);
+
+      expect(mockDb.coupon.updateManyAndReturn).not.toHaveBeenCalled();
+      expect(summary.markedStale).toEqual([]);
+      expect(summary.disabled).toEqual([]);
+    });
+
+    it('should disable the worst failing coupons, then mark the rest stale', async () => {
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([
+        failureGroup('stale-1', 6),
+        failureGroup('disable-1', 25),
+        failureGroup('already-stale', 8),
+        failureGroup('healthy', 2),
+      ] as never);
+      mockDb.coupon.updateManyAndReturn
+        .mockResolvedValueOnce([{ id: 'disable-1' }] as never)
+        .mockResolvedValueOnce([{ id: 'stale-1' }] as never);
+
+      const summary = await pruneStaleCoupons({}, now);
+
+      const notRecentlySuccessful = { OR: [{ lastSuccessAt: null }, { lastSuccessAt: { lt: windowStart } }] };
+      expect(mockDb.coupon.updateManyAndReturn).toHaveBeenNthCalledWith(1, {
+        where: { id: { in: ['disable-1'] }, status: { in: ['active', 'stale'] }, ...notRecentlySuccessful },
+        data: { status: 'disabled' },
+        select: { id: true },
+      });
+      expect(mockDb.coupon.updateManyAndReturn).toHaveBeenNthCalledWith(2, {
+        where: { id: { in: ['stale-1', 'disable-1', 'already-stale'] }, status: 'active', ...notRecentlySuccessful },
+        data: { status: 'stale' },
+        select: { id: true },
+      });
+      expect(summary.disabled).toEqual(['disable-1']);
+      expect(summary.markedStale).toEqual(['stale-1']);
+    });
+
+    it('should only report coupons the updates changed', async () => {
+      // stale-1 succeeded after the failures were counted, so the update's conditions no longer match it
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([failureGroup('stale-1', 6)] as never);
+      mockDb.coupon.updateManyAndReturn.mockResolvedValue([] as never);
+
+      const summary = await pruneStaleCoupons({}, now);
+
+      expect(summary.markedStale).toEqual([]);
+    });
+
+    it('should reactivate stale coupons that succeeded within the window', async () => {
+      mockDb.coupon.updateMany.mockResolvedValue({ count: 3 });
+
+      const summary = await pruneStaleCoupons({}, now);
+
+      expect(mockDb.coupon.updateMany).toHaveBeenCalledWith({
+        where: { status: 'stale', lastSuccessAt: { gte: windowStart } },
+        data: { status: 'active' },
+      });
+      expect(summary.reactivated).toBe(3);
+    });
+
+    it('should delete coupons past their expiry date plus the grace period', async () => {
+      mockDb.coupon.deleteMany.mockResolvedValue({ count: 2 });
+
+      const summary = await pruneStaleCoupons({ expiredGraceDays: 0 }, now);
+
+      expect(mockDb.coupon.deleteMany).toHaveBeenCalledWith({
+        where: { expiryDate: { lt: now } },
+      });
+      expect(summary.purgedExpired).toBe(2);
+    });
+
+    it('should honour custom thresholds', async () => {
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([failureGroup('c1', 3)] as never);
+      mockDb.coupon.updateManyAndReturn
+        .mockResolvedValueOnce([{ id: 'c1' }] as never)
+        .mockResolvedValueOnce([] as never);
+
+      const summary = await pruneStaleCoupons({ staleFailureThreshold: 2, disableFailureThreshold: 3 }, now);
+
+      expect(mockDb.coupon.updateManyAndReturn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { in: ['c1'] } }),
+          data: { status: 'disabled' },
+        }),
+      );
+      expect(summary.disabled).toEqual(['c1']);
+      expect(summary.markedStale).toEqual([]);
+    });
+  });
+
+  describe('formatPruneSummary', () => {
+    it('should describe each change', () => {
+      const message = formatPruneSummary({
+        markedStale: ['a', 'b'],
+        disabled: ['c'],
+        reactivated: 1,
+        purgedExpired: 4,
+        startedAt: new Date(0),
+        finishedAt: new Date(25),
+      });
+
+      expect(message).toBe('Pruned coupons in 25ms: 2 marked stale, 1 disabled, 1 reactivated, 4 expired deleted');
+    });
+  });
+
+  describe('startPruneSchedule', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should run the job on every interval until stopped', async () => {
+      const stop = startPruneSchedule(1000);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledTimes(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('Pruned coupons'),
+        expect.objectContaining({ markedStale: 0, disabled: 0 }),
+      );
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledTimes(2);
+
+      stop();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should log failures and keep the schedule running', async () => {
+      mockDb.feedbackEvent.groupBy.mockRejectedValueOnce(new Error('connection lost'));
+      const stop = startPruneSchedule(1000);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(logger.error).toHaveBeenCalledWith('coupon prune job failed', { error: new Error('connection lost') });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledTimes(2);
+
+      stop();
+    });
+
+    it('should not start a run while the previous one is still in progress', async () => {
+      let finish: () => void = () => {};
+      mockDb.feedbackEvent.groupBy.mockImplementationOnce(
+        () => new Promise((resolve) => (finish = () => resolve([] as never))) as never,
+      );
+      const stop = startPruneSchedule(1000);
+
+      await jest.advanceTimersByTimeAsync(3000);
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledTimes(1);
+
+      finish();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledTimes(2);
+
+      stop();
+    });
+
+    it('should wait for a run in progress when stopped', async () => {
+      let finish: () => void = () => {};
+      mockDb.feedbackEvent.groupBy.mockImplementationOnce(
+        () => new Promise((resolve) => (finish = () => resolve([] as never))) as never,
+      );
+      const stop = startPruneSchedule(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      let stopped = false;
+      const stopping = stop().then(() => (stopped = true));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(stopped).toBe(false);
+
+      finish();
+      await stopping;
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Pruned coupons'), expect.any(Object));
+    });
+  });
+});
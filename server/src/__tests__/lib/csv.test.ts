@@ -0,0 +1,53 @@
+/**
+ * Unit tests for CSV parsing utilities
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv, parseCsvRecords } from '../../lib/csv.js';
+
+describe('CSV parsing', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('should handle quoted fields with commas, newlines and escaped quotes', () => {
+      expect(parseCsv('code,description\nSAVE20,"20% off, ""all"" items\nsitewide"')).toEqual([
+        ['code', 'description'],
+        ['SAVE20', '20% off, "all" items\nsitewide'],
+      ]);
+    });
+
+    it('should treat CRLF as a single line break and skip blank lines', () => {
+      expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c')).toEqual([['a', '', 'c']]);
+    });
+  });
+
+  describe('parseCsvRecords', () => {
+    it('should key rows by trimmed header names', () => {
+      expect(parseCsvRecords(' domain , code ,description\nnike.com, NIKE20 ,20% off\n')).toEqual([
+        { domain: 'nike.com', code: 'NIKE20', description: '20% off' },
+      ]);
+    });
+
+    it('should fill missing trailing cells with empty strings', () => {
+      expect(parseCsvRecords('domain,code,expiryDate\nnike.com,NIKE20')).toEqual([
+        { domain: 'nike.com', code: 'NIKE20', expiryDate: '' },
+      ]);
+    });
+
+    it('should return an empty array for empty input', () => {
+      expect(parseCsvRecords('')).toEqual([]);
+    });
+  });
+});
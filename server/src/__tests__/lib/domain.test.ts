@@ -0,0 +1,60 @@
+/**
+ * Unit tests for domain helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { normalizeHostname, getRegistrableDomain, getDomainCandidates } from '../../lib/domain.js';
+
+describe('Domain helpers', () => {
+  describe('normalizeHostname', () => {
+    it('should extract the hostname from URLs', () => {
+      expect(normalizeHostname('https://www.nike.com/products?id=1')).toBe('nike.com');
+      expect(normalizeHostname('http://store.nike.com:8080/cart')).toBe('store.nike.com');
+    });
+
+    it('should accept bare domains and domains with paths', () => {
+      expect(normalizeHostname('nike.com')).toBe('nike.com');
+      expect(normalizeHostname('www.nike.com/products')).toBe('nike.com');
+    });
+
+    it('should lowercase and drop a trailing dot', () => {
+      expect(normalizeHostname('https://WWW.Nike.COM./')).toBe('nike.com');
+    });
+
+    it('should only strip a leading www label', () => {
+      expect(normalizeHostname('m.www.nike.com')).toBe('m.www.nike.com');
+    });
+
+    it('should fall back to the cleaned input when the URL cannot be parsed', () => {
+      expect(normalizeHostname(' WWW.Bad Host ')).toBe('bad host');
+    });
+  });
+
+  describe('getRegistrableDomain', () => {
+    it('should drop subdomains', () => {
+      expect(getRegistrableDomain('store.nike.com')).toBe('nike.com');
+      expect(getRegistrableDomain('a.b.nike.com')).toBe('nike.com');
+    });
+
+    it('should keep two-label suffixes together', () => {
+      expect(getRegistrableDomain('m.nike.co.uk')).toBe('nike.co.uk');
+      expect(getRegistrableDomain('nike.com.au')).toBe('nike.com.au');
+    });
+
+    it('should return short hostnames and IP addresses unchanged', () => {
+      expect(getRegistrableDomain('nike.com')).toBe('nike.com');
+      expect(getRegistrableDomain('localhost')).toBe('localhost');
+      expect(getRegistrableDomain('192.168.1.10')).toBe('192.168.1.10');
+    });
+  });
+
+  describe('getDomainCandidates', () => {
+    it('should list the full hostname before the registrable domain', () => {
+      expect(getDomainCandidates('store.nike.com')).toEqual(['store.nike.com', 'nike.com']);
+    });
+
+    it('should not repeat a hostname that is already registrable', () => {
+      expect(getDomainCandidates('nike.co.uk')).toEqual(['nike.co.uk']);
+    });
+  });
+});
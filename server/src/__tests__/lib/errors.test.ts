@@ -4,7 +4,16 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
-import { AppError, NotFoundError, BadRequestError, InternalServerError } from '../../lib/errors.js';
+import {
+  AppError,
+  NotFoundError,
+  BadRequestError,
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  InternalServerError,
+  isPrismaError,
+} from '../../lib/errors.js';
 
 describe('Error Classes', () => {
   describe('AppError', () => {
@@ -87,6 +96,63 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('UnauthorizedError', () => {
+    it('should create an UnauthorizedError with default message', () => {
+      const error = new UnauthorizedError();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toBeInstanceOf(UnauthorizedError);
+      expect(error.message).toBe('Unauthorized');
+      expect(error.statusCode).toBe(401);
+      expect(error.isOperational).toBe(true);
+    });
+
+    it('should create an UnauthorizedError with custom message', () => {
+      const error = new UnauthorizedError('Invalid or revoked API key');
+
+      expect(error.message).toBe('Invalid or revoked API key');
+      expect(error.statusCode).toBe(401);
+    });
+  });
+
+  describe('ForbiddenError', () => {
+    it('should create a ForbiddenError with default message', () => {
+      const error = new ForbiddenError();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect(error.message).toBe('Forbidden');
+      expect(error.statusCode).toBe(403);
+      expect(error.isOperational).toBe(true);
+    });
+
+    it('should not be confused with UnauthorizedError', () => {
+      const error = new ForbiddenError();
+
+      expect(error instanceof UnauthorizedError).toBe(false);
+      expect(error instanceof AppError).toBe(true);
+    });
+  });
+
+  describe('ConflictError', () => {
+    it('should create a ConflictError with default message', () => {
+      const error = new ConflictError();
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toBe('Resource already exists');
+      expect(error.statusCode).toBe(409);
+      expect(error.isOperational).toBe(true);
+    });
+
+    it('should create a ConflictError with custom message', () => {
+      const error = new ConflictError('Retailer already exists');
+
+      expect(error.message).toBe('Retailer already exists');
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
   describe('InternalServerError', () => {
     it('should create an InternalServerError with default message', () => {
       const error = new InternalServerError();
@@ -145,4 +211,19 @@ describe('Error Classes', () => {
       expect(serverError instanceof NotFoundError).toBe(false);
     });
   });
+
+  describe('isPrismaError', () => {
+    it('should match errors carrying the given Prisma code', () => {
+      const error = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+
+      expect(isPrismaError(error, 'P2002')).toBe(true);
+      expect(isPrismaError(error, 'P2025')).toBe(false);
+    });
+
+    it('should not match values without a code', () => {
+      expect(isPrismaError(new Error('Plain error'), 'P2002')).toBe(false);
+      expect(isPrismaError(null, 'P2002')).toBe(false);
+      expect(isPrismaError('P2002', 'P2002')).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for Logger
+ * Tests JSON formatting and level filtering
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { formatLogEntry, createLogger } from '../../lib/logger.js';
+
+describe('Logger', () => {
+  describe('formatLogEntry', () => {
+    const now = new Date('2025-01-15T12:00:00Z');
+
+    it('should write level, time, message, and fields as one JSON line', () => {
+      const line = formatLogEntry('info', 'request completed', { requestId: 'abc', status: 200 }, now);
+
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toEqual({
+        level: 'info',
+        time: '2025-01-15T12:00:00.000Z',
+        msg: 'request completed',
+        requestId: 'abc',
+        status: 200,
+      });
+    });
+
+    it('should write errors with their name, message, and stack', () => {
+      const error = new Error('connection lost');
+
+      const entry = JSON.parse(formatLogEntry('error', 'request failed', { error }, now));
+
+      expect(entry.error).toEqual({ name: 'Error', message: 'connection lost', stack: error.stack });
+    });
+
+    it('should not let fields override the level, time, or message', () => {
+      const entry = JSON.parse(formatLogEntry('warn', 'real message', { level: 'debug', msg: 'spoofed' }, now));
+
+      expect(entry).toMatchObject({ level: 'warn', msg: 'real message' });
+    });
+  });
+
+  describe('createLogger', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should write info to stdout and errors to stderr', () => {
+      const logger = createLogger('info');
+
+      logger.info('started');
+      logger.error('failed');
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('"msg":"started"'));
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"msg":"failed"'));
+    });
+
+    it('should drop entries below LOG_LEVEL', () => {
+      const logger = createLogger('warn');
+
+      logger.debug('noise');
+      logger.info('noise');
+      logger.warn('kept');
+
+      expect(console.log).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write nothing when LOG_LEVEL is silent', () => {
+      const logger = createLogger('silent');
+
+      logger.error('failed');
+
+      expect(console.error).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for Metrics
+ * Tests counters, histograms, and the Prometheus text format
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { Counter, Histogram, metrics, renderMetrics, resetMetrics } from '../../lib/metrics.js';
+
+describe('Metrics', () => {
+  describe('Counter', () => {
+    it('should count per label set and render one sample per series', () => {
+      const counter = new Counter('jobs_total', 'Jobs run', ['job', 'result']);
+
+      counter.inc({ job: 'prune', result: 'ok' });
+      counter.inc({ result: 'ok', job: 'prune' }, 2);
+      counter.inc({ job: 'prune', result: 'failed' });
+
+      expect(counter.get({ job: 'prune', result: 'ok' })).toBe(3);
+      expect(counter.render()).toEqual([
+        '# HELP jobs_total Jobs run',
+        '# TYPE jobs_total counter',
+        'jobs_total{job="prune",result="ok"} 3',
+        'jobs_total{job="prune",result="failed"} 1',
+      ]);
+    });
+
+    it('should escape label values', () => {
+      const counter = new Counter('paths_total', 'Paths', ['path']);
+
+      counter.inc({ path: 'a"b\\c\nd' });
+
+      expect(counter.render()[2]).toBe('paths_total{path="a\\"b\\\\c\\nd"} 1');
+    });
+
+    it('should reject missing or unknown labels', () => {
+      const counter = new Counter('jobs_total', 'Jobs run', ['job']);
+
+      expect(() => counter.inc({})).toThrow('expects labels [job]');
+      expect(() => counter.inc({ job: 'prune', extra: 'x' })).toThrow();
+    });
+
+    it('should report 0 for a series that was never incremented', () => {
+      const counter = new Counter('jobs_total', 'Jobs run', ['job']);
+
+      expect(counter.get({ job: 'prune' })).toBe(0);
+      expect(counter.render()).toHaveLength(2);
+    });
+  });
+
+  describe('Histogram', () => {
+    it('should render cumulative buckets, sum, and count', () => {
+      const histogram = new Histogram('latency_seconds', 'Latency', ['route'], [0.1, 0.5]);
+
+      histogram.observe({ route: '/a' }, 0.05);
+      histogram.observe({ route: '/a' }, 0.3);
+      histogram.observe({ route: '/a' }, 2);
+
+      expect(histogram.render()).toEqual([
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{route="/a",le="0.1"} 1',
+        'latency_seconds_bucket{route="/a",le="0.5"} 2',
+        'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+        'latency_seconds_sum{route="/a"} 2.35',
+        'latency_seconds_count{route="/a"} 3',
+      ]);
+    });
+  });
+
+  describe('renderMetrics', () => {
+    beforeEach(() => {
+      resetMetrics();
+    });
+
+    it('should describe every API metric even before it has samples', () => {
+      const text = renderMetrics();
+
+      for (const name of [
+        'http_requests_total',
+        'http_request_duration_seconds',
+        'coupon_feedback_events_total',
+        'rate_limit_rejections_total',
+        'prisma_query_duration_seconds',
+      ]) {
+        expect(text).toContain(`# TYPE ${name} `);
+      }
+      expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('should forget collected values on reset', () => {
+      metrics.rateLimitRejections.inc({ limiter: 'read' });
+      expect(renderMetrics()).toContain('rate_limit_rejections_total{limiter="read"} 1');
+
+      resetMetrics();
+
+      expect(renderMetrics()).not.toContain('limiter="read"');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for OpenAPI document generation
+ * Tests schema conversion and that every public route is documented
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Router } from 'express';
+import { z } from 'zod';
+
+// Routes import the controllers and services, so keep the database out of it
+jest.unstable_mockModule('../../lib/db.js', () => import('../__mocks__/db.js'));
+
+const { buildOpenApiDocument, toJsonSchema } = await import('../../lib/openapi.js');
+const { default: couponRoutes } = await import('../../routes/coupon.routes.js');
+const { default: retailerRoutes } = await import('../../routes/retailer.routes.js');
+
+type Operation = {
+  parameters?: Array<{ name: string; in: string; required: boolean; schema: Record<string, unknown> }>;
+  requestBody?: unknown;
+  responses: Record<string, unknown>;
+};
+
+describe('OpenAPI', () => {
+  describe('toJsonSchema', () => {
+    it('should describe what clients send rather than the parsed output', () => {
+      const schema = z.object({
+        flag: z.enum(['true', 'false']).transform((value) => value === 'true'),
+        sort: z.enum(['a', 'b']).default('a'),
+      });
+
+      expect(toJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          flag: { type: 'string', enum: ['true', 'false'] },
+          sort: { type: 'string', enum: ['a', 'b'], default: 'a' },
+        },
+        required: ['flag'],
+      });
+    });
+
+    it('should describe dates as ISO 8601 strings', () => {
+      expect(toJsonSchema(z.coerce.date())).toEqual({ type: 'string', format: 'date-time' });
+    });
+  });
+
+  describe('buildOpenApiDocument', () => {
+    const document = buildOpenApiDocument([
+      { basePath: '/api/v1', router: couponRoutes },
+      { basePath: '/api/v1', router: retailerRoutes },
+    ]) as {
+      openapi: string;
+      paths: Record<string, Record<string, Operation>>;
+      components: { schemas: Record<string, Record<string, unknown>>; responses: Record<string, unknown> };
+    };
+
+    it('should document every public route', () => {
+      expect(document.openapi).toBe('3.1.0');
+      expect(Object.keys(document.paths).sort()).toEqual([
+        '/api/v1/coupons',
+        '/api/v1/coupons/feedback/batch',
+        '/api/v1/coupons/lookup',
+        '/api/v1/coupons/{id}/feedback',
+        '/api/v1/coupons/{id}/stats',
+        '/api/v1/retailers',
+        '/api/v1/retailers/{domain}/stats',
+      ]);
+      expect(Object.keys(document.paths['/api/v1/coupons']!).sort()).toEqual(['get', 'post']);
+    });
+
+    it('should derive query and path parameters from the validators', () => {
+      const getCoupons = document.paths['/api/v1/coupons']!.get!;
+      const feedback = document.paths['/api/v1/coupons/{id}/feedback']!.post!;
+
+      expect(getCoupons.parameters).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'domain', in: 'query', required: true }),
+          expect.objectContaining({
+            name: 'sort',
+            required: false,
+            schema: expect.objectContaining({ enum: ['score', 'success-count', 'recent', 'newest'] }),
+          }),
+          expect.objectContaining({ name: 'includeExpired', required: false }),
+          expect.objectContaining({ name: 'If-None-Match', in: 'header', required: false }),
+        ]),
+      );
+      expect(getCoupons.responses).toHaveProperty('304');
+      expect(feedback.parameters).toEqual([
+        expect.objectContaining({
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: expect.objectContaining({ format: 'uuid' }),
+        }),
+        expect.objectContaining({ name: 'X-Install-Id', in: 'header', required: false }),
+      ]);
+    });
+
+    it('should reference request schemas generated from the validators', () => {
+      const submission = document.components.schemas.SubmitCouponRequest!;
+
+      expect(submission.required).toEqual(['domain', 'code', 'description']);
+      expect(submission.additionalProperties).toBe(false);
+      expect(document.components.schemas.BatchFeedbackRequest).toMatchObject({
+        properties: { feedback: { type: 'array', maxItems: 100 } },
+      });
+    });
+
+    it('should document error and rate limit responses', () => {
+      const submit = document.paths['/api/v1/coupons']!.post!;
+
+      expect(submit.responses['409']).toEqual({ $ref: '#/components/responses/Conflict' });
+      expect(submit.responses['429']).toEqual({ $ref: '#/components/responses/RateLimited' });
+      expect(document.paths['/api/v1/coupons']!.get!.responses['429']).toEqual({
+        $ref: '#/components/responses/RateLimited',
+      });
+      expect(document.components.responses.RateLimited).toMatchObject({
+        headers: { 'Retry-After': expect.any(Object) },
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/RateLimitResponse' } } },
+      });
+      expect(document.components.schemas.ErrorResponse).toMatchObject({ required: ['success', 'error'] });
+    });
+
+    it('should document the API key and CORS rejections on every operation', () => {
+      for (const operations of Object.values(document.paths)) {
+        for (const operation of Object.values(operations)) {
+          expect(operation.responses['401']).toEqual({ $ref: '#/components/responses/Unauthorized' });
+          expect(operation.responses['403']).toEqual({ $ref: '#/components/responses/Forbidden' });
+        }
+      }
+    });
+
+    it('should describe coupon sources as nullable', () => {
+      expect(document.components.schemas.Coupon).toMatchObject({
+        properties: { source: { anyOf: [{ type: 'string' }, { type: 'null' }] } },
+      });
+    });
+
+    it('should throw for a route without a documented operation', () => {
+      const router = Router();
+      router.delete('/coupons/:id', (req, res) => {
+        res.status(204).send();
+      });
+
+      expect(() => buildOpenApiDocument([{ basePath: '/api/v1', router }])).toThrow(
+        'No OpenAPI operation documented for DELETE /api/v1/coupons/:id',
+      );
+    });
+  });
+});
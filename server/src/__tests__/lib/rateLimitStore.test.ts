@@ -0,0 +1,119 @@
+/**
+ * Unit tests for Rate Limit Stores
+ * Tests the Postgres-backed store against a mocked database
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { MemoryStore } from 'express-rate-limit';
+import type { Options } from 'express-rate-limit';
+
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    $queryRaw: jest.fn(),
+    rateLimitBucket: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const { PrismaRateLimitStore, createRateLimitStore } = await import('../../lib/rateLimitStore.js');
+const { rateLimitStorePrefixes } = await import('../../middleware/rateLimiter.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('Rate Limit Stores', () => {
+  let store: InstanceType<typeof PrismaRateLimitStore>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new PrismaRateLimitStore('feedback:');
+    store.init({ windowMs: 60 * 1000 } as Options);
+  });
+
+  afterEach(() => {
+    store.shutdown();
+  });
+
+  describe('PrismaRateLimitStore', () => {
+    it('should count a hit under the prefixed key and return the window', async () => {
+      const resetAt = new Date(Date.now() + 60 * 1000);
+      mockDb.$queryRaw.mockResolvedValue([{ hits: 3, resetAt }] as never);
+
+      const info = await store.increment('ip:203.0.113.7');
+
+      expect(info).toEqual({ totalHits: 3, resetTime: resetAt });
+      const [, key, windowEnd] = mockDb.$queryRaw.mock.calls[0] as unknown[];
+      expect(key).toBe('feedback:ip:203.0.113.7');
+      expect((windowEnd as Date).getTime()).toBeGreaterThan(Date.now() + 59 * 1000);
+    });
+
+    it('should not report a window that has ended', async () => {
+      mockDb.rateLimitBucket.findUnique.mockResolvedValue({
+        key: 'feedback:ip:203.0.113.7',
+        hits: 7,
+        resetAt: new Date(Date.now() - 1000),
+      });
+
+      expect(await store.get('ip:203.0.113.7')).toBeUndefined();
+      expect(mockDb.rateLimitBucket.findUnique).toHaveBeenCalledWith({ where: { key: 'feedback:ip:203.0.113.7' } });
+    });
+
+    it('should report hits in an open window', async () => {
+      const resetAt = new Date(Date.now() + 1000);
+      mockDb.rateLimitBucket.findUnique.mockResolvedValue({ key: 'feedback:ip:203.0.113.7', hits: 7, resetAt });
+
+      expect(await store.get('ip:203.0.113.7')).toEqual({ totalHits: 7, resetTime: resetAt });
+    });
+
+    it('should only decrement a positive counter in an open window', async () => {
+      mockDb.rateLimitBucket.updateMany.mockResolvedValue({ count: 1 });
+
+      await store.decrement('ip:203.0.113.7');
+
+      expect(mockDb.rateLimitBucket.updateMany).toHaveBeenCalledWith({
+        where: { key: 'feedback:ip:203.0.113.7', hits: { gt: 0 }, resetAt: { gt: expect.any(Date) } },
+        data: { hits: { decrement: 1 } },
+      });
+    });
+
+    it("should only delete this limiter's expired buckets", async () => {
+      const now = new Date('2025-01-15T00:00:00Z');
+      mockDb.rateLimitBucket.deleteMany.mockResolvedValue({ count: 4 });
+
+      expect(await store.deleteExpired(now)).toBe(4);
+      expect(mockDb.rateLimitBucket.deleteMany).toHaveBeenCalledWith({
+        where: { key: { startsWith: 'feedback:' }, resetAt: { lte: now } },
+      });
+    });
+  });
+
+  describe('limiter prefixes', () => {
+    it("should leave the IP-wide store's counters alone when the per-client store is reset", async () => {
+      const prefixes = rateLimitStorePrefixes('feedback');
+      let keys = [`${prefixes.ip}ip:203.0.113.7`, `${prefixes.client}install:7d444840-9dc0-41d8-b2c3-b4c7a1b1f0a5`];
+      // Apply the startsWith filter the way Postgres would
+      mockDb.rateLimitBucket.deleteMany.mockImplementation((async (args: {
+        where: { key: { startsWith: string } };
+      }) => {
+        const before = keys.length;
+        keys = keys.filter((key) => !key.startsWith(args.where.key.startsWith));
+        return { count: before - keys.length };
+      }) as never);
+
+      const clientStore = new PrismaRateLimitStore(prefixes.client);
+      await clientStore.resetAll();
+
+      expect(keys).toEqual([`${prefixes.ip}ip:203.0.113.7`]);
+    });
+  });
+
+  describe('createRateLimitStore', () => {
+    it('should create the store for the configured kind', () => {
+      expect(createRateLimitStore('memory', 'read:')).toBeInstanceOf(MemoryStore);
+      expect(createRateLimitStore('postgres', 'read:')).toBeInstanceOf(PrismaRateLimitStore);
+    });
+  });
+});
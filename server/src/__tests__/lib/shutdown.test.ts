@@ -0,0 +1,110 @@
+/**
+ * Unit tests for Graceful Shutdown
+ * Tests draining a real HTTP server and running cleanup tasks within the deadline
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { createServer, get } from 'node:http';
+import type { Server, IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+jest.unstable_mockModule('../../lib/logger.js', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const { shutdownGracefully } = await import('../../lib/shutdown.js');
+const { logger } = await import('../../lib/logger.js');
+
+describe('Graceful Shutdown', () => {
+  let server: Server;
+  let respond: (res: ServerResponse) => void;
+
+  /**
+   * Start a server whose requests are answered by `respond` and send one request to it
+   * @returns The pending response body (wrapped so awaiting the start does not wait for the response)
+   */
+  async function startRequest(): Promise<{ body: Promise<string> }> {
+    let received: () => void = () => {};
+    const requestReceived = new Promise<void>((resolve) => (received = resolve));
+
+    server = createServer((_req: IncomingMessage, res: ServerResponse) => {
+      received();
+      respond(res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    const body = new Promise<string>((resolve) => {
+      get({ host: '127.0.0.1', port, agent: false }, (response) => {
+        let text = '';
+        response.on('data', (chunk: Buffer) => (text += chunk.toString()));
+        response.on('end', () => resolve(text));
+      }).on('error', () => resolve('connection closed'));
+    });
+    await requestReceived;
+    return { body };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('should let requests in flight finish, then run cleanup tasks in order', async () => {
+    const order: string[] = [];
+    respond = (res) => setTimeout(() => (order.push('response'), res.end('done')), 50);
+    const { body } = await startRequest();
+
+    const clean = await shutdownGracefully(
+      server,
+      [
+        { name: 'jobs', run: () => order.push('jobs') },
+        { name: 'database', run: async () => order.push('database') },
+      ],
+      1000,
+    );
+
+    expect(clean).toBe(true);
+    expect(await body).toBe('done');
+    expect(order).toEqual(['response', 'jobs', 'database']);
+    expect(server.listening).toBe(false);
+  });
+
+  it('should close connections still open at the deadline and report an unclean shutdown', async () => {
+    respond = () => {}; // never answers
+    const { body } = await startRequest();
+    const cleanup = jest.fn();
+
+    const clean = await shutdownGracefully(server, [{ name: 'database', run: cleanup }], 50);
+
+    expect(clean).toBe(false);
+    expect(await body).toBe('connection closed');
+    expect(cleanup).toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('still in flight'), { timeoutMs: 50 });
+  });
+
+  it('should keep going when a cleanup task fails or hangs', async () => {
+    respond = (res) => res.end('done');
+    await startRequest();
+    const last = jest.fn();
+
+    const clean = await shutdownGracefully(
+      server,
+      [
+        { name: 'jobs', run: () => Promise.reject(new Error('boom')) },
+        { name: 'stuck', run: () => new Promise(() => {}) },
+        { name: 'database', run: last },
+      ],
+      100,
+    );
+
+    expect(clean).toBe(false);
+    expect(logger.error).toHaveBeenCalledWith('shutdown task failed', { task: 'jobs', error: new Error('boom') });
+    expect(logger.warn).toHaveBeenCalledWith('shutdown task did not finish before the deadline', { task: 'stuck' });
+    expect(last).toHaveBeenCalled();
+  });
+});
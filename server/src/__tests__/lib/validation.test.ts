@@ -0,0 +1,44 @@
+/**
+ * Unit tests for validation helpers
+ * Tests Zod parsing and error formatting
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { parseWithSchema, formatZodIssues } from '../../lib/validation.js';
+import { BadRequestError } from '../../lib/errors.js';
+
+describe('Validation helpers', () => {
+  const schema = z.object({
+    name: z.string().min(1),
+    count: z.coerce.number().int(),
+  });
+
+  describe('parseWithSchema', () => {
+    it('should return parsed data when valid', () => {
+      expect(parseWithSchema(schema, { name: 'Nike', count: '3' })).toEqual({ name: 'Nike', count: 3 });
+    });
+
+    it('should throw BadRequestError with the failing paths', () => {
+      expect(() => parseWithSchema(schema, { name: '', count: 'abc' })).toThrow(BadRequestError);
+      expect(() => parseWithSchema(schema, { name: '', count: 'abc' })).toThrow(
+        /^Invalid request body: name: .*count: /,
+      );
+    });
+
+    it('should use the provided label in the error message', () => {
+      expect(() => parseWithSchema(z.string().uuid(), 'not-a-uuid', 'retailer ID')).toThrow(/^Invalid retailer ID: /);
+    });
+  });
+
+  describe('formatZodIssues', () => {
+    it('should omit the path prefix for root-level issues', () => {
+      const result = z.string().safeParse(42);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(formatZodIssues(result.error.issues)).toBe(result.error.issues[0]?.message);
+      }
+    });
+  });
+});
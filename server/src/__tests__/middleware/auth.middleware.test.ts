@@ -0,0 +1,119 @@
+/**
+ * Unit tests for Authentication Middleware
+ * Tests API key resolution and role checks with a mocked API key service
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Request, Response, NextFunction } from 'express';
+
+// Mock the API key service before importing the middleware
+jest.unstable_mockModule('../../services/apiKey.service.js', () => ({
+  resolveApiKey: jest.fn(),
+}));
+
+// Import after mocking
+const { authenticate, requireRole } = await import('../../middleware/auth.middleware.js');
+const { resolveApiKey } = await import('../../services/apiKey.service.js');
+const { UnauthorizedError, ForbiddenError } = await import('../../lib/errors.js');
+
+const mockResolveApiKey = resolveApiKey as jest.MockedFunction<typeof resolveApiKey>;
+
+/**
+ * Build a minimal request with the given headers
+ */
+function mockRequest(headers: Record<string, string> = {}): Request {
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  return {
+    get: (name: string) => lowerCased[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+const res = {} as Response;
+
+describe('Auth Middleware', () => {
+  let next: jest.Mock<(error?: unknown) => void>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    next = jest.fn();
+  });
+
+  describe('authenticate', () => {
+    const principal = { id: 'key-1', label: 'Admin dashboard', role: 'admin' as const };
+
+    it('should continue anonymously when no key is sent', async () => {
+      const req = mockRequest();
+
+      await authenticate(req, res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(req.principal).toBeUndefined();
+      expect(mockResolveApiKey).not.toHaveBeenCalled();
+    });
+
+    it('should attach the principal for a valid X-API-Key header', async () => {
+      mockResolveApiKey.mockResolvedValue(principal);
+      const req = mockRequest({ 'X-API-Key': ' oc_valid ' });
+
+      await authenticate(req, res, next as NextFunction);
+
+      expect(mockResolveApiKey).toHaveBeenCalledWith('oc_valid');
+      expect(req.principal).toEqual(principal);
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should accept a Bearer token in the Authorization header', async () => {
+      mockResolveApiKey.mockResolvedValue(principal);
+      const req = mockRequest({ Authorization: 'Bearer oc_valid' });
+
+      await authenticate(req, res, next as NextFunction);
+
+      expect(mockResolveApiKey).toHaveBeenCalledWith('oc_valid');
+      expect(req.principal).toEqual(principal);
+    });
+
+    it('should reject an unknown or revoked key with UnauthorizedError', async () => {
+      mockResolveApiKey.mockResolvedValue(null);
+      const req = mockRequest({ 'X-API-Key': 'oc_revoked' });
+
+      await authenticate(req, res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+      expect(req.principal).toBeUndefined();
+    });
+
+    it('should pass lookup errors to the error handler', async () => {
+      mockResolveApiKey.mockRejectedValue(new Error('Database unavailable'));
+
+      await authenticate(mockRequest({ 'X-API-Key': 'oc_valid' }), res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Database unavailable' }));
+    });
+  });
+
+  describe('requireRole', () => {
+    it('should reject anonymous requests with UnauthorizedError', () => {
+      requireRole('admin')(mockRequest(), res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(expect.any(UnauthorizedError));
+    });
+
+    it('should reject principals without an allowed role with ForbiddenError', () => {
+      const req = mockRequest();
+      req.principal = { id: 'key-2', label: 'Extension', role: 'client' };
+
+      requireRole('admin', 'scraper')(req, res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith(expect.any(ForbiddenError));
+    });
+
+    it('should allow principals with an allowed role', () => {
+      const req = mockRequest();
+      req.principal = { id: 'key-3', label: 'Scraper', role: 'scraper' };
+
+      requireRole('admin', 'scraper')(req, res, next as NextFunction);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for CORS Middleware
+ * Tests allowlisted origins, preflight handling, and rejection of other browser origins
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { cors } from '../../middleware/cors.middleware.js';
+import { errorHandler } from '../../middleware/error.middleware.js';
+
+const EXTENSION_ORIGIN = 'chrome-extension://abcdefghijklmnopabcdefghijklmnop';
+
+const app = express();
+app.use(cors([EXTENSION_ORIGIN]));
+app.post('/coupons/feedback/batch', (_req, res) => {
+  res.json({ success: true });
+});
+app.use(errorHandler);
+
+describe('CORS Middleware', () => {
+  it('should pass requests without an Origin header through untouched', async () => {
+    const response = await request(app).post('/coupons/feedback/batch').expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBeUndefined();
+    expect(response.headers.vary).toBe('Origin');
+  });
+
+  it('should allow a listed origin and expose the request ID and rate limit headers', async () => {
+    const response = await request(app).post('/coupons/feedback/batch').set('Origin', EXTENSION_ORIGIN).expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBe(EXTENSION_ORIGIN);
+    expect(response.headers['access-control-expose-headers']).toContain('X-Request-Id');
+    expect(response.headers['access-control-expose-headers']).toContain('Retry-After');
+    expect(response.body).toEqual({ success: true });
+  });
+
+  it('should answer preflight requests for a listed origin without reaching the route', async () => {
+    const response = await request(app)
+      .options('/coupons/feedback/batch')
+      .set('Origin', EXTENSION_ORIGIN)
+      .set('Access-Control-Request-Method', 'POST')
+      .set('Access-Control-Request-Headers', 'content-type, x-install-id')
+      .expect(204);
+
+    expect(response.headers['access-control-allow-origin']).toBe(EXTENSION_ORIGIN);
+    expect(response.headers['access-control-allow-methods']).toContain('POST');
+    expect(response.headers['access-control-allow-headers']).toContain('Content-Type');
+    expect(response.headers['access-control-allow-headers']).toContain('X-Install-Id');
+    expect(response.headers['access-control-max-age']).toBe('600');
+  });
+
+  it('should reject other browser origins with a 403 and no CORS headers', async () => {
+    const response = await request(app)
+      .post('/coupons/feedback/batch')
+      .set('Origin', 'https://shop.example.com')
+      .expect(403);
+
+    expect(response.headers['access-control-allow-origin']).toBeUndefined();
+    expect(response.body).toMatchObject({
+      success: false,
+      error: 'Origin https://shop.example.com is not allowed to call this API',
+    });
+  });
+
+  it('should reject preflight requests from other origins', async () => {
+    await request(app)
+      .options('/coupons/feedback/batch')
+      .set('Origin', 'moz-extension://0b6e4c5a-3d2f-4f8e-9a41-7c2d5e8b1f30')
+      .set('Access-Control-Request-Method', 'POST')
+      .expect(403);
+  });
+
+  it('should allow any extension origin, but no web origin, when asked to', async () => {
+    const anyExtensionApp = express();
+    anyExtensionApp.use(cors([], { anyExtension: true }));
+    anyExtensionApp.get('/coupons', (_req, res) => {
+      res.json({ success: true });
+    });
+    anyExtensionApp.use(errorHandler);
+
+    const response = await request(anyExtensionApp).get('/coupons').set('Origin', EXTENSION_ORIGIN).expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBe(EXTENSION_ORIGIN);
+    await request(anyExtensionApp)
+      .get('/coupons')
+      .set('Origin', 'moz-extension://0b6e4c5a-3d2f-4f8e-9a41-7c2d5e8b1f30')
+      .expect(200);
+    await request(anyExtensionApp).get('/coupons').set('Origin', 'https://shop.example.com').expect(403);
+  });
+
+  it('should allow any origin on the paths opened to every origin', async () => {
+    const feedbackApp = express();
+    feedbackApp.use(cors([EXTENSION_ORIGIN], { anyOriginPaths: [/^\/coupons\/[^/]+\/feedback$/] }));
+    feedbackApp.post('/coupons/:id/feedback', (_req, res) => {
+      res.json({ success: true });
+    });
+    feedbackApp.get('/coupons', (_req, res) => {
+      res.json({ success: true });
+    });
+    feedbackApp.use(errorHandler);
+
+    const response = await request(feedbackApp)
+      .post('/coupons/123/feedback')
+      .set('Origin', 'https://www.amazon.com')
+      .expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBe('https://www.amazon.com');
+    await request(feedbackApp).get('/coupons').set('Origin', 'https://www.amazon.com').expect(403);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for Rate Limiter Middleware
+ * Tests environment settings, client keys, and 429 responses with an in-memory store
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+import type { Request } from 'express';
+import express from 'express';
+import request from 'supertest';
+import {
+  getRateLimitKey,
+  createRateLimiter,
+  createApiKeyRateLimiter,
+  IP_LIMIT_MULTIPLIER,
+} from '../../middleware/rateLimiter.js';
+import { metrics } from '../../lib/metrics.js';
+
+const installId = '7d444840-9dc0-41d8-b2c3-b4c7a1b1f0a5';
+
+/**
+ * Build a minimal request with the given IP, headers, and principal
+ */
+function mockRequest(ip: string, headers: Record<string, string> = {}, principal?: Request['principal']): Request {
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  return {
+    ip,
+    principal,
+    get: (name: string) => lowerCased[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+describe('Rate Limiter Middleware', () => {
+  describe('getRateLimitKey', () => {
+    it('should key by API key when the request is authenticated', () => {
+      const principal = { id: 'key-1', label: 'Scraper', role: 'scraper' as const };
+
+      expect(getRateLimitKey(mockRequest('203.0.113.7', { 'X-Install-Id': installId }, principal))).toBe('key:key-1');
+    });
+
+    it('should key by install ID when one is sent', () => {
+      expect(getRateLimitKey(mockRequest('203.0.113.7', { 'X-Install-Id': installId.toUpperCase() }))).toBe(
+        `install:${installId}`,
+      );
+    });
+
+    it('should fall back to the IP for a missing or malformed install ID', () => {
+      expect(getRateLimitKey(mockRequest('203.0.113.7'))).toBe('ip:203.0.113.7');
+      expect(getRateLimitKey(mockRequest('203.0.113.7', { 'X-Install-Id': 'not-a-uuid' }))).toBe('ip:203.0.113.7');
+    });
+
+    it('should group IPv6 addresses by subnet', () => {
+      expect(getRateLimitKey(mockRequest('2001:db8:85a3:1::1'))).toBe(
+        getRateLimitKey(mockRequest('2001:db8:85a3:2::1')),
+      );
+    });
+  });
+
+  describe('createRateLimiter', () => {
+    function buildApp() {
+      const app = express();
+      app.use(createRateLimiter('read', { max: 2, windowMs: 60 * 1000 }, 'memory', 'Too many requests'));
+      app.get('/', (_req, res) => {
+        res.json({ success: true });
+      });
+      return app;
+    }
+
+    it('should reject requests over the limit with Retry-After and a RATE_LIMITED body', async () => {
+      const app = buildApp();
+
+      await request(app).get('/').expect(200);
+      await request(app).get('/').expect(200);
+      const response = await request(app).get('/').expect(429);
+
+      expect(response.headers['retry-after']).toBe('60');
+      expect(response.headers['ratelimit-limit']).toBe('2');
+      expect(response.body).toEqual({ success: false, error: 'Too many requests', code: 'RATE_LIMITED' });
+      expect(metrics.rateLimitRejections.get({ limiter: 'read' })).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should count each install separately', async () => {
+      const app = buildApp();
+
+      await request(app).get('/').set('X-Install-Id', installId).expect(200);
+      await request(app).get('/').set('X-Install-Id', installId).expect(200);
+      await request(app).get('/').set('X-Install-Id', installId).expect(429);
+      await request(app).get('/').set('X-Install-Id', 'c4b3a2d1-1e2f-4a5b-8c7d-9e0f1a2b3c4d').expect(200);
+    });
+
+    it('should still limit an IP that sends a new install ID with every request', async () => {
+      const app = buildApp();
+
+      for (let sent = 0; sent < 2 * IP_LIMIT_MULTIPLIER; sent++) {
+        await request(app).get('/').set('X-Install-Id', randomUUID()).expect(200);
+      }
+      const response = await request(app).get('/').set('X-Install-Id', randomUUID()).expect(429);
+
+      expect(response.body.code).toBe('RATE_LIMITED');
+    });
+  });
+
+  describe('createApiKeyRateLimiter', () => {
+    it('should limit requests with an API key per IP before any key is looked up', async () => {
+      const lookup = jest.fn();
+      const app = express();
+      app.use(createApiKeyRateLimiter({ max: 2, windowMs: 60 * 1000 }, 'memory', 'Too many API key requests'));
+      app.get('/', (_req, res) => {
+        lookup();
+        res.status(401).json({ success: false });
+      });
+
+      await request(app).get('/').set('X-API-Key', 'oc_guess-1').expect(401);
+      await request(app).get('/').set('Authorization', 'Bearer oc_guess-2').expect(401);
+      const response = await request(app).get('/').set('X-API-Key', 'oc_guess-3').expect(429);
+
+      expect(response.body.code).toBe('RATE_LIMITED');
+      expect(lookup).toHaveBeenCalledTimes(2);
+      // Requests without a key are left to the route limiters
+      await request(app).get('/').expect(401);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for Request Middleware
+ * Tests request ID handling, request logging, and request IDs in error responses
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import express, { Router } from 'express';
+import request from 'supertest';
+
+jest.unstable_mockModule('../../lib/logger.js', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+// Import after mocking
+const { requestId, requestLogger } = await import('../../middleware/request.middleware.js');
+const { errorHandler, notFoundHandler } = await import('../../middleware/error.middleware.js');
+const { NotFoundError } = await import('../../lib/errors.js');
+const { logger } = await import('../../lib/logger.js');
+
+const mockLogger = logger as jest.Mocked<typeof logger>;
+
+function buildApp() {
+  const router = Router();
+  router.get('/coupons/:id', (req, res, next) => {
+    if (req.params.id === 'missing') {
+      next(new NotFoundError('Coupon not found'));
+      return;
+    }
+    res.json({ success: true });
+  });
+
+  const app = express();
+  app.use(requestId);
+  app.use(requestLogger);
+  app.use('/api/v1', router);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+}
+
+/**
+ * Fields of the last "request completed" log entry
+ */
+function lastRequestLog(): Record<string, unknown> | undefined {
+  return mockLogger.info.mock.calls.filter(([message]) => message === 'request completed').at(-1)?.[1];
+}
+
+describe('Request Middleware', () => {
+  const app = buildApp();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestId', () => {
+    it('should generate a request ID and send it back', async () => {
+      const response = await request(app).get('/api/v1/coupons/abc').expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it("should keep the caller's request ID", async () => {
+      const response = await request(app).get('/api/v1/coupons/abc').set('X-Request-Id', 'proxy-123.a:b').expect(200);
+
+      expect(response.headers['x-request-id']).toBe('proxy-123.a:b');
+    });
+
+    it('should replace a malformed request ID', async () => {
+      const response = await request(app)
+        .get('/api/v1/coupons/abc')
+        .set('X-Request-Id', 'bad id {"injected":true}')
+        .expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('requestLogger', () => {
+    it('should log method, route, status, latency, and request ID', async () => {
+      const response = await request(app).get('/api/v1/coupons/abc?domain=example.com').expect(200);
+
+      expect(lastRequestLog()).toEqual({
+        requestId: response.headers['x-request-id'],
+        method: 'GET',
+        route: '/api/v1/coupons/:id',
+        status: 200,
+        latencyMs: expect.any(Number),
+      });
+    });
+
+    it('should log the path without the query string for unmatched routes', async () => {
+      await request(app).get('/nowhere?domain=example.com').expect(404);
+
+      expect(lastRequestLog()).toMatchObject({ route: '/nowhere', status: 404 });
+    });
+  });
+
+  describe('error responses', () => {
+    it('should include the request ID in errors from errorHandler', async () => {
+      const response = await request(app).get('/api/v1/coupons/missing').set('X-Request-Id', 'req-1').expect(404);
+
+      expect(response.body).toEqual({ success: false, error: 'Coupon not found', requestId: 'req-1' });
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'request failed',
+        expect.objectContaining({ requestId: 'req-1', statusCode: 404 }),
+      );
+      expect(lastRequestLog()).toMatchObject({ route: '/api/v1/coupons/:id', status: 404 });
+    });
+
+    it('should include the request ID in 404 responses for unknown routes', async () => {
+      const response = await request(app).get('/nowhere').set('X-Request-Id', 'req-2').expect(404);
+
+      expect(response.body).toEqual({ success: false, error: 'Route GET /nowhere not found', requestId: 'req-2' });
+    });
+  });
+});
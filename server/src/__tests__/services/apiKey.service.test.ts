@@ -0,0 +1,146 @@
+/**
+ * Unit tests for API Key Service
+ * Tests key hashing, creation, resolution, and revocation with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { ApiKey } from '../../generated/prisma/index.js';
+
+// Mock the db module before importing the service
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    apiKey: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Import after mocking
+const { hashApiKey, createApiKey, resolveApiKey, revokeApiKey } = await import('../../services/apiKey.service.js');
+const { NotFoundError } = await import('../../lib/errors.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('API Key Service', () => {
+  const storedKey: ApiKey = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    keyHash: hashApiKey('oc_test-key'),
+    prefix: 'oc_test-key',
+    label: 'Admin dashboard',
+    role: 'admin',
+    revoked: false,
+    lastUsedAt: null,
+    createdAt: new Date('2024-12-01'),
+    updatedAt: new Date('2024-12-01'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('hashApiKey', () => {
+    it('should produce a stable SHA-256 hex digest', () => {
+      expect(hashApiKey('oc_test-key')).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashApiKey('oc_test-key')).toBe(hashApiKey('oc_test-key'));
+      expect(hashApiKey('oc_test-key')).not.toBe(hashApiKey('oc_other-key'));
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should store only the hash and a short prefix of the key', async () => {
+      mockDb.apiKey.create.mockResolvedValue(storedKey);
+
+      const { apiKey, key } = await createApiKey({ label: 'Admin dashboard', role: 'admin' });
+
+      expect(apiKey).toEqual(storedKey);
+      expect(key).toMatch(/^oc_[A-Za-z0-9_-]{43}$/);
+      expect(mockDb.apiKey.create).toHaveBeenCalledWith({
+        data: {
+          keyHash: hashApiKey(key),
+          prefix: key.slice(0, 11),
+          label: 'Admin dashboard',
+          role: 'admin',
+        },
+      });
+    });
+
+    it('should generate a different key every time', async () => {
+      mockDb.apiKey.create.mockResolvedValue(storedKey);
+
+      const first = await createApiKey({ label: 'A', role: 'client' });
+      const second = await createApiKey({ label: 'B', role: 'client' });
+
+      expect(first.key).not.toBe(second.key);
+    });
+  });
+
+  describe('resolveApiKey', () => {
+    it('should return the principal and record the time of use', async () => {
+      mockDb.apiKey.findUnique.mockResolvedValue(storedKey);
+      mockDb.apiKey.update.mockResolvedValue(storedKey);
+
+      const principal = await resolveApiKey('oc_test-key');
+
+      expect(principal).toEqual({ id: storedKey.id, label: 'Admin dashboard', role: 'admin' });
+      expect(mockDb.apiKey.findUnique).toHaveBeenCalledWith({ where: { keyHash: hashApiKey('oc_test-key') } });
+      expect(mockDb.apiKey.update).toHaveBeenCalledWith({
+        where: { id: storedKey.id },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not rewrite a time of use recorded within the last minute', async () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+      mockDb.apiKey.findUnique.mockResolvedValue({ ...storedKey, lastUsedAt: new Date('2025-01-01T11:59:30Z') });
+
+      await expect(resolveApiKey('oc_test-key', now)).resolves.toMatchObject({ id: storedKey.id });
+      expect(mockDb.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should record the time of use once the last one is a minute old', async () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+      mockDb.apiKey.findUnique.mockResolvedValue({ ...storedKey, lastUsedAt: new Date('2025-01-01T11:59:00Z') });
+
+      await resolveApiKey('oc_test-key', now);
+
+      expect(mockDb.apiKey.update).toHaveBeenCalledWith({ where: { id: storedKey.id }, data: { lastUsedAt: now } });
+    });
+
+    it('should return null for an unknown key', async () => {
+      mockDb.apiKey.findUnique.mockResolvedValue(null);
+
+      await expect(resolveApiKey('oc_unknown')).resolves.toBeNull();
+      expect(mockDb.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should return null for a revoked key', async () => {
+      mockDb.apiKey.findUnique.mockResolvedValue({ ...storedKey, revoked: true });
+
+      await expect(resolveApiKey('oc_test-key')).resolves.toBeNull();
+      expect(mockDb.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should mark the key as revoked', async () => {
+      mockDb.apiKey.update.mockResolvedValue({ ...storedKey, revoked: true });
+
+      const result = await revokeApiKey(storedKey.id);
+
+      expect(result.revoked).toBe(true);
+      expect(mockDb.apiKey.update).toHaveBeenCalledWith({
+        where: { id: storedKey.id },
+        data: { revoked: true },
+      });
+    });
+
+    it('should throw NotFoundError for a missing key', async () => {
+      mockDb.apiKey.update.mockRejectedValue(Object.assign(new Error('Record not found'), { code: 'P2025' }));
+
+      await expect(revokeApiKey(storedKey.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -11,13 +11,29 @@ jest.unstable_mockModule('../../lib/db.js', () => ({
   db: {
     retailer: {
       findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    coupon: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
     },
   },
 }));
 
 // Import after mocking
-const { getCouponsByDomain } = await import('../../services/coupon.service.js');
-const { NotFoundError } = await import('../../lib/errors.js');
+const {
+  getCouponsByDomain,
+  computeCouponSetHash,
+  lookupCouponSets,
+  createCoupon,
+  updateCoupon,
+  expireCoupon,
+  deleteCoupon,
+} = await import('../../services/coupon.service.js');
+const { rankCoupons } = await import('../../services/ranking.service.js');
+const { NotFoundError, ConflictError } = await import('../../lib/errors.js');
 const { db } = await import('../../lib/db.js');
 
 const mockDb = db as jest.Mocked<typeof db>;
@@ -35,10 +51,13 @@ describe('CouponService', () => {
         description: '20% off',
         successCount: 100,
         failureCount: 5,
+        weightedSuccess: 100,
+        weightedFailure: 5,
         lastSuccessAt: new Date('2024-12-15'),
         lastTestedAt: new Date('2024-12-16'),
         expiryDate: null,
         source: 'admin',
+        status: 'active',
         createdAt: new Date('2024-12-01'),
         updatedAt: new Date('2024-12-01'),
         retailerId: 'retailer-1',
@@ -49,17 +68,20 @@ describe('CouponService', () => {
         description: 'Free shipping',
         successCount: 50,
         failureCount: 2,
+        weightedSuccess: 50,
+        weightedFailure: 2,
         lastSuccessAt: new Date('2024-12-14'),
         lastTestedAt: new Date('2024-12-16'),
         expiryDate: null,
         source: 'user-submission',
+        status: 'active',
         createdAt: new Date('2024-12-01'),
         updatedAt: new Date('2024-12-01'),
         retailerId: 'retailer-1',
       },
     ];
 
-    const mockRetailer: Retailer & { coupons: Coupon[] } = {
+    const mockRetailer: Retailer & { domains: Array<{ domain: string }> } = {
       id: 'retailer-1',
       domain: 'nike.com',
       name: 'Nike',
@@ -69,102 +91,480 @@ describe('CouponService', () => {
       selectorConfig: null,
       createdAt: new Date('2024-12-01'),
       updatedAt: new Date('2024-12-01'),
-      coupons: mockCoupons,
+      domains: [],
     };
 
-    it('should return coupons for a valid domain', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(mockRetailer);
+    const servedCouponsWhere = {
+      retailerId: 'retailer-1',
+      status: { in: ['active', 'stale'] },
+      OR: [{ expiryDate: null }, { expiryDate: { gt: expect.any(Date) } }],
+    };
+
+    /**
+     * Domain candidates passed to the retailer lookup
+     */
+    function lookedUpDomains(): unknown {
+      const args = mockDb.retailer.findMany.mock.calls[0]?.[0] as { include: { domains: { where: unknown } } };
+      return args.include.domains.where;
+    }
+
+    beforeEach(() => {
+      mockDb.retailer.findMany.mockResolvedValue([mockRetailer]);
+      mockDb.coupon.findMany.mockResolvedValue(mockCoupons);
+    });
 
-      const result = await getCouponsByDomain('nike.com');
+    it('should return coupons for a valid domain', async () => {
+      const { coupons: result } = await getCouponsByDomain('nike.com');
 
-      expect(result).toEqual(mockCoupons);
-      expect(mockDb.retailer.findUnique).toHaveBeenCalledWith({
-        where: { domain: 'nike.com' },
+      expect(result.map((c) => c.id)).toEqual(['1', '2']);
+      expect(result[0]).toMatchObject(mockCoupons[0]!);
+      expect(mockDb.retailer.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [{ domain: { in: ['nike.com'] } }, { domains: { some: { domain: { in: ['nike.com'] } } } }],
+        },
         include: {
-          coupons: {
-            orderBy: {
-              successCount: 'desc',
-            },
+          domains: {
+            where: { domain: { in: ['nike.com'] } },
+            select: { domain: true },
           },
         },
       });
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: servedCouponsWhere,
+      });
     });
 
-    it('should strip www prefix from domain', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(mockRetailer);
+    it('should return the retailer display info and selectors without internal fields', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([
+        { ...mockRetailer, selectorConfig: { input: '#promoCode', priceSelectors: ['.order-total'] } },
+      ]);
 
-      await getCouponsByDomain('www.nike.com');
+      const { retailer } = await getCouponsByDomain('nike.com');
 
-      expect(mockDb.retailer.findUnique).toHaveBeenCalledWith({
-        where: { domain: 'nike.com' },
-        include: expect.any(Object),
+      expect(retailer).toEqual({
+        id: 'retailer-1',
+        domain: 'nike.com',
+        name: 'Nike',
+        logoUrl: 'https://logo.clearbit.com/nike.com',
+        homeUrl: 'https://www.nike.com',
+        selectorConfig: { input: '#promoCode', priceSelectors: ['.order-total'] },
       });
     });
 
-    it('should extract hostname from full URL', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(mockRetailer);
+    it('should include expired coupons when requested', async () => {
+      await getCouponsByDomain('nike.com', { includeExpired: true });
+
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: { retailerId: 'retailer-1', status: { in: ['active', 'stale', 'expired'] } },
+      });
+    });
+
+    it('should include a confidence score for each coupon', async () => {
+      const { coupons: result } = await getCouponsByDomain('nike.com');
 
+      for (const coupon of result) {
+        expect(typeof coupon.score).toBe('number');
+        expect(coupon.score).toBeGreaterThanOrEqual(0);
+        expect(coupon.score).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should apply the requested sort order', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([
+        mockCoupons[0]!,
+        { ...mockCoupons[1]!, createdAt: new Date('2024-12-10') },
+      ]);
+
+      const { coupons: result } = await getCouponsByDomain('nike.com', { sort: 'newest' });
+
+      expect(result.map((c) => c.id)).toEqual(['2', '1']);
+    });
+
+    it('should strip www prefix from domain', async () => {
+      await getCouponsByDomain('www.nike.com');
+
+      expect(lookedUpDomains()).toEqual({ domain: { in: ['nike.com'] } });
+    });
+
+    it('should extract hostname from full URL', async () => {
       await getCouponsByDomain('https://www.nike.com/products');
 
-      expect(mockDb.retailer.findUnique).toHaveBeenCalledWith({
-        where: { domain: 'nike.com' },
-        include: expect.any(Object),
-      });
+      expect(lookedUpDomains()).toEqual({ domain: { in: ['nike.com'] } });
     });
 
     it('should handle URL without protocol', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(mockRetailer);
-
       await getCouponsByDomain('nike.com/products');
 
-      expect(mockDb.retailer.findUnique).toHaveBeenCalledWith({
-        where: { domain: 'nike.com' },
-        include: expect.any(Object),
+      expect(lookedUpDomains()).toEqual({ domain: { in: ['nike.com'] } });
+    });
+
+    it('should fall back from a subdomain to the registrable domain', async () => {
+      await getCouponsByDomain('https://store.nike.com/checkout');
+
+      expect(lookedUpDomains()).toEqual({ domain: { in: ['store.nike.com', 'nike.com'] } });
+    });
+
+    it('should prefer the most specific match', async () => {
+      const storeRetailer = { ...mockRetailer, id: 'retailer-2', domain: 'store.nike.com' };
+      mockDb.retailer.findMany.mockResolvedValue([mockRetailer, storeRetailer]);
+
+      await getCouponsByDomain('store.nike.com');
+
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: { ...servedCouponsWhere, retailerId: 'retailer-2' },
       });
     });
 
+    it('should resolve a retailer through a domain alias', async () => {
+      const ukRetailer = { ...mockRetailer, domains: [{ domain: 'nike.co.uk' }] };
+      mockDb.retailer.findMany.mockResolvedValue([ukRetailer]);
+
+      const { coupons: result } = await getCouponsByDomain('https://www.nike.co.uk/');
+
+      expect(lookedUpDomains()).toEqual({ domain: { in: ['nike.co.uk'] } });
+      expect(result).toHaveLength(2);
+    });
+
     it('should throw NotFoundError when retailer does not exist', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(null);
+      mockDb.retailer.findMany.mockResolvedValue([]);
 
       await expect(getCouponsByDomain('nonexistent.com')).rejects.toThrow(NotFoundError);
       await expect(getCouponsByDomain('nonexistent.com')).rejects.toThrow(
         'No retailer found for domain: nonexistent.com',
       );
+      expect(mockDb.coupon.findMany).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError when retailer is inactive', async () => {
-      const inactiveRetailer = { ...mockRetailer, isActive: false };
-      mockDb.retailer.findUnique.mockResolvedValue(inactiveRetailer);
+      mockDb.retailer.findMany.mockResolvedValue([{ ...mockRetailer, isActive: false }]);
 
       await expect(getCouponsByDomain('nike.com')).rejects.toThrow(NotFoundError);
       await expect(getCouponsByDomain('nike.com')).rejects.toThrow('Retailer is not active: nike.com');
     });
 
     it('should return empty array when retailer has no coupons', async () => {
-      const retailerWithNoCoupons = { ...mockRetailer, coupons: [] };
-      mockDb.retailer.findUnique.mockResolvedValue(retailerWithNoCoupons);
+      mockDb.coupon.findMany.mockResolvedValue([]);
 
-      const result = await getCouponsByDomain('nike.com');
+      const { coupons: result } = await getCouponsByDomain('nike.com');
 
       expect(result).toEqual([]);
     });
 
     it('should return coupons ordered by successCount descending', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(mockRetailer);
-
-      const result = await getCouponsByDomain('nike.com');
+      const { coupons: result } = await getCouponsByDomain('nike.com');
 
       expect(result[0]?.successCount).toBeGreaterThan(result[1]?.successCount || 0);
     });
 
     it('should handle malformed URLs gracefully', async () => {
-      mockDb.retailer.findUnique.mockResolvedValue(mockRetailer);
+      mockDb.retailer.findMany.mockResolvedValue([]);
 
       // Should extract domain even from invalid URLs
-      await getCouponsByDomain('not-a-url-at-all');
+      await expect(getCouponsByDomain('not-a-url-at-all')).rejects.toThrow(NotFoundError);
 
       // Verify it attempted to query with the cleaned input
-      expect(mockDb.retailer.findUnique).toHaveBeenCalled();
+      expect(lookedUpDomains()).toEqual({ domain: { in: ['not-a-url-at-all'] } });
+    });
+  });
+
+  describe('computeCouponSetHash', () => {
+    const retailer = {
+      id: 'retailer-1',
+      domain: 'nike.com',
+      name: 'Nike',
+      logoUrl: null,
+      homeUrl: null,
+      selectorConfig: { input: '#promo' },
+    };
+    const coupon = {
+      id: '1',
+      code: 'SAVE20',
+      description: '20% off',
+      successCount: 10,
+      failureCount: 1,
+      weightedSuccess: 10,
+      weightedFailure: 1,
+      lastSuccessAt: new Date('2024-12-15'),
+      lastTestedAt: new Date('2024-12-15'),
+      expiryDate: null,
+      source: 'admin',
+      status: 'active',
+      createdAt: new Date('2024-12-01'),
+      updatedAt: new Date('2024-12-15'),
+      retailerId: 'retailer-1',
+      score: 0.5,
+    };
+    const other = { ...coupon, id: '2', code: 'FREESHIP' };
+
+    it('should return the same hash for the same coupon set', () => {
+      expect(computeCouponSetHash({ retailer, coupons: [coupon, other] })).toBe(
+        computeCouponSetHash({ retailer, coupons: [{ ...coupon }, { ...other }] }),
+      );
+      expect(computeCouponSetHash({ retailer, coupons: [coupon] })).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('should change when a coupon or the order changes', () => {
+      const hash = computeCouponSetHash({ retailer, coupons: [coupon, other] });
+
+      expect(computeCouponSetHash({ retailer, coupons: [{ ...coupon, successCount: 11 }, other] })).not.toBe(hash);
+      expect(computeCouponSetHash({ retailer, coupons: [{ ...coupon, status: 'stale' }, other] })).not.toBe(hash);
+      expect(computeCouponSetHash({ retailer, coupons: [other, coupon] })).not.toBe(hash);
+      expect(computeCouponSetHash({ retailer, coupons: [coupon] })).not.toBe(hash);
+    });
+
+    it('should not change when only the score changes', () => {
+      expect(computeCouponSetHash({ retailer, coupons: [{ ...coupon, score: 0.4 }, other] })).toBe(
+        computeCouponSetHash({ retailer, coupons: [coupon, other] }),
+      );
+    });
+
+    it('should give the same hash for unchanged coupons ranked an hour apart', () => {
+      const now = new Date('2025-01-15T12:00:00Z');
+      const later = new Date(now.getTime() + 60 * 60 * 1000);
+      const rows = [coupon, other].map(({ score: _score, ...row }) => row);
+
+      const ranked = rankCoupons(rows, 'score', now);
+      const rankedLater = rankCoupons(rows, 'score', later);
+
+      expect(rankedLater[0]?.score).not.toBe(ranked[0]?.score);
+      expect(computeCouponSetHash({ retailer, coupons: rankedLater })).toBe(
+        computeCouponSetHash({ retailer, coupons: ranked }),
+      );
+    });
+
+    it('should change when the retailer selectors change', () => {
+      const hash = computeCouponSetHash({ retailer, coupons: [coupon] });
+
+      expect(
+        computeCouponSetHash({ retailer: { ...retailer, selectorConfig: { input: '#code' } }, coupons: [coupon] }),
+      ).not.toBe(hash);
+    });
+  });
+
+  describe('lookupCouponSets', () => {
+    const NOW = new Date('2025-01-15T12:00:00Z');
+
+    const nike: Retailer = {
+      id: 'retailer-1',
+      domain: 'nike.com',
+      name: 'Nike',
+      logoUrl: null,
+      homeUrl: 'https://www.nike.com',
+      isActive: true,
+      selectorConfig: null,
+      createdAt: new Date('2024-12-01'),
+      updatedAt: new Date('2024-12-01'),
+    };
+    const adidas: Retailer = { ...nike, id: 'retailer-2', domain: 'adidas.com', name: 'Adidas' };
+
+    const coupon = (id: string, code: string, retailerId: string, successCount: number): Coupon => ({
+      id,
+      code,
+      description: code,
+      successCount,
+      failureCount: 1,
+      weightedSuccess: successCount,
+      weightedFailure: 1,
+      lastSuccessAt: new Date('2025-01-10'),
+      lastTestedAt: new Date('2025-01-10'),
+      expiryDate: null,
+      source: 'admin',
+      status: 'active',
+      createdAt: new Date('2024-12-01'),
+      updatedAt: new Date('2024-12-01'),
+      retailerId,
+    });
+
+    const nikeCoupons = [coupon('1', 'FREESHIP', 'retailer-1', 5), coupon('2', 'SAVE20', 'retailer-1', 50)];
+    const adidasCoupons = [coupon('3', 'WELCOME', 'retailer-2', 10)];
+
+    const withAliases = (retailer: Retailer, ...aliases: string[]) => ({
+      ...retailer,
+      domains: aliases.map((domain) => ({ domain })),
+    });
+
+    it('should resolve every hostname with one retailer query and one coupon query', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([withAliases(nike), withAliases(adidas)] as never);
+      mockDb.coupon.findMany.mockResolvedValue([...nikeCoupons, ...adidasCoupons]);
+
+      const results = await lookupCouponSets(['store.nike.com', 'adidas.com', 'unknown.com'], NOW);
+
+      expect(mockDb.retailer.findMany).toHaveBeenCalledTimes(1);
+      expect(mockDb.retailer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [
+              { domain: { in: ['store.nike.com', 'nike.com', 'adidas.com', 'unknown.com'] } },
+              { domains: { some: { domain: { in: ['store.nike.com', 'nike.com', 'adidas.com', 'unknown.com'] } } } },
+            ],
+          },
+        }),
+      );
+      expect(mockDb.coupon.findMany).toHaveBeenCalledTimes(1);
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: {
+          retailerId: { in: ['retailer-1', 'retailer-2'] },
+          status: { in: ['active', 'stale'] },
+          OR: [{ expiryDate: null }, { expiryDate: { gt: NOW } }],
+        },
+      });
+      expect(results).toEqual([
+        { domain: 'store.nike.com', found: true, couponCount: 2, hash: expect.any(String) },
+        { domain: 'adidas.com', found: true, couponCount: 1, hash: expect.any(String) },
+        { domain: 'unknown.com', found: false, couponCount: 0, hash: null },
+      ]);
+    });
+
+    it('should return the ETag hash of the default coupon list, even when fetched at another time', async () => {
+      jest.useFakeTimers({ now: NOW });
+      try {
+        mockDb.retailer.findMany.mockResolvedValue([withAliases(nike)] as never);
+        mockDb.coupon.findMany.mockResolvedValue(nikeCoupons);
+
+        const couponSet = await getCouponsByDomain('nike.com');
+        const [sameTime] = await lookupCouponSets(['nike.com'], NOW);
+        const [later] = await lookupCouponSets(['nike.com'], new Date(NOW.getTime() + 60 * 60 * 1000));
+
+        expect(sameTime?.hash).toBe(computeCouponSetHash(couponSet));
+        expect(later?.hash).toBe(computeCouponSetHash(couponSet));
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should report inactive retailers as not found', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([withAliases({ ...nike, isActive: false })] as never);
+
+      const results = await lookupCouponSets(['nike.com'], NOW);
+
+      expect(results).toEqual([{ domain: 'nike.com', found: false, couponCount: 0, hash: null }]);
+      expect(mockDb.coupon.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should report a duplicate hostname once and share results between hostnames of one retailer', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([withAliases(nike, 'nike.co.uk')] as never);
+      mockDb.coupon.findMany.mockResolvedValue(nikeCoupons);
+
+      const results = await lookupCouponSets(['nike.com', 'nike.co.uk', 'nike.com'], NOW);
+
+      expect(results.map((result) => result.domain)).toEqual(['nike.com', 'nike.co.uk']);
+      expect(results[0]?.hash).toBe(results[1]?.hash);
+    });
+  });
+
+  describe('admin coupon operations', () => {
+    const retailer: Retailer = {
+      id: 'retailer-1',
+      domain: 'nike.com',
+      name: 'Nike',
+      logoUrl: null,
+      homeUrl: null,
+      isActive: true,
+      selectorConfig: null,
+      createdAt: new Date('2024-12-01'),
+      updatedAt: new Date('2024-12-01'),
+    };
+
+    const coupon: Coupon = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      code: 'NIKE20',
+      description: '20% off',
+      successCount: 0,
+      failureCount: 0,
+      weightedSuccess: 0,
+      weightedFailure: 0,
+      lastSuccessAt: null,
+      lastTestedAt: null,
+      expiryDate: null,
+      source: 'admin',
+      status: 'active',
+      createdAt: new Date('2024-12-01'),
+      updatedAt: new Date('2024-12-01'),
+      retailerId: 'retailer-1',
+    };
+
+    const prismaError = (code: string): Error => Object.assign(new Error(`Prisma error ${code}`), { code });
+
+    it('should create a coupon for the retailer matching the domain', async () => {
+      mockDb.retailer.findUnique.mockResolvedValue(retailer);
+      mockDb.coupon.create.mockResolvedValue(coupon);
+
+      const result = await createCoupon({ domain: 'nike.com', code: 'NIKE20', description: '20% off' });
+
+      expect(result).toEqual(coupon);
+      expect(mockDb.coupon.create).toHaveBeenCalledWith({
+        data: {
+          code: 'NIKE20',
+          description: '20% off',
+          expiryDate: null,
+          source: 'admin',
+          status: 'active',
+          retailerId: 'retailer-1',
+        },
+      });
+    });
+
+    it('should throw NotFoundError when creating a coupon for an unknown domain', async () => {
+      mockDb.retailer.findUnique.mockResolvedValue(null);
+
+      await expect(createCoupon({ domain: 'unknown.com', code: 'X', description: 'Y' })).rejects.toThrow(NotFoundError);
+      expect(mockDb.coupon.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError when the code already exists for the retailer', async () => {
+      mockDb.retailer.findUnique.mockResolvedValue(retailer);
+      mockDb.coupon.create.mockRejectedValue(prismaError('P2002'));
+
+      await expect(createCoupon({ domain: 'nike.com', code: 'NIKE20', description: '20% off' })).rejects.toThrow(
+        ConflictError,
+      );
+    });
+
+    it('should update only the provided fields', async () => {
+      mockDb.coupon.update.mockResolvedValue(coupon);
+
+      await updateCoupon(coupon.id, { description: '25% off', expiryDate: null });
+
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: coupon.id },
+        data: { description: '25% off', expiryDate: null },
+      });
+    });
+
+    it('should soft-disable a coupon by updating its status', async () => {
+      mockDb.coupon.update.mockResolvedValue({ ...coupon, status: 'disabled' });
+
+      const result = await updateCoupon(coupon.id, { status: 'disabled' });
+
+      expect(result.status).toBe('disabled');
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: coupon.id },
+        data: { status: 'disabled' },
+      });
+    });
+
+    it('should throw NotFoundError when updating a missing coupon', async () => {
+      mockDb.coupon.update.mockRejectedValue(prismaError('P2025'));
+
+      await expect(updateCoupon(coupon.id, { description: '25% off' })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should expire a coupon by setting its expiry date to now and its status to expired', async () => {
+      mockDb.coupon.update.mockResolvedValue(coupon);
+
+      await expireCoupon(coupon.id);
+
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: coupon.id },
+        data: { expiryDate: expect.any(Date), status: 'expired' },
+      });
+    });
+
+    it('should delete a coupon and report missing ones', async () => {
+      mockDb.coupon.delete.mockResolvedValueOnce(coupon).mockRejectedValueOnce(prismaError('P2025'));
+
+      await expect(deleteCoupon(coupon.id)).resolves.toBeUndefined();
+      await expect(deleteCoupon(coupon.id)).rejects.toThrow(NotFoundError);
     });
   });
 });
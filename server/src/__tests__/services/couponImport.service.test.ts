@@ -0,0 +1,137 @@
+/**
+ * Unit tests for Coupon Import Service
+ * Tests bulk import planning and reporting with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock the db module before importing the service
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    retailer: {
+      findMany: jest.fn(),
+    },
+    coupon: {
+      findMany: jest.fn(),
+      upsert: jest.fn((args: unknown) => args),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+// Import after mocking
+const { importCoupons } = await import('../../services/couponImport.service.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('Coupon Import Service', () => {
+  const nike = { id: 'retailer-nike', domain: 'nike.com' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.retailer.findMany.mockResolvedValue([nike] as never);
+    mockDb.coupon.findMany.mockResolvedValue([]);
+    // Resolve each planned upsert to a coupon with a predictable ID
+    mockDb.$transaction.mockImplementation((async (operations: unknown[]) =>
+      operations.map((_, index) => ({ id: `coupon-${index + 1}` }))) as never);
+  });
+
+  it('should create new coupons and report each row', async () => {
+    const report = await importCoupons([
+      { domain: 'nike.com', code: 'NIKE20', description: '20% off' },
+      { domain: 'www.nike.com', code: 'FREESHIP', description: 'Free shipping', expiryDate: '2030-01-01' },
+    ]);
+
+    expect(report).toEqual({
+      created: 2,
+      updated: 0,
+      rejected: 0,
+      results: [
+        { row: 1, domain: 'nike.com', code: 'NIKE20', status: 'created', couponId: 'coupon-1' },
+        { row: 2, domain: 'nike.com', code: 'FREESHIP', status: 'created', couponId: 'coupon-2' },
+      ],
+    });
+    expect(mockDb.coupon.upsert).toHaveBeenCalledWith({
+      where: { retailerId_code: { retailerId: 'retailer-nike', code: 'FREESHIP' } },
+      create: {
+        code: 'FREESHIP',
+        description: 'Free shipping',
+        expiryDate: new Date('2030-01-01'),
+        source: 'admin',
+        retailerId: 'retailer-nike',
+      },
+      update: {
+        description: 'Free shipping',
+        expiryDate: new Date('2030-01-01'),
+      },
+    });
+  });
+
+  it('should report existing codes as updated without touching counters', async () => {
+    mockDb.coupon.findMany.mockResolvedValue([{ retailerId: 'retailer-nike', code: 'NIKE20' }] as never);
+
+    const report = await importCoupons([{ domain: 'nike.com', code: 'NIKE20', description: '25% off' }]);
+
+    expect(report.updated).toBe(1);
+    expect(report.results[0]?.status).toBe('updated');
+    expect(mockDb.coupon.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { description: '25% off' },
+      }),
+    );
+  });
+
+  it('should reject invalid rows and unknown retailers individually', async () => {
+    const report = await importCoupons([
+      { domain: 'nike.com', code: '', description: 'Missing code' },
+      { domain: 'unknown.com', code: 'UNKNOWN', description: 'No retailer' },
+      'not-an-object',
+      { domain: 'nike.com', code: 'NIKE20', description: '20% off' },
+    ]);
+
+    expect(report.created).toBe(1);
+    expect(report.rejected).toBe(3);
+    expect(report.results[0]).toMatchObject({ row: 1, domain: 'nike.com', status: 'rejected' });
+    expect(report.results[0]?.error).toContain('code');
+    expect(report.results[1]).toEqual({
+      row: 2,
+      domain: 'unknown.com',
+      code: 'UNKNOWN',
+      status: 'rejected',
+      error: 'No retailer found for domain: unknown.com',
+    });
+    expect(report.results[2]).toMatchObject({ row: 3, status: 'rejected' });
+    expect(report.results[3]).toMatchObject({ row: 4, status: 'created', couponId: 'coupon-1' });
+  });
+
+  it('should treat a repeated code in the same import as an update', async () => {
+    const report = await importCoupons([
+      { domain: 'nike.com', code: 'NIKE20', description: 'First' },
+      { domain: 'nike.com', code: 'NIKE20', description: 'Second' },
+    ]);
+
+    expect(report.results.map((result) => result.status)).toEqual(['created', 'updated']);
+  });
+
+  it('should treat empty CSV cells as missing values', async () => {
+    const report = await importCoupons([
+      { domain: 'nike.com', code: 'NIKE20', description: '20% off', expiryDate: '', source: '' },
+    ]);
+
+    expect(report.created).toBe(1);
+    expect(mockDb.coupon.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ expiryDate: null, source: 'admin' }),
+      }),
+    );
+  });
+
+  it('should skip the database write when every row is rejected', async () => {
+    const report = await importCoupons([{ domain: 'invalid domain', code: 'X', description: 'Y' }]);
+
+    expect(report.rejected).toBe(1);
+    expect(mockDb.retailer.findMany).not.toHaveBeenCalled();
+    expect(mockDb.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for Coupon Submission Service
+ * Tests community submissions and moderation with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Coupon, Retailer } from '../../generated/prisma/index.js';
+
+// Mock the db module before importing the service
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    retailer: {
+      findMany: jest.fn(),
+    },
+    coupon: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Import after mocking
+const { createCouponSubmission, listPendingCoupons, reviewCoupon } =
+  await import('../../services/couponSubmission.service.js');
+const { NotFoundError, ConflictError } = await import('../../lib/errors.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+/**
+ * Create an error shaped like a Prisma known request error
+ */
+function prismaError(code: string): Error {
+  return Object.assign(new Error(`Prisma error ${code}`), { code });
+}
+
+describe('Coupon Submission Service', () => {
+  const retailer: Retailer & { domains: Array<{ domain: string }> } = {
+    id: 'retailer-1',
+    domain: 'nike.com',
+    name: 'Nike',
+    logoUrl: null,
+    homeUrl: null,
+    isActive: true,
+    selectorConfig: null,
+    createdAt: new Date('2024-12-01'),
+    updatedAt: new Date('2024-12-01'),
+    domains: [],
+  };
+
+  const pendingCoupon: Coupon = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    code: 'SPRING25',
+    description: '25% off spring collection',
+    successCount: 0,
+    failureCount: 0,
+    weightedSuccess: 0,
+    weightedFailure: 0,
+    lastSuccessAt: null,
+    lastTestedAt: null,
+    expiryDate: null,
+    source: 'user-submission',
+    status: 'pending-review',
+    createdAt: new Date('2024-12-01'),
+    updatedAt: new Date('2024-12-01'),
+    retailerId: 'retailer-1',
+  };
+
+  const submission = { domain: 'nike.com', code: 'SPRING25', description: '25% off spring collection' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createCouponSubmission', () => {
+    it('should create a pending user submission', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([retailer]);
+      mockDb.coupon.findFirst.mockResolvedValue(null);
+      mockDb.coupon.create.mockResolvedValue(pendingCoupon);
+
+      const result = await createCouponSubmission(submission);
+
+      expect(result).toEqual(pendingCoupon);
+      expect(mockDb.coupon.create).toHaveBeenCalledWith({
+        data: {
+          code: 'SPRING25',
+          description: '25% off spring collection',
+          expiryDate: null,
+          source: 'user-submission',
+          status: 'pending-review',
+          retailerId: 'retailer-1',
+        },
+      });
+    });
+
+    it('should check for an existing code case-insensitively', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([retailer]);
+      mockDb.coupon.findFirst.mockResolvedValue({ ...pendingCoupon, code: 'spring25', status: 'active' });
+
+      await expect(createCouponSubmission(submission)).rejects.toThrow(ConflictError);
+      expect(mockDb.coupon.findFirst).toHaveBeenCalledWith({
+        where: { retailerId: 'retailer-1', code: { equals: 'SPRING25', mode: 'insensitive' } },
+      });
+      expect(mockDb.coupon.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError when a concurrent submission wins', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([retailer]);
+      mockDb.coupon.findFirst.mockResolvedValue(null);
+      mockDb.coupon.create.mockRejectedValue(prismaError('P2002'));
+
+      await expect(createCouponSubmission(submission)).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError for an unknown retailer', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([]);
+
+      await expect(createCouponSubmission({ ...submission, domain: 'unknown.com' })).rejects.toThrow(NotFoundError);
+      expect(mockDb.coupon.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for an inactive retailer', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([{ ...retailer, isActive: false }]);
+
+      await expect(createCouponSubmission(submission)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('listPendingCoupons', () => {
+    it('should list pending submissions oldest first with pagination', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([pendingCoupon]);
+      mockDb.coupon.count.mockResolvedValue(21);
+
+      const result = await listPendingCoupons({ page: 2, pageSize: 20 });
+
+      expect(result).toEqual({ coupons: [pendingCoupon], total: 21 });
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: { status: 'pending-review' },
+        include: { retailer: { select: { id: true, domain: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+        skip: 20,
+        take: 20,
+      });
+      expect(mockDb.coupon.count).toHaveBeenCalledWith({ where: { status: 'pending-review' } });
+    });
+  });
+
+  describe('reviewCoupon', () => {
+    it('should activate an approved submission', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue(pendingCoupon);
+      mockDb.coupon.update.mockResolvedValue({ ...pendingCoupon, status: 'active' });
+
+      const result = await reviewCoupon(pendingCoupon.id, 'approve');
+
+      expect(result.status).toBe('active');
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: pendingCoupon.id },
+        data: { status: 'active' },
+      });
+    });
+
+    it('should disable a rejected submission', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue(pendingCoupon);
+      mockDb.coupon.update.mockResolvedValue({ ...pendingCoupon, status: 'disabled' });
+
+      await reviewCoupon(pendingCoupon.id, 'reject');
+
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: pendingCoupon.id },
+        data: { status: 'disabled' },
+      });
+    });
+
+    it('should throw NotFoundError when the coupon does not exist', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue(null);
+
+      await expect(reviewCoupon(pendingCoupon.id, 'approve')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the coupon is not pending review', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue({ ...pendingCoupon, status: 'active' });
+
+      await expect(reviewCoupon(pendingCoupon.id, 'reject')).rejects.toThrow(ConflictError);
+      expect(mockDb.coupon.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -11,22 +11,40 @@ jest.unstable_mockModule('../../lib/db.js', () => ({
   db: {
     coupon: {
       findUnique: jest.fn(),
+      findMany: jest.fn(),
       update: jest.fn(),
     },
+    feedbackEvent: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      groupBy: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
   },
 }));
 
 // Import after mocking
 const { recordCouponFeedback, recordBatchCouponFeedback, calculateSuccessRate } =
   await import('../../services/feedback.service.js');
-const { NotFoundError, BadRequestError } = await import('../../lib/errors.js');
+const { NotFoundError, BadRequestError, ConflictError } = await import('../../lib/errors.js');
 const { db } = await import('../../lib/db.js');
+const { metrics, renderMetrics, resetMetrics } = await import('../../lib/metrics.js');
 
 const mockDb = db as jest.Mocked<typeof db>;
 
+const prismaError = (code: string): Error => Object.assign(new Error(`Prisma error ${code}`), { code });
+
+// New install with no earlier feedback: weight 0.5
+const submitter = { installId: '0f8fad5b-d9cb-469f-a165-70867728950e', ip: '203.0.113.7' };
+
 describe('Feedback Service', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    resetMetrics();
+    mockDb.feedbackEvent.groupBy.mockResolvedValue([] as never);
+    mockDb.feedbackEvent.findFirst.mockResolvedValue(null);
   });
 
   describe('recordCouponFeedback', () => {
@@ -36,10 +54,13 @@ describe('Feedback Service', () => {
       description: '20% off',
       successCount: 10,
       failureCount: 2,
+      weightedSuccess: 10,
+      weightedFailure: 2,
       lastSuccessAt: new Date('2024-12-15'),
       lastTestedAt: new Date('2024-12-16'),
       expiryDate: null,
       source: 'admin',
+      status: 'active',
       createdAt: new Date('2024-12-01'),
       updatedAt: new Date('2024-12-01'),
       retailerId: 'retailer-1',
@@ -124,6 +145,180 @@ describe('Feedback Service', () => {
 
       await expect(recordCouponFeedback(mockCoupon.id, true, metadata)).resolves.toBeDefined();
     });
+
+    it('should store a feedback event with the submitted metadata', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue(mockCoupon);
+      mockDb.coupon.update.mockResolvedValue(mockCoupon);
+
+      const metadata = {
+        failureReason: 'expired' as const,
+        domain: 'nike.com',
+        testDurationMs: 1500.7,
+        detectionMethod: 'failure-message' as const,
+        testedAt: '2024-12-16T10:00:00.000Z',
+      };
+
+      await recordCouponFeedback(mockCoupon.id, false, metadata);
+
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: mockCoupon.id },
+        data: expect.objectContaining({
+          feedbackEvents: {
+            create: {
+              success: false,
+              eventId: null,
+              outcome: 'applied',
+              weight: 1,
+              submitterHash: null,
+              sourceHash: null,
+              discountAmount: null,
+              discountPercentage: null,
+              failureReason: 'expired',
+              detectionMethod: 'failure-message',
+              domain: 'nike.com',
+              testDurationMs: 1501,
+              testedAt: new Date('2024-12-16T10:00:00.000Z'),
+            },
+          },
+        }),
+      });
+      expect(
+        metrics.feedbackEvents.get({ result: 'failure', detection_method: 'failure-message', outcome: 'applied' }),
+      ).toBe(1);
+    });
+
+    it('should store a feedback event even without metadata', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue(mockCoupon);
+      mockDb.coupon.update.mockResolvedValue(mockCoupon);
+
+      await recordCouponFeedback(mockCoupon.id, true);
+
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: mockCoupon.id },
+        data: expect.objectContaining({
+          feedbackEvents: {
+            create: expect.objectContaining({
+              success: true,
+              detectionMethod: null,
+              testedAt: null,
+            }),
+          },
+        }),
+      });
+    });
+
+    describe('with an event ID', () => {
+      const eventId = '7d444840-9dc0-41d8-b2c3-b4c7a1b1f0a5';
+
+      it('should store the event ID on the feedback event', async () => {
+        mockDb.feedbackEvent.findUnique.mockResolvedValue(null);
+        mockDb.coupon.findUnique.mockResolvedValue(mockCoupon);
+        mockDb.coupon.update.mockResolvedValue(mockCoupon);
+
+        await recordCouponFeedback(mockCoupon.id, true, undefined, eventId);
+
+        expect(mockDb.feedbackEvent.findUnique).toHaveBeenCalledWith({
+          where: { eventId },
+          select: { coupon: true },
+        });
+        expect(mockDb.coupon.update).toHaveBeenCalledWith({
+          where: { id: mockCoupon.id },
+          data: expect.objectContaining({
+            feedbackEvents: { create: expect.objectContaining({ eventId }) },
+          }),
+        });
+      });
+
+      it('should return the coupon without incrementing when the event was already recorded', async () => {
+        mockDb.feedbackEvent.findUnique.mockResolvedValue({ coupon: mockCoupon } as never);
+
+        const result = await recordCouponFeedback(mockCoupon.id, true, undefined, eventId);
+
+        expect(result).toEqual(mockCoupon);
+        expect(mockDb.coupon.update).not.toHaveBeenCalled();
+        expect(renderMetrics()).not.toContain('coupon_feedback_events_total{');
+      });
+
+      it('should throw ConflictError when the event was recorded for another coupon', async () => {
+        mockDb.feedbackEvent.findUnique.mockResolvedValue({
+          coupon: { ...mockCoupon, id: '123e4567-e89b-12d3-a456-426614174999' },
+        } as never);
+
+        await expect(recordCouponFeedback(mockCoupon.id, true, undefined, eventId)).rejects.toThrow(ConflictError);
+        expect(mockDb.coupon.update).not.toHaveBeenCalled();
+      });
+
+      it('should return the coupon when a concurrent retry recorded the event first', async () => {
+        mockDb.feedbackEvent.findUnique
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce({ coupon: mockCoupon } as never);
+        mockDb.coupon.findUnique.mockResolvedValue(mockCoupon);
+        mockDb.coupon.update.mockRejectedValue(prismaError('P2002'));
+
+        await expect(recordCouponFeedback(mockCoupon.id, true, undefined, eventId)).resolves.toEqual(mockCoupon);
+      });
+    });
+
+    describe('with a submitter', () => {
+      it("should apply the vote with the submitter's trust weight", async () => {
+        mockDb.coupon.findUnique.mockResolvedValue(mockCoupon);
+        mockDb.coupon.update.mockResolvedValue(mockCoupon);
+
+        await recordCouponFeedback(mockCoupon.id, false, undefined, undefined, submitter);
+
+        expect(mockDb.coupon.update).toHaveBeenCalledWith({
+          where: { id: mockCoupon.id },
+          data: expect.objectContaining({
+            failureCount: { increment: 1 },
+            weightedFailure: { increment: 0.5 },
+            feedbackEvents: {
+              create: expect.objectContaining({
+                outcome: 'applied',
+                weight: 0.5,
+                submitterHash: expect.any(String),
+                sourceHash: expect.any(String),
+              }),
+            },
+          }),
+        });
+      });
+
+      it('should only log the vote once the daily cap is reached', async () => {
+        mockDb.coupon.findUnique.mockResolvedValue(mockCoupon);
+        mockDb.feedbackEvent.groupBy.mockResolvedValueOnce([{ couponId: mockCoupon.id, _count: { _all: 3 } }] as never);
+
+        const result = await recordCouponFeedback(mockCoupon.id, true, undefined, undefined, submitter);
+
+        expect(result).toEqual(mockCoupon);
+        expect(mockDb.coupon.update).not.toHaveBeenCalled();
+        expect(mockDb.feedbackEvent.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            success: true,
+            outcome: 'capped',
+            coupon: { connect: { id: mockCoupon.id } },
+          }),
+        });
+        expect(metrics.feedbackEvents.get({ result: 'success', detection_method: 'none', outcome: 'capped' })).toBe(1);
+      });
+
+      it('should hold back a failure burst against a top coupon for review', async () => {
+        mockDb.coupon.findUnique.mockResolvedValue({ ...mockCoupon, weightedSuccess: 95, weightedFailure: 5 });
+        mockDb.feedbackEvent.groupBy
+          .mockResolvedValueOnce([] as never)
+          .mockResolvedValueOnce([] as never)
+          .mockResolvedValueOnce([{ couponId: mockCoupon.id, _count: { _all: 2 } }] as never);
+
+        await recordCouponFeedback(mockCoupon.id, false, undefined, undefined, submitter);
+
+        expect(mockDb.coupon.update).not.toHaveBeenCalled();
+        expect(mockDb.feedbackEvent.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            outcome: 'flagged',
+            review: { create: { reason: 'failure-burst' } },
+          }),
+        });
+      });
+    });
   });
 
   describe('recordBatchCouponFeedback', () => {
@@ -133,10 +328,13 @@ describe('Feedback Service', () => {
       description: '20% off',
       successCount: 10,
       failureCount: 2,
+      weightedSuccess: 10,
+      weightedFailure: 2,
       lastSuccessAt: new Date(),
       lastTestedAt: new Date(),
       expiryDate: null,
       source: 'admin',
+      status: 'active',
       createdAt: new Date(),
       updatedAt: new Date(),
       retailerId: 'retailer-1',
@@ -148,18 +346,39 @@ describe('Feedback Service', () => {
       description: 'Free shipping',
       successCount: 5,
       failureCount: 1,
+      weightedSuccess: 5,
+      weightedFailure: 1,
       lastSuccessAt: new Date(),
       lastTestedAt: new Date(),
       expiryDate: null,
       source: 'admin',
+      status: 'active',
       createdAt: new Date(),
       updatedAt: new Date(),
       retailerId: 'retailer-1',
     };
 
+    /**
+     * Update calls passed to the transaction, keyed by coupon ID
+     */
+    function transactionUpdates(): Map<string, Record<string, unknown>> {
+      const updates = new Map<string, Record<string, unknown>>();
+      for (const [args] of mockDb.coupon.update.mock.calls as unknown as Array<
+        [{ where: { id: string }; data: Record<string, unknown> }]
+      >) {
+        updates.set(args.where.id, args.data);
+      }
+      return updates;
+    }
+
+    beforeEach(() => {
+      // Each update call returns a placeholder; the transaction resolves once they are all collected
+      mockDb.coupon.update.mockReturnValue({} as never);
+      mockDb.$transaction.mockResolvedValue([] as never);
+    });
+
     it('should process all feedback items successfully', async () => {
-      mockDb.coupon.findUnique.mockResolvedValueOnce(mockCoupon1).mockResolvedValueOnce(mockCoupon2);
-      mockDb.coupon.update.mockResolvedValueOnce(mockCoupon1).mockResolvedValueOnce(mockCoupon2);
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }, { id: mockCoupon2.id }] as Coupon[]);
 
       const feedbackItems = [
         { couponId: mockCoupon1.id, success: true },
@@ -170,14 +389,85 @@ describe('Feedback Service', () => {
 
       expect(result.processed).toBe(2);
       expect(result.failed).toBe(0);
-      expect(result.results).toHaveLength(2);
-      expect(result.results[0].success).toBe(true);
-      expect(result.results[1].success).toBe(true);
+      expect(result.results).toEqual([
+        { couponId: mockCoupon1.id, success: true },
+        { couponId: mockCoupon2.id, success: true },
+      ]);
+      expect(metrics.feedbackEvents.get({ result: 'success', detection_method: 'none', outcome: 'applied' })).toBe(1);
+      expect(metrics.feedbackEvents.get({ result: 'failure', detection_method: 'none', outcome: 'applied' })).toBe(1);
+    });
+
+    it('should look up coupons in one query and write them in one transaction', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }, { id: mockCoupon2.id }] as Coupon[]);
+
+      await recordBatchCouponFeedback([
+        { couponId: mockCoupon1.id, success: true },
+        { couponId: mockCoupon2.id, success: false },
+      ]);
+
+      expect(mockDb.coupon.findMany).toHaveBeenCalledTimes(1);
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [mockCoupon1.id, mockCoupon2.id] } },
+        select: { id: true, weightedSuccess: true, weightedFailure: true },
+      });
+      expect(mockDb.coupon.findUnique).not.toHaveBeenCalled();
+      expect(mockDb.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockDb.$transaction.mock.calls[0]?.[0] as unknown).toHaveLength(2);
+
+      const updates = transactionUpdates();
+      expect(updates.get(mockCoupon1.id)).toEqual({
+        lastTestedAt: expect.any(Date),
+        successCount: { increment: 1 },
+        weightedSuccess: { increment: 1 },
+        lastSuccessAt: expect.any(Date),
+        feedbackEvents: { createMany: { data: [expect.objectContaining({ success: true })] } },
+      });
+      expect(updates.get(mockCoupon2.id)).toEqual({
+        lastTestedAt: expect.any(Date),
+        failureCount: { increment: 1 },
+        weightedFailure: { increment: 1 },
+        feedbackEvents: { createMany: { data: [expect.objectContaining({ success: false })] } },
+      });
+    });
+
+    it('should group duplicate coupon IDs into one update in request order', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }] as Coupon[]);
+
+      const result = await recordBatchCouponFeedback([
+        {
+          couponId: mockCoupon1.id,
+          success: true,
+          metadata: {
+            domain: 'nike.com',
+            testDurationMs: 100,
+            detectionMethod: 'price-change',
+            testedAt: '2024-12-16T10:00:00Z',
+          },
+        },
+        { couponId: mockCoupon1.id, success: false },
+        { couponId: mockCoupon1.id, success: true },
+      ]);
+
+      expect(result.processed).toBe(3);
+      expect(result.results.every((r) => r.couponId === mockCoupon1.id && r.success)).toBe(true);
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [mockCoupon1.id] } },
+        select: { id: true, weightedSuccess: true, weightedFailure: true },
+      });
+      expect(mockDb.coupon.update).toHaveBeenCalledTimes(1);
+
+      const data = transactionUpdates().get(mockCoupon1.id)!;
+      expect(data.successCount).toEqual({ increment: 2 });
+      expect(data.failureCount).toEqual({ increment: 1 });
+      expect((data.feedbackEvents as { createMany: { data: Array<{ success: boolean }> } }).createMany.data).toEqual([
+        expect.objectContaining({ success: true, domain: 'nike.com' }),
+        expect.objectContaining({ success: false, domain: null }),
+        expect.objectContaining({ success: true, domain: null }),
+      ]);
     });
 
     it('should handle partial failures gracefully', async () => {
-      mockDb.coupon.findUnique.mockResolvedValueOnce(mockCoupon1).mockResolvedValueOnce(null); // Second coupon not found
-      mockDb.coupon.update.mockResolvedValueOnce(mockCoupon1);
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }] as Coupon[]); // Second coupon not found
 
       const feedbackItems = [
         { couponId: mockCoupon1.id, success: true },
@@ -189,13 +479,34 @@ describe('Feedback Service', () => {
       expect(result.processed).toBe(1);
       expect(result.failed).toBe(1);
       expect(result.results).toHaveLength(2);
-      expect(result.results[0].success).toBe(true);
-      expect(result.results[1].success).toBe(false);
-      expect(result.results[1].error).toContain('not found');
+      expect(result.results[0]!.success).toBe(true);
+      expect(result.results[1]!.success).toBe(false);
+      expect(result.results[1]!.error).toContain('not found');
+      expect(transactionUpdates().has('123e4567-e89b-12d3-a456-426614174999')).toBe(false);
     });
 
-    it('should handle all failures', async () => {
-      mockDb.coupon.findUnique.mockResolvedValue(null);
+    it('should report malformed coupon IDs without querying them', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }] as Coupon[]);
+
+      const result = await recordBatchCouponFeedback([
+        { couponId: 'not-a-uuid', success: true },
+        { couponId: mockCoupon1.id, success: true },
+      ]);
+
+      expect(result.results[0]).toEqual({
+        couponId: 'not-a-uuid',
+        success: false,
+        error: 'Invalid coupon ID format. Must be a valid UUID.',
+      });
+      expect(result.results[1]!.success).toBe(true);
+      expect(mockDb.coupon.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [mockCoupon1.id] } },
+        select: { id: true, weightedSuccess: true, weightedFailure: true },
+      });
+    });
+
+    it('should handle all failures without writing anything', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([]);
 
       const feedbackItems = [
         { couponId: '123e4567-e89b-12d3-a456-426614174001', success: true },
@@ -207,8 +518,111 @@ describe('Feedback Service', () => {
       expect(result.processed).toBe(0);
       expect(result.failed).toBe(2);
       expect(result.results).toHaveLength(2);
-      expect(result.results[0].success).toBe(false);
-      expect(result.results[1].success).toBe(false);
+      expect(result.results[0]!.success).toBe(false);
+      expect(result.results[1]!.success).toBe(false);
+      expect(mockDb.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should skip the lookup when no coupon ID is well-formed', async () => {
+      const result = await recordBatchCouponFeedback([{ couponId: 'bad', success: true }]);
+
+      expect(result.failed).toBe(1);
+      expect(mockDb.coupon.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not count items whose event ID was already recorded', async () => {
+      const recordedEventId = '7d444840-9dc0-41d8-b2c3-b4c7a1b1f0a5';
+      const newEventId = 'c4b3a2d1-1e2f-4a5b-8c7d-9e0f1a2b3c4d';
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }, { id: mockCoupon2.id }] as Coupon[]);
+      mockDb.feedbackEvent.findMany.mockResolvedValue([
+        { eventId: recordedEventId, couponId: mockCoupon1.id },
+      ] as never);
+
+      const result = await recordBatchCouponFeedback([
+        { couponId: mockCoupon1.id, success: true, eventId: recordedEventId },
+        { couponId: mockCoupon2.id, success: false, eventId: newEventId },
+        { couponId: mockCoupon2.id, success: false, eventId: newEventId },
+      ]);
+
+      expect(result.processed).toBe(3);
+      expect(result.failed).toBe(0);
+      expect(mockDb.feedbackEvent.findMany).toHaveBeenCalledWith({
+        where: { eventId: { in: [recordedEventId, newEventId] } },
+        select: { eventId: true, couponId: true },
+      });
+
+      const updates = transactionUpdates();
+      expect(updates.has(mockCoupon1.id)).toBe(false);
+      expect(updates.get(mockCoupon2.id)).toEqual(
+        expect.objectContaining({
+          failureCount: { increment: 1 },
+          feedbackEvents: { createMany: { data: [expect.objectContaining({ eventId: newEventId })] } },
+        }),
+      );
+    });
+
+    it('should report an event ID reused for another coupon', async () => {
+      const eventId = '7d444840-9dc0-41d8-b2c3-b4c7a1b1f0a5';
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }, { id: mockCoupon2.id }] as Coupon[]);
+      mockDb.feedbackEvent.findMany.mockResolvedValue([]);
+
+      const result = await recordBatchCouponFeedback([
+        { couponId: mockCoupon1.id, success: true, eventId },
+        { couponId: mockCoupon2.id, success: true, eventId },
+      ]);
+
+      expect(result.results[0]!.success).toBe(true);
+      expect(result.results[1]).toEqual({
+        couponId: mockCoupon2.id,
+        success: false,
+        error: 'Feedback event ID was already used for another coupon',
+      });
+      expect(transactionUpdates().has(mockCoupon2.id)).toBe(false);
+    });
+
+    it('should throw ConflictError if a concurrent request recorded an event ID first', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }] as Coupon[]);
+      mockDb.feedbackEvent.findMany.mockResolvedValue([]);
+      mockDb.$transaction.mockRejectedValue(prismaError('P2002') as never);
+
+      await expect(
+        recordBatchCouponFeedback([
+          { couponId: mockCoupon1.id, success: true, eventId: '7d444840-9dc0-41d8-b2c3-b4c7a1b1f0a5' },
+        ]),
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should apply votes up to the daily cap and log the rest', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([
+        { id: mockCoupon1.id, weightedSuccess: 10, weightedFailure: 2 },
+      ] as Coupon[]);
+
+      const result = await recordBatchCouponFeedback(
+        [1, 2, 3, 4].map(() => ({ couponId: mockCoupon1.id, success: true })),
+        submitter,
+      );
+
+      expect(result.processed).toBe(4);
+      expect(transactionUpdates().get(mockCoupon1.id)).toEqual(
+        expect.objectContaining({
+          successCount: { increment: 3 },
+          weightedSuccess: { increment: 1.5 },
+        }),
+      );
+      expect(mockDb.feedbackEvent.create).toHaveBeenCalledTimes(1);
+      expect(mockDb.feedbackEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ outcome: 'capped', coupon: { connect: { id: mockCoupon1.id } } }),
+      });
+      expect(mockDb.$transaction.mock.calls[0]?.[0] as unknown).toHaveLength(2);
+    });
+
+    it('should fail the whole batch if the transaction fails', async () => {
+      mockDb.coupon.findMany.mockResolvedValue([{ id: mockCoupon1.id }] as Coupon[]);
+      mockDb.$transaction.mockRejectedValue(new Error('Connection lost') as never);
+
+      await expect(recordBatchCouponFeedback([{ couponId: mockCoupon1.id, success: true }])).rejects.toThrow(
+        'Connection lost',
+      );
     });
   });
 
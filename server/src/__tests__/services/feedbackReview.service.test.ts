@@ -0,0 +1,191 @@
+/**
+ * Unit tests for Feedback Review Service
+ * Tests the flagged feedback moderation queue with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Coupon, FeedbackEvent, FeedbackReview } from '../../generated/prisma/index.js';
+
+// Mock the db module before importing the service
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    $transaction: jest.fn(),
+    feedbackReview: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    feedbackEvent: {
+      update: jest.fn(),
+    },
+    coupon: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Import after mocking
+const { listPendingFeedbackReviews, resolveFeedbackReview } = await import('../../services/feedbackReview.service.js');
+const { NotFoundError, ConflictError } = await import('../../lib/errors.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('Feedback Review Service', () => {
+  const coupon: Coupon = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    code: 'SAVE20',
+    description: '20% off',
+    successCount: 10,
+    failureCount: 1,
+    weightedSuccess: 9,
+    weightedFailure: 1,
+    lastSuccessAt: new Date('2024-12-03T00:00:00Z'),
+    lastTestedAt: new Date('2024-12-03T00:00:00Z'),
+    expiryDate: null,
+    source: 'admin',
+    status: 'active',
+    createdAt: new Date('2024-12-01'),
+    updatedAt: new Date('2024-12-01'),
+    retailerId: 'retailer-1',
+  };
+
+  const event: FeedbackEvent = {
+    id: '223e4567-e89b-12d3-a456-426614174000',
+    success: false,
+    eventId: null,
+    discountAmount: null,
+    discountPercentage: null,
+    failureReason: null,
+    detectionMethod: null,
+    domain: null,
+    testDurationMs: null,
+    testedAt: null,
+    outcome: 'flagged',
+    weight: 0.5,
+    submitterHash: 'submitter',
+    sourceHash: 'source',
+    createdAt: new Date('2024-12-05T00:00:00Z'),
+    couponId: coupon.id,
+  };
+
+  const review: FeedbackReview = {
+    id: '323e4567-e89b-12d3-a456-426614174000',
+    reason: 'failure-burst',
+    status: 'pending',
+    createdAt: new Date('2024-12-05T00:00:00Z'),
+    resolvedAt: null,
+    feedbackEventId: event.id,
+  };
+
+  /**
+   * Review as loaded inside the resolve transaction
+   */
+  function loadedReview(overrides: Partial<FeedbackReview> = {}, eventOverrides: Partial<FeedbackEvent> = {}) {
+    return { ...review, ...overrides, feedbackEvent: { ...event, ...eventOverrides, coupon } };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Run interactive transactions against the mocked client
+    mockDb.$transaction.mockImplementation((async (fn: (tx: typeof db) => Promise<unknown>) => fn(db)) as never);
+  });
+
+  describe('listPendingFeedbackReviews', () => {
+    it('should list pending reviews oldest first with pagination', async () => {
+      mockDb.feedbackReview.findMany.mockResolvedValue([review] as never);
+      mockDb.feedbackReview.count.mockResolvedValue(21);
+
+      const result = await listPendingFeedbackReviews({ page: 2, pageSize: 20 });
+
+      expect(result).toEqual({ reviews: [review], total: 21 });
+      expect(mockDb.feedbackReview.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'pending' },
+          orderBy: { createdAt: 'asc' },
+          skip: 20,
+          take: 20,
+        }),
+      );
+      expect(mockDb.feedbackReview.count).toHaveBeenCalledWith({ where: { status: 'pending' } });
+    });
+  });
+
+  describe('resolveFeedbackReview', () => {
+    it('should count an applied failure at its screened weight', async () => {
+      mockDb.feedbackReview.findUnique.mockResolvedValue(loadedReview() as never);
+      mockDb.feedbackReview.updateMany.mockResolvedValue({ count: 1 });
+      mockDb.feedbackReview.findUniqueOrThrow.mockResolvedValue({ ...review, status: 'applied' } as never);
+
+      const result = await resolveFeedbackReview(review.id, 'apply');
+
+      expect(result.status).toBe('applied');
+      expect(mockDb.feedbackReview.updateMany).toHaveBeenCalledWith({
+        where: { id: review.id, status: 'pending' },
+        data: { status: 'applied', resolvedAt: expect.any(Date) },
+      });
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: coupon.id },
+        data: {
+          lastTestedAt: event.createdAt,
+          failureCount: { increment: 1 },
+          weightedFailure: { increment: 0.5 },
+        },
+      });
+      expect(mockDb.feedbackEvent.update).toHaveBeenCalledWith({
+        where: { id: event.id },
+        data: { outcome: 'applied' },
+      });
+    });
+
+    it('should not move lastSuccessAt back when applying an older success', async () => {
+      mockDb.feedbackReview.findUnique.mockResolvedValue(
+        loadedReview({}, { success: true, createdAt: new Date('2024-12-02T00:00:00Z') }) as never,
+      );
+      mockDb.feedbackReview.updateMany.mockResolvedValue({ count: 1 });
+
+      await resolveFeedbackReview(review.id, 'apply');
+
+      expect(mockDb.coupon.update).toHaveBeenCalledWith({
+        where: { id: coupon.id },
+        data: {
+          lastTestedAt: coupon.lastTestedAt,
+          successCount: { increment: 1 },
+          weightedSuccess: { increment: 0.5 },
+          lastSuccessAt: coupon.lastSuccessAt,
+        },
+      });
+    });
+
+    it('should leave the counters alone when dismissing', async () => {
+      mockDb.feedbackReview.findUnique.mockResolvedValue(loadedReview() as never);
+      mockDb.feedbackReview.updateMany.mockResolvedValue({ count: 1 });
+
+      await resolveFeedbackReview(review.id, 'dismiss');
+
+      expect(mockDb.feedbackReview.updateMany).toHaveBeenCalledWith({
+        where: { id: review.id, status: 'pending' },
+        data: { status: 'dismissed', resolvedAt: expect.any(Date) },
+      });
+      expect(mockDb.coupon.update).not.toHaveBeenCalled();
+      expect(mockDb.feedbackEvent.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when the review does not exist', async () => {
+      mockDb.feedbackReview.findUnique.mockResolvedValue(null);
+
+      await expect(resolveFeedbackReview(review.id, 'apply')).rejects.toThrow(NotFoundError);
+      expect(mockDb.feedbackReview.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError without counting the vote when the review was already resolved', async () => {
+      mockDb.feedbackReview.findUnique.mockResolvedValue(loadedReview({ status: 'applied' }) as never);
+      mockDb.feedbackReview.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(resolveFeedbackReview(review.id, 'apply')).rejects.toThrow(ConflictError);
+      expect(mockDb.coupon.update).not.toHaveBeenCalled();
+    });
+  });
+});
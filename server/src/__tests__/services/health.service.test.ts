@@ -0,0 +1,180 @@
+/**
+ * Unit tests for Health Service
+ * Tests the readiness probes against a mocked database
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import type { Database } from '../../lib/db.js';
+
+// Real file system, with a readdir that can be made to fail
+const readdir = jest.fn(fs.readdir);
+jest.unstable_mockModule('node:fs/promises', () => ({ ...fs, readdir }));
+jest.unstable_mockModule('../../lib/logger.js', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const { checkDatabase, checkMigrations, checkReadiness, getAppVersion } =
+  await import('../../services/health.service.js');
+const { logger } = await import('../../lib/logger.js');
+
+const mockDb = { $queryRaw: jest.fn() } as unknown as jest.Mocked<Database>;
+
+// Migrations shipped in prisma/migrations
+const migrationNames = (
+  await fs.readdir(new URL('../../../prisma/migrations/', import.meta.url), { withFileTypes: true })
+)
+  .filter((entry) => entry.isDirectory())
+  .map((entry) => entry.name)
+  .sort();
+
+const appliedRow = (name: string) => ({
+  migration_name: name,
+  finished_at: new Date('2026-01-01T00:00:00Z'),
+  rolled_back_at: null,
+});
+
+/**
+ * Answer SELECT 1 and the migration history query separately
+ */
+function mockQueries(options: { ping?: () => Promise<unknown>; migrations?: () => Promise<unknown> }) {
+  mockDb.$queryRaw.mockImplementation(((strings: TemplateStringsArray) => {
+    const isMigrationQuery = strings.join('').includes('_prisma_migrations');
+    const answer = isMigrationQuery ? options.migrations : options.ping;
+    return answer ? answer() : Promise.resolve([]);
+  }) as never);
+}
+
+describe('Health Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('checkDatabase', () => {
+    it('should report the database as up when SELECT 1 succeeds', async () => {
+      mockQueries({ ping: async () => [{ '?column?': 1 }] });
+
+      const result = await checkDatabase(mockDb);
+
+      expect(result.status).toBe('up');
+      expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(result).not.toHaveProperty('error');
+    });
+
+    it('should report the database as down without exposing the error message', async () => {
+      const error = new Error('connect ECONNREFUSED 10.0.0.5:5432');
+      mockQueries({ ping: async () => Promise.reject(error) });
+
+      const result = await checkDatabase(mockDb);
+
+      expect(result).toMatchObject({ status: 'down', error: 'Database query failed' });
+      expect(logger.error).toHaveBeenCalledWith('readiness probe failed', { probe: 'database', error });
+    });
+
+    it('should report the database as down when the query does not answer in time', async () => {
+      mockQueries({ ping: () => new Promise(() => {}) });
+
+      const result = await checkDatabase(mockDb, 20);
+
+      expect(result).toMatchObject({ status: 'down', error: 'Database check timed out after 20ms' });
+    });
+  });
+
+  describe('checkMigrations', () => {
+    // Runs first, before a successful read caches the local migrations
+    it('should read the local migrations again after a failed read', async () => {
+      readdir.mockRejectedValueOnce(new Error('EMFILE: too many open files'));
+      mockQueries({ migrations: async () => migrationNames.map(appliedRow) });
+
+      const failed = await checkMigrations(mockDb);
+      const retried = await checkMigrations(mockDb);
+
+      expect(failed).toMatchObject({ status: 'unknown', error: 'Migration history could not be read' });
+      expect(retried.status).toBe('up-to-date');
+      expect(readdir).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report up-to-date when every local migration has been applied', async () => {
+      mockQueries({ migrations: async () => migrationNames.map(appliedRow) });
+
+      const result = await checkMigrations(mockDb);
+
+      expect(result).toEqual({
+        status: 'up-to-date',
+        applied: migrationNames.length,
+        pending: [],
+        failed: [],
+      });
+    });
+
+    it('should list migrations that have not been applied as pending', async () => {
+      const [latest] = migrationNames.slice(-1);
+      mockQueries({ migrations: async () => migrationNames.slice(0, -1).map(appliedRow) });
+
+      const result = await checkMigrations(mockDb);
+
+      expect(result).toMatchObject({ status: 'pending', pending: [latest], failed: [] });
+    });
+
+    it('should report unfinished migrations as failed and ignore rolled-back attempts', async () => {
+      const [latest] = migrationNames.slice(-1);
+      mockQueries({
+        migrations: async () => [
+          ...migrationNames.slice(0, -1).map(appliedRow),
+          { migration_name: latest, finished_at: null, rolled_back_at: new Date('2026-01-01T00:00:00Z') },
+          { migration_name: latest, finished_at: null, rolled_back_at: null },
+        ],
+      });
+
+      const result = await checkMigrations(mockDb);
+
+      expect(result).toMatchObject({ status: 'failed', pending: [], failed: [latest] });
+    });
+
+    it('should report unknown when the migration history cannot be read', async () => {
+      mockQueries({
+        migrations: async () => Promise.reject(new Error('relation "_prisma_migrations" does not exist')),
+      });
+
+      const result = await checkMigrations(mockDb);
+
+      expect(result).toMatchObject({ status: 'unknown', error: 'Migration history could not be read' });
+      expect(logger.error).toHaveBeenCalledWith('readiness probe failed', {
+        probe: 'migrations',
+        error: new Error('relation "_prisma_migrations" does not exist'),
+      });
+    });
+  });
+
+  describe('checkReadiness', () => {
+    it('should be ready with the app version when all checks pass', async () => {
+      mockQueries({ ping: async () => [], migrations: async () => migrationNames.map(appliedRow) });
+
+      const report = await checkReadiness(mockDb);
+
+      expect(report.status).toBe('ready');
+      expect(report.version).toBe(await getAppVersion());
+      expect(report.version).toMatch(/^\d+\.\d+\.\d+/);
+      expect(report.checks.database.status).toBe('up');
+      expect(report.checks.migrations.status).toBe('up-to-date');
+    });
+
+    it('should not be ready when the database is down', async () => {
+      mockQueries({ ping: async () => Promise.reject(new Error('timeout')), migrations: async () => [] });
+
+      const report = await checkReadiness(mockDb);
+
+      expect(report.status).toBe('not-ready');
+      expect(report.checks.database.status).toBe('down');
+    });
+
+    it('should not be ready while migrations are pending', async () => {
+      mockQueries({ ping: async () => [], migrations: async () => [] });
+
+      const report = await checkReadiness(mockDb);
+
+      expect(report.status).toBe('not-ready');
+      expect(report.checks.migrations.pending).toEqual(migrationNames);
+    });
+  });
+});
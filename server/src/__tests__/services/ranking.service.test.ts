@@ -0,0 +1,157 @@
+/**
+ * Unit tests for Ranking Service
+ * Tests confidence scoring and coupon ordering
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { Coupon } from '../../generated/prisma/index.js';
+import { wilsonLowerBound, recencyWeight, calculateCouponScore, rankCoupons } from '../../services/ranking.service.js';
+
+const now = new Date('2025-01-15T00:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Build a coupon whose weighted tallies match its counters unless overridden
+ */
+function buildCoupon(overrides: Partial<Coupon>): Coupon {
+  return {
+    id: 'coupon',
+    code: 'CODE',
+    description: 'Test coupon',
+    successCount: 0,
+    failureCount: 0,
+    weightedSuccess: overrides.successCount ?? 0,
+    weightedFailure: overrides.failureCount ?? 0,
+    lastSuccessAt: null,
+    lastTestedAt: null,
+    expiryDate: null,
+    source: 'admin',
+    status: 'active',
+    createdAt: new Date('2024-12-01'),
+    updatedAt: new Date('2024-12-01'),
+    retailerId: 'retailer-1',
+    ...overrides,
+  };
+}
+
+describe('Ranking Service', () => {
+  describe('wilsonLowerBound', () => {
+    it('should return 0 when there is no data', () => {
+      expect(wilsonLowerBound(0, 0)).toBe(0);
+    });
+
+    it('should stay below the observed success rate', () => {
+      expect(wilsonLowerBound(1, 0)).toBeLessThan(1);
+      expect(wilsonLowerBound(80, 20)).toBeLessThan(0.8);
+    });
+
+    it('should rank a small perfect record above a large poor one', () => {
+      expect(wilsonLowerBound(1, 0)).toBeGreaterThan(wilsonLowerBound(2, 198));
+    });
+
+    it('should grow with sample size at the same success rate', () => {
+      expect(wilsonLowerBound(95, 5)).toBeGreaterThan(wilsonLowerBound(19, 1));
+    });
+  });
+
+  describe('recencyWeight', () => {
+    it('should return 1 for a coupon that has never been tested', () => {
+      expect(recencyWeight({ lastSuccessAt: null, lastTestedAt: null }, now)).toBe(1);
+    });
+
+    it('should halve after each half-life', () => {
+      expect(recencyWeight({ lastSuccessAt: daysAgo(30), lastTestedAt: null }, now)).toBeCloseTo(0.5);
+      expect(recencyWeight({ lastSuccessAt: daysAgo(60), lastTestedAt: null }, now)).toBeCloseTo(0.25);
+    });
+
+    it('should prefer lastSuccessAt over lastTestedAt', () => {
+      expect(recencyWeight({ lastSuccessAt: daysAgo(30), lastTestedAt: daysAgo(0) }, now)).toBeCloseTo(0.5);
+    });
+
+    it('should fall back to lastTestedAt when the coupon never worked', () => {
+      expect(recencyWeight({ lastSuccessAt: null, lastTestedAt: daysAgo(30) }, now)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('calculateCouponScore', () => {
+    it('should return 0 for an untested coupon', () => {
+      expect(calculateCouponScore(buildCoupon({}), now)).toBe(0);
+    });
+
+    it('should rank a recent success above an old popular coupon', () => {
+      const old = buildCoupon({ successCount: 500, failureCount: 10, lastSuccessAt: daysAgo(730) });
+      const recent = buildCoupon({ successCount: 5, failureCount: 0, lastSuccessAt: daysAgo(1) });
+
+      expect(calculateCouponScore(recent, now)).toBeGreaterThan(calculateCouponScore(old, now));
+    });
+
+    it('should round to 4 decimal places', () => {
+      const score = calculateCouponScore(buildCoupon({ successCount: 7, failureCount: 3, lastSuccessAt: now }), now);
+
+      expect(score).toBe(Math.round(score * 10000) / 10000);
+    });
+  });
+
+  describe('rankCoupons', () => {
+    const coupons = [
+      buildCoupon({
+        id: 'many-failures',
+        code: 'MANY',
+        successCount: 2,
+        failureCount: 198,
+        lastSuccessAt: daysAgo(1),
+        createdAt: new Date('2024-12-01'),
+      }),
+      buildCoupon({
+        id: 'perfect',
+        code: 'PERFECT',
+        successCount: 1,
+        failureCount: 0,
+        lastSuccessAt: daysAgo(2),
+        createdAt: new Date('2024-12-03'),
+      }),
+      buildCoupon({
+        id: 'untested',
+        code: 'UNTESTED',
+        createdAt: new Date('2024-12-02'),
+      }),
+    ];
+
+    it('should order by score by default and attach the score', () => {
+      const result = rankCoupons(coupons, undefined, now);
+
+      expect(result.map((c) => c.id)).toEqual(['perfect', 'many-failures', 'untested']);
+      expect(result[0]?.score).toBe(calculateCouponScore(coupons[1]!, now));
+    });
+
+    it('should order by success count', () => {
+      const result = rankCoupons(coupons, 'success-count', now);
+
+      expect(result.map((c) => c.id)).toEqual(['many-failures', 'perfect', 'untested']);
+    });
+
+    it('should order by most recent success', () => {
+      const result = rankCoupons(coupons, 'recent', now);
+
+      expect(result.map((c) => c.id)).toEqual(['many-failures', 'perfect', 'untested']);
+    });
+
+    it('should order by creation date', () => {
+      const result = rankCoupons(coupons, 'newest', now);
+
+      expect(result.map((c) => c.id)).toEqual(['perfect', 'untested', 'many-failures']);
+    });
+
+    it('should break ties by code and not mutate the input', () => {
+      const tied = [buildCoupon({ id: 'b', code: 'BBB' }), buildCoupon({ id: 'a', code: 'AAA' })];
+
+      const result = rankCoupons(tied, 'score', now);
+
+      expect(result.map((c) => c.id)).toEqual(['a', 'b']);
+      expect(tied.map((c) => c.id)).toEqual(['b', 'a']);
+    });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Unit tests for Retailer Service
+ * Tests admin retailer management with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Retailer, RetailerDomain } from '../../generated/prisma/index.js';
+
+// Mock the db module before importing the service
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    retailer: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    retailerDomain: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+// Import after mocking
+const {
+  createRetailer,
+  listRetailers,
+  updateRetailer,
+  deleteRetailer,
+  findRetailerByHostname,
+  findRetailersByHostnames,
+  listRetailerDomains,
+  createRetailerDomain,
+  deleteRetailerDomain,
+} = await import('../../services/retailer.service.js');
+const { NotFoundError, ConflictError } = await import('../../lib/errors.js');
+const { Prisma } = await import('../../generated/prisma/index.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+/**
+ * Create an error shaped like a Prisma known request error
+ */
+function prismaError(code: string): Error {
+  return Object.assign(new Error(`Prisma error ${code}`), { code });
+}
+
+describe('Retailer Service', () => {
+  const mockRetailer: Retailer = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    domain: 'nike.com',
+    name: 'Nike',
+    logoUrl: 'https://logo.clearbit.com/nike.com',
+    homeUrl: 'https://www.nike.com',
+    isActive: true,
+    selectorConfig: { input: '#promoCode', submit: 'button[type="submit"]' },
+    createdAt: new Date('2024-12-01'),
+    updatedAt: new Date('2024-12-01'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createRetailer', () => {
+    it('should create a retailer with defaults for optional fields', async () => {
+      mockDb.retailer.create.mockResolvedValue(mockRetailer);
+
+      const result = await createRetailer({ domain: 'nike.com', name: 'Nike' });
+
+      expect(result).toEqual(mockRetailer);
+      expect(mockDb.retailer.create).toHaveBeenCalledWith({
+        data: {
+          domain: 'nike.com',
+          name: 'Nike',
+          logoUrl: null,
+          homeUrl: null,
+          isActive: true,
+          selectorConfig: Prisma.DbNull,
+        },
+      });
+    });
+
+    it('should store the selector config when provided', async () => {
+      mockDb.retailer.create.mockResolvedValue(mockRetailer);
+
+      await createRetailer({ domain: 'nike.com', name: 'Nike', selectorConfig: { input: '#promoCode' } });
+
+      expect(mockDb.retailer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          selectorConfig: { input: '#promoCode' },
+        }),
+      });
+    });
+
+    it('should throw ConflictError when the domain already exists', async () => {
+      mockDb.retailer.create.mockRejectedValue(prismaError('P2002'));
+
+      await expect(createRetailer({ domain: 'nike.com', name: 'Nike' })).rejects.toThrow(ConflictError);
+    });
+
+    it('should rethrow unexpected errors', async () => {
+      mockDb.retailer.create.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(createRetailer({ domain: 'nike.com', name: 'Nike' })).rejects.toThrow('Connection lost');
+    });
+  });
+
+  describe('listRetailers', () => {
+    it('should return a page of retailers with the total count', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([mockRetailer]);
+      mockDb.retailer.count.mockResolvedValue(41);
+
+      const result = await listRetailers({ page: 3, pageSize: 20 });
+
+      expect(result).toEqual({ retailers: [mockRetailer], total: 41 });
+      expect(mockDb.retailer.findMany).toHaveBeenCalledWith({
+        where: {},
+        orderBy: { name: 'asc' },
+        skip: 40,
+        take: 20,
+      });
+    });
+
+    it('should search by name or domain and filter by active status', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([]);
+      mockDb.retailer.count.mockResolvedValue(0);
+
+      await listRetailers({ page: 1, pageSize: 10, search: 'nik', isActive: false });
+
+      const expectedWhere = {
+        OR: [
+          { name: { contains: 'nik', mode: 'insensitive' as const } },
+          { domain: { contains: 'nik', mode: 'insensitive' as const } },
+        ],
+        isActive: false,
+      };
+      expect(mockDb.retailer.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: expectedWhere }));
+      expect(mockDb.retailer.count).toHaveBeenCalledWith({ where: expectedWhere });
+    });
+  });
+
+  describe('updateRetailer', () => {
+    it('should only write the provided fields', async () => {
+      mockDb.retailer.update.mockResolvedValue({ ...mockRetailer, isActive: false });
+
+      const result = await updateRetailer(mockRetailer.id, { isActive: false, logoUrl: null });
+
+      expect(result.isActive).toBe(false);
+      expect(mockDb.retailer.update).toHaveBeenCalledWith({
+        where: { id: mockRetailer.id },
+        data: { isActive: false, logoUrl: null },
+      });
+    });
+
+    it('should clear the selector config when set to null', async () => {
+      mockDb.retailer.update.mockResolvedValue({ ...mockRetailer, selectorConfig: null });
+
+      await updateRetailer(mockRetailer.id, { selectorConfig: null });
+
+      expect(mockDb.retailer.update).toHaveBeenCalledWith({
+        where: { id: mockRetailer.id },
+        data: { selectorConfig: Prisma.DbNull },
+      });
+    });
+
+    it('should throw NotFoundError when the retailer does not exist', async () => {
+      mockDb.retailer.update.mockRejectedValue(prismaError('P2025'));
+
+      await expect(updateRetailer(mockRetailer.id, { name: 'Nike Store' })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the new domain is taken', async () => {
+      mockDb.retailer.update.mockRejectedValue(prismaError('P2002'));
+
+      await expect(updateRetailer(mockRetailer.id, { domain: 'adidas.com' })).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('deleteRetailer', () => {
+    it('should delete the retailer', async () => {
+      mockDb.retailer.delete.mockResolvedValue(mockRetailer);
+
+      await deleteRetailer(mockRetailer.id);
+
+      expect(mockDb.retailer.delete).toHaveBeenCalledWith({ where: { id: mockRetailer.id } });
+    });
+
+    it('should throw NotFoundError when the retailer does not exist', async () => {
+      mockDb.retailer.delete.mockRejectedValue(prismaError('P2025'));
+
+      await expect(deleteRetailer(mockRetailer.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('findRetailerByHostname', () => {
+    const withAliases = (retailer: Retailer, ...aliases: string[]) => ({
+      ...retailer,
+      domains: aliases.map((domain) => ({ domain })),
+    });
+
+    it('should look up the hostname and its registrable domain in domains and aliases', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([]);
+
+      const result = await findRetailerByHostname('m.nike.co.uk');
+
+      expect(result).toBeNull();
+      expect(mockDb.retailer.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { domain: { in: ['m.nike.co.uk', 'nike.co.uk'] } },
+            { domains: { some: { domain: { in: ['m.nike.co.uk', 'nike.co.uk'] } } } },
+          ],
+        },
+        include: {
+          domains: {
+            where: { domain: { in: ['m.nike.co.uk', 'nike.co.uk'] } },
+            select: { domain: true },
+          },
+        },
+      });
+    });
+
+    it('should return the retailer without its matched aliases', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([withAliases(mockRetailer, 'nike.co.uk')]);
+
+      const result = await findRetailerByHostname('nike.co.uk');
+
+      expect(result).toEqual(mockRetailer);
+    });
+
+    it('should prefer a full hostname match over the registrable domain', async () => {
+      const storeRetailer = { ...mockRetailer, id: 'store', domain: 'store.nike.com' };
+      mockDb.retailer.findMany.mockResolvedValue([withAliases(mockRetailer), withAliases(storeRetailer)]);
+
+      const result = await findRetailerByHostname('store.nike.com');
+
+      expect(result?.id).toBe('store');
+    });
+
+    it('should prefer a primary domain over an alias for the same hostname', async () => {
+      const aliasOwner = { ...mockRetailer, id: 'alias-owner', domain: 'nikestore.com' };
+      mockDb.retailer.findMany.mockResolvedValue([withAliases(aliasOwner, 'nike.com'), withAliases(mockRetailer)]);
+
+      const result = await findRetailerByHostname('nike.com');
+
+      expect(result?.id).toBe(mockRetailer.id);
+    });
+  });
+
+  describe('findRetailersByHostnames', () => {
+    const withAliases = (retailer: Retailer, ...aliases: string[]) => ({
+      ...retailer,
+      domains: aliases.map((domain) => ({ domain })),
+    });
+
+    it('should look up all hostnames in a single query', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([]);
+
+      await findRetailersByHostnames(['store.nike.com', 'nike.com', 'adidas.de']);
+
+      expect(mockDb.retailer.findMany).toHaveBeenCalledTimes(1);
+      expect(mockDb.retailer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            OR: [
+              { domain: { in: ['store.nike.com', 'nike.com', 'adidas.de'] } },
+              { domains: { some: { domain: { in: ['store.nike.com', 'nike.com', 'adidas.de'] } } } },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should resolve each hostname to its own best match', async () => {
+      const adidas = { ...mockRetailer, id: 'adidas', domain: 'adidas.com' };
+      mockDb.retailer.findMany.mockResolvedValue([withAliases(mockRetailer), withAliases(adidas, 'adidas.de')]);
+
+      const results = await findRetailersByHostnames(['store.nike.com', 'adidas.de', 'puma.com']);
+
+      expect(results.get('store.nike.com')).toEqual(mockRetailer);
+      expect(results.get('adidas.de')?.id).toBe('adidas');
+      expect(results.get('puma.com')).toBeNull();
+    });
+
+    it('should not query the database without hostnames', async () => {
+      const results = await findRetailersByHostnames([]);
+
+      expect(results.size).toBe(0);
+      expect(mockDb.retailer.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retailer domain aliases', () => {
+    const alias: RetailerDomain = {
+      id: '223e4567-e89b-12d3-a456-426614174000',
+      domain: 'nike.co.uk',
+      region: 'GB',
+      createdAt: new Date('2024-12-01'),
+      retailerId: mockRetailer.id,
+    };
+
+    it('should list aliases ordered by domain', async () => {
+      mockDb.retailerDomain.findMany.mockResolvedValue([alias]);
+
+      const result = await listRetailerDomains(mockRetailer.id);
+
+      expect(result).toEqual([alias]);
+      expect(mockDb.retailerDomain.findMany).toHaveBeenCalledWith({
+        where: { retailerId: mockRetailer.id },
+        orderBy: { domain: 'asc' },
+      });
+    });
+
+    it('should create an alias', async () => {
+      mockDb.retailer.findUnique.mockResolvedValue(null);
+      mockDb.retailerDomain.create.mockResolvedValue(alias);
+
+      const result = await createRetailerDomain(mockRetailer.id, { domain: 'nike.co.uk', region: 'GB' });
+
+      expect(result).toEqual(alias);
+      expect(mockDb.retailerDomain.create).toHaveBeenCalledWith({
+        data: { domain: 'nike.co.uk', region: 'GB', retailerId: mockRetailer.id },
+      });
+    });
+
+    it("should reject an alias that is another retailer's primary domain", async () => {
+      mockDb.retailer.findUnique.mockResolvedValue({ ...mockRetailer, name: 'Adidas', domain: 'adidas.com' });
+
+      await expect(createRetailerDomain(mockRetailer.id, { domain: 'adidas.com' })).rejects.toThrow(ConflictError);
+      expect(mockDb.retailerDomain.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError when the alias already exists', async () => {
+      mockDb.retailer.findUnique.mockResolvedValue(null);
+      mockDb.retailerDomain.create.mockRejectedValue(prismaError('P2002'));
+
+      await expect(createRetailerDomain(mockRetailer.id, { domain: 'nike.co.uk' })).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError when the retailer does not exist', async () => {
+      mockDb.retailer.findUnique.mockResolvedValue(null);
+      mockDb.retailerDomain.create.mockRejectedValue(prismaError('P2003'));
+
+      await expect(createRetailerDomain(mockRetailer.id, { domain: 'nike.co.uk' })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should delete an alias scoped to its retailer', async () => {
+      mockDb.retailerDomain.deleteMany.mockResolvedValue({ count: 1 });
+
+      await deleteRetailerDomain(mockRetailer.id, alias.id);
+
+      expect(mockDb.retailerDomain.deleteMany).toHaveBeenCalledWith({
+        where: { id: alias.id, retailerId: mockRetailer.id },
+      });
+    });
+
+    it('should throw NotFoundError when deleting a missing alias', async () => {
+      mockDb.retailerDomain.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(deleteRetailerDomain(mockRetailer.id, alias.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for Retailer Search Service
+ * Tests directory filters, cursor pagination, and coupon summaries with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    retailer: {
+      findMany: jest.fn(),
+    },
+    feedbackEvent: {
+      groupBy: jest.fn(),
+    },
+  },
+}));
+
+const { searchRetailers } = await import('../../services/retailerSearch.service.js');
+const { BadRequestError } = await import('../../lib/errors.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+
+function retailerRow(name: string, id: string, couponIds: string[] = []) {
+  const domain = `${name.toLowerCase()}.com`;
+  return {
+    id,
+    domain,
+    name,
+    logoUrl: null,
+    homeUrl: `https://${domain}`,
+    coupons: couponIds.map((couponId) => ({ id: couponId })),
+  };
+}
+
+/**
+ * The where clause of the last directory query
+ */
+function lastWhereConditions(): unknown[] {
+  const [args] = mockDb.retailer.findMany.mock.calls.at(-1) as [{ where: { AND: unknown[] } }];
+  return args.where.AND;
+}
+
+describe('RetailerSearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.feedbackEvent.groupBy.mockResolvedValue([] as never);
+  });
+
+  it('should list active retailers by name with a cursor when more remain', async () => {
+    mockDb.retailer.findMany.mockResolvedValue([
+      retailerRow('Adidas', 'a1'),
+      retailerRow('Nike', 'n1'),
+      retailerRow('Puma', 'p1'),
+    ] as never);
+
+    const page = await searchRetailers({ limit: 2 }, NOW);
+
+    expect(mockDb.retailer.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { AND: [{ isActive: true }] },
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        take: 3,
+      }),
+    );
+    expect(page.retailers.map((retailer) => retailer.name)).toEqual(['Adidas', 'Nike']);
+    expect(page.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('should continue after the cursor position', async () => {
+    mockDb.retailer.findMany.mockResolvedValueOnce([retailerRow('Adidas', 'a1'), retailerRow('Nike', 'n1')] as never);
+    const { nextCursor } = await searchRetailers({ limit: 1 }, NOW);
+
+    mockDb.retailer.findMany.mockResolvedValueOnce([retailerRow('Nike', 'n1')] as never);
+    const page = await searchRetailers({ limit: 1, cursor: nextCursor! }, NOW);
+
+    expect(lastWhereConditions()).toContainEqual({
+      OR: [{ name: { gt: 'Adidas' } }, { name: 'Adidas', id: { gt: 'a1' } }],
+    });
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(searchRetailers({ limit: 20, cursor: 'not-a-cursor' }, NOW)).rejects.toThrow(BadRequestError);
+    await expect(
+      searchRetailers({ limit: 20, cursor: Buffer.from('{"name":"Nike"}').toString('base64url') }, NOW),
+    ).rejects.toThrow('Invalid cursor');
+    expect(mockDb.retailer.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should match the search against the name, domain and aliases by prefix', async () => {
+    mockDb.retailer.findMany.mockResolvedValue([] as never);
+
+    await searchRetailers({ limit: 20, search: 'WWW.Nik' }, NOW);
+
+    expect(lastWhereConditions()).toContainEqual({
+      OR: [
+        { name: { startsWith: 'WWW.Nik', mode: 'insensitive' } },
+        { domain: { startsWith: 'nik' } },
+        { domains: { some: { domain: { startsWith: 'nik' } } } },
+      ],
+    });
+  });
+
+  it('should filter on whether a retailer has served coupons', async () => {
+    mockDb.retailer.findMany.mockResolvedValue([] as never);
+
+    await searchRetailers({ limit: 20, hasCoupons: true }, NOW);
+    expect(lastWhereConditions()).toContainEqual({
+      coupons: { some: expect.objectContaining({ status: expect.anything() }) },
+    });
+
+    await searchRetailers({ limit: 20, hasCoupons: false }, NOW);
+    expect(lastWhereConditions()).toContainEqual({ NOT: { coupons: { some: expect.anything() } } });
+  });
+
+  it('should count served coupons and pick the best discount reported for them', async () => {
+    mockDb.retailer.findMany.mockResolvedValue([
+      retailerRow('Nike', 'n1', ['c1', 'c2']),
+      retailerRow('Puma', 'p1', ['c3']),
+      retailerRow('Reebok', 'r1'),
+    ] as never);
+    mockDb.feedbackEvent.groupBy.mockResolvedValue([
+      { couponId: 'c1', _max: { discountAmount: 12.5, discountPercentage: 25 } },
+      { couponId: 'c2', _max: { discountAmount: 30, discountPercentage: null } },
+      { couponId: 'c3', _max: { discountAmount: null, discountPercentage: null } },
+    ] as never);
+
+    const { retailers } = await searchRetailers({ limit: 20 }, NOW);
+
+    expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          couponId: { in: ['c1', 'c2', 'c3'] },
+          outcome: 'applied',
+          success: true,
+          createdAt: { gte: new Date('2025-04-01T12:00:00Z') },
+        },
+      }),
+    );
+    expect(retailers).toEqual([
+      expect.objectContaining({ name: 'Nike', activeCouponCount: 2, bestDiscount: { amount: 30, percentage: 25 } }),
+      expect.objectContaining({ name: 'Puma', activeCouponCount: 1, bestDiscount: null }),
+      expect.objectContaining({ name: 'Reebok', activeCouponCount: 0, bestDiscount: null }),
+    ]);
+    expect(retailers[0]).not.toHaveProperty('coupons');
+  });
+
+  it('should not query feedback when no listed retailer has coupons', async () => {
+    mockDb.retailer.findMany.mockResolvedValue([retailerRow('Reebok', 'r1')] as never);
+
+    await searchRetailers({ limit: 20 }, NOW);
+
+    expect(mockDb.feedbackEvent.groupBy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Unit tests for Stats Service
+ * Tests coupon and retailer statistics with mocked Prisma client
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.unstable_mockModule('../../lib/db.js', () => ({
+  db: {
+    $queryRaw: jest.fn(),
+    retailer: {
+      findMany: jest.fn(),
+    },
+    coupon: {
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    feedbackEvent: {
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  },
+}));
+
+const { getCouponStats, getRetailerStats } = await import('../../services/stats.service.js');
+const { NotFoundError } = await import('../../lib/errors.js');
+const { db } = await import('../../lib/db.js');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+const COUPON_ID = '3f9c2a4e-8b1d-4c6f-9e2a-7d5b1c3e8f40';
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+type StatsEvent = {
+  success: boolean;
+  failureReason: string | null;
+  detectionMethod: string | null;
+  createdAt: Date;
+};
+
+function feedbackEvent(success: boolean, createdAt: Date, metadata: Partial<StatsEvent> = {}): StatsEvent {
+  return { success, failureReason: null, detectionMethod: null, createdAt, ...metadata };
+}
+
+/**
+ * Answer feedbackEvent.groupBy the way the database would for these applied events
+ */
+function mockFeedbackGroups(events: StatsEvent[]): void {
+  mockDb.feedbackEvent.groupBy.mockImplementation((async (args: {
+    by: Array<keyof StatsEvent>;
+    where: { success?: boolean; createdAt: { gte: Date } };
+  }) => {
+    const key = args.by[0]!;
+    const counts = new Map<unknown, number>();
+    for (const event of events) {
+      if (event.createdAt < args.where.createdAt.gte) continue;
+      if (args.where.success !== undefined && event.success !== args.where.success) continue;
+      counts.set(event[key], (counts.get(event[key]) ?? 0) + 1);
+    }
+    return [...counts].map(([value, count]) => ({ [key]: value, _count: { _all: count } }));
+  }) as never);
+}
+
+/**
+ * Row returned by the discount median query
+ */
+function mockDiscountMedians(medianAmount: number | null, medianPercentage: number | null, sampleSize: number): void {
+  mockDb.$queryRaw.mockResolvedValue([{ medianAmount, medianPercentage, sampleSize }] as never);
+}
+
+describe('StatsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getCouponStats', () => {
+    beforeEach(() => {
+      mockDb.coupon.findUnique.mockResolvedValue({ id: COUPON_ID, code: 'SAVE20', status: 'active' } as never);
+      mockDiscountMedians(null, null, 0);
+    });
+
+    it('should report success rates per window from applied feedback only', async () => {
+      mockFeedbackGroups([
+        feedbackEvent(true, daysAgo(1)),
+        feedbackEvent(false, daysAgo(3)),
+        feedbackEvent(true, daysAgo(10)),
+        feedbackEvent(true, daysAgo(45)),
+        feedbackEvent(false, daysAgo(80)),
+      ]);
+
+      const stats = await getCouponStats(COUPON_ID, NOW);
+
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledWith({
+        by: ['success'],
+        where: { couponId: COUPON_ID, outcome: 'applied', createdAt: { gte: daysAgo(7) } },
+        _count: { _all: true },
+      });
+      expect(stats.windows).toEqual([
+        { days: 7, successCount: 1, failureCount: 1, successRate: 50 },
+        { days: 30, successCount: 2, failureCount: 1, successRate: 67 },
+        { days: 90, successCount: 3, failureCount: 2, successRate: 60 },
+      ]);
+    });
+
+    it('should take discount medians from the database, rounded to two decimals', async () => {
+      mockFeedbackGroups([]);
+      mockDiscountMedians(18.456, 15, 3);
+
+      const stats = await getCouponStats(COUPON_ID, NOW);
+
+      expect(stats.discount).toEqual({ medianAmount: 18.46, medianPercentage: 15, sampleSize: 3 });
+      const [sql, ...values] = mockDb.$queryRaw.mock.calls[0]! as unknown as [TemplateStringsArray, ...unknown[]];
+      expect(sql.join('?')).toContain('percentile_cont(0.5)');
+      expect(sql.join('?')).toContain('"outcome" = \'applied\'');
+      expect(values).toEqual([COUPON_ID, daysAgo(90)]);
+    });
+
+    it('should break down failure reasons and detection methods, most frequent first', async () => {
+      mockDb.coupon.findUnique.mockResolvedValue({ id: COUPON_ID, code: 'SAVE20', status: 'stale' } as never);
+      mockFeedbackGroups([
+        feedbackEvent(false, daysAgo(1), { failureReason: 'minimum-not-met', detectionMethod: 'price-change' }),
+        feedbackEvent(false, daysAgo(2), { failureReason: 'expired', detectionMethod: 'timeout' }),
+        feedbackEvent(false, daysAgo(3), { failureReason: 'expired', detectionMethod: 'timeout' }),
+        feedbackEvent(false, daysAgo(4)),
+        feedbackEvent(true, daysAgo(5), { detectionMethod: 'success-message' }),
+        feedbackEvent(false, daysAgo(120), { failureReason: 'invalid' }),
+      ]);
+
+      const stats = await getCouponStats(COUPON_ID, NOW);
+
+      expect(stats.failureReasons).toEqual([
+        { value: 'expired', count: 2 },
+        { value: 'minimum-not-met', count: 1 },
+        { value: 'unspecified', count: 1 },
+      ]);
+      expect(stats.detectionMethods).toEqual([
+        { value: 'timeout', count: 2 },
+        { value: 'price-change', count: 1 },
+        { value: 'success-message', count: 1 },
+        { value: 'unspecified', count: 1 },
+      ]);
+    });
+
+    it('should report empty stats for a coupon without feedback', async () => {
+      mockFeedbackGroups([]);
+
+      const stats = await getCouponStats(COUPON_ID, NOW);
+
+      expect(stats.windows.map((window) => window.successRate)).toEqual([0, 0, 0]);
+      expect(stats.discount).toEqual({ medianAmount: null, medianPercentage: null, sampleSize: 0 });
+      expect(stats.failureReasons).toEqual([]);
+    });
+
+    it('should throw NotFoundError for unknown and pending-review coupons', async () => {
+      mockDb.coupon.findUnique.mockResolvedValueOnce(null);
+      await expect(getCouponStats(COUPON_ID, NOW)).rejects.toThrow(NotFoundError);
+
+      mockDb.coupon.findUnique.mockResolvedValueOnce({
+        id: COUPON_ID,
+        code: 'NEW10',
+        status: 'pending-review',
+      } as never);
+      await expect(getCouponStats(COUPON_ID, NOW)).rejects.toThrow(`Coupon not found with ID: ${COUPON_ID}`);
+
+      expect(mockDb.feedbackEvent.groupBy).not.toHaveBeenCalled();
+      expect(mockDb.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRetailerStats', () => {
+    const retailer = { id: 'retailer-1', domain: 'nike.com', name: 'Nike', isActive: true, domains: [] };
+
+    it('should aggregate test counts and savings across the retailer coupons', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([retailer] as never);
+      mockDb.coupon.count.mockResolvedValue(4);
+      mockDb.coupon.aggregate.mockResolvedValue({ _sum: { successCount: 150, failureCount: 50 } } as never);
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([
+        { success: true, _count: { _all: 9 } },
+        { success: false, _count: { _all: 3 } },
+      ] as never);
+      mockDb.feedbackEvent.aggregate
+        .mockResolvedValueOnce({
+          _sum: { discountAmount: 1234.567 },
+          _avg: { discountAmount: 12.34567 },
+          _count: { _all: 100 },
+        } as never)
+        .mockResolvedValueOnce({ _avg: { discountPercentage: 15.5 } } as never);
+
+      const stats = await getRetailerStats('nike.com', NOW);
+
+      expect(stats).toEqual({
+        retailer: { id: 'retailer-1', domain: 'nike.com', name: 'Nike' },
+        activeCoupons: 4,
+        tests: { successCount: 150, failureCount: 50, successRate: 75 },
+        recentTests: { days: 30, successCount: 9, failureCount: 3, successRate: 75 },
+        savings: { totalAmount: 1234.57, averageAmount: 12.35, averagePercentage: 15.5, reportCount: 100 },
+      });
+      expect(mockDb.feedbackEvent.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { coupon: { retailerId: 'retailer-1' }, outcome: 'applied', createdAt: { gte: daysAgo(30) } },
+        }),
+      );
+    });
+
+    it('should average amounts and percentages over the tests that reported each', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([retailer] as never);
+      mockDb.coupon.count.mockResolvedValue(1);
+      mockDb.coupon.aggregate.mockResolvedValue({ _sum: { successCount: 2, failureCount: 0 } } as never);
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([] as never);
+      mockDb.feedbackEvent.aggregate
+        .mockResolvedValueOnce({
+          _sum: { discountAmount: null },
+          _avg: { discountAmount: null },
+          _count: { _all: 0 },
+        } as never)
+        .mockResolvedValueOnce({ _avg: { discountPercentage: 20 } } as never);
+
+      const stats = await getRetailerStats('nike.com', NOW);
+
+      const appliedSuccess = { coupon: { retailerId: 'retailer-1' }, outcome: 'applied', success: true };
+      expect(mockDb.feedbackEvent.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ...appliedSuccess, discountAmount: { not: null } } }),
+      );
+      expect(mockDb.feedbackEvent.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ...appliedSuccess, discountPercentage: { not: null } } }),
+      );
+      expect(stats.savings).toEqual({ totalAmount: 0, averageAmount: null, averagePercentage: 20, reportCount: 0 });
+    });
+
+    it('should report zeros for a retailer without coupons or feedback', async () => {
+      mockDb.retailer.findMany.mockResolvedValue([retailer] as never);
+      mockDb.coupon.count.mockResolvedValue(0);
+      mockDb.coupon.aggregate.mockResolvedValue({ _sum: { successCount: null, failureCount: null } } as never);
+      mockDb.feedbackEvent.groupBy.mockResolvedValue([] as never);
+      mockDb.feedbackEvent.aggregate
+        .mockResolvedValueOnce({
+          _sum: { discountAmount: null },
+          _avg: { discountAmount: null },
+          _count: { _all: 0 },
+        } as never)
+        .mockResolvedValueOnce({ _avg: { discountPercentage: null } } as never);
+
+      const stats = await getRetailerStats('nike.com', NOW);
+
+      expect(stats.tests).toEqual({ successCount: 0, failureCount: 0, successRate: 0 });
+      expect(stats.recentTests).toEqual({ days: 30, successCount: 0, failureCount: 0, successRate: 0 });
+      expect(stats.savings).toEqual({ totalAmount: 0, averageAmount: null, averagePercentage: null, reportCount: 0 });
+    });
+
+    it('should throw NotFoundError for unknown and inactive retailers', async () => {
+      mockDb.retailer.findMany.mockResolvedValueOnce([] as never);
+      await expect(getRetailerStats('unknown.com', NOW)).rejects.toThrow('No retailer found for domain: unknown.com');
+
+      mockDb.retailer.findMany.mockResolvedValueOnce([{ ...retailer, isActive: false }] as never);
+      await expect(getRetailerStats('nike.com', NOW)).rejects.toThrow('Retailer is not active: nike.com');
+
+      expect(mockDb.coupon.aggregate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Unit tests for Feedback Validation Schemas
+ * Tests metadata bounds that keep bad input from reaching the database
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { feedbackRequestSchema } from '../../validators/feedback.validator.js';
+
+/**
+ * Feedback request with the given test duration
+ */
+function withDuration(testDurationMs: number) {
+  return {
+    success: true,
+    metadata: {
+      domain: 'example.com',
+      testDurationMs,
+      detectionMethod: 'price-change',
+      testedAt: '2024-12-05T12:00:00.000Z',
+    },
+  };
+}
+
+describe('Feedback Validation Schemas', () => {
+  describe('testDurationMs', () => {
+    it('should accept whole milliseconds up to 10 minutes', () => {
+      expect(feedbackRequestSchema.safeParse(withDuration(0)).success).toBe(true);
+      expect(feedbackRequestSchema.safeParse(withDuration(600_000)).success).toBe(true);
+    });
+
+    it('should reject durations over 10 minutes, including ones that overflow the Int column', () => {
+      expect(feedbackRequestSchema.safeParse(withDuration(600_001)).success).toBe(false);
+      expect(feedbackRequestSchema.safeParse(withDuration(2_147_483_648)).success).toBe(false);
+    });
+
+    it('should reject negative and fractional durations', () => {
+      expect(feedbackRequestSchema.safeParse(withDuration(-1)).success).toBe(false);
+      expect(feedbackRequestSchema.safeParse(withDuration(1500.7)).success).toBe(false);
+    });
+  });
+});
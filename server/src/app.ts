@@ -0,0 +1,96 @@
+/**
+ * Express Application
+ * Builds the API without listening or starting background jobs, so tests and the server entry point share it
+ */
+
+import express from 'express';
+import type { Express } from 'express';
+import couponRoutes from './routes/coupon.routes.js';
+import retailerRoutes from './routes/retailer.routes.js';
+import adminRoutes from './routes/admin.routes.js';
+import docsRoutes from './routes/docs.routes.js';
+import { createHealthRoutes } from './routes/health.routes.js';
+import { createMetricsRoutes } from './routes/metrics.routes.js';
+import { createErrorHandler, notFoundHandler } from './middleware/error.middleware.js';
+import { authenticate } from './middleware/auth.middleware.js';
+import { apiKeyRateLimiter } from './middleware/rateLimiter.js';
+import { requestId, requestLogger } from './middleware/request.middleware.js';
+import { cors } from './middleware/cors.middleware.js';
+import type { Config } from './lib/config.js';
+import type { ProbeDatabase } from './services/health.service.js';
+
+/**
+ * Settings the app is built with (see lib/config.ts)
+ */
+export type AppConfig = Pick<Config, 'env' | 'cors' | 'metricsToken' | 'features'>;
+
+/**
+ * Feedback routes, which any browser origin may call
+ * The extension sends feedback from its content scripts, and those requests carry the shopping page's origin
+ */
+const FEEDBACK_PATHS = [/^\/api\/v1\/coupons\/feedback\/batch\/?$/, /^\/api\/v1\/coupons\/[^/]+\/feedback\/?$/];
+
+/**
+ * Dependencies the app is built with
+ * Only the readiness probe's client is injected: the API routes and services always query through
+ * the shared client in lib/db.ts (mock that module to replace it), so the entry point passes that same client here
+ */
+export interface AppDependencies {
+  readinessDb: ProbeDatabase;
+  config: AppConfig;
+}
+
+/**
+ * Create the Express app with all middleware and routes
+ * @param deps - Client for the readiness probe and settings
+ * @returns Express app, ready to listen
+ */
+export function createApp({ readinessDb, config }: AppDependencies): Express {
+  const app = express();
+
+  // Middleware
+  // Tag and log every request first so body parsing errors carry a request ID too
+  app.use(requestId);
+  app.use(requestLogger);
+
+  // CORS: the admin API only answers the admin dashboard, everything else also answers the extension
+  // (the admin policy runs first and rejects extension origins before the general one can allow them).
+  // Without CORS_EXTENSION_ORIGINS any extension may call the public API, so a default deploy works with the extension.
+  // Feedback is open to every origin because content scripts send it with the page's origin
+  app.use('/api/v1/admin', cors(config.cors.adminOrigins));
+  app.use(
+    cors([...config.cors.extensionOrigins, ...config.cors.adminOrigins], {
+      anyExtension: config.cors.extensionOrigins.length === 0,
+      anyOriginPaths: FEEDBACK_PATHS,
+    }),
+  );
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  // Liveness and readiness probes
+  app.use(createHealthRoutes(readinessDb));
+
+  // Prometheus metrics (set METRICS_TOKEN to require a bearer token)
+  if (config.features.metrics) {
+    app.use(createMetricsRoutes(config.metricsToken));
+  }
+
+  // API Routes
+  // Resolve API keys (if sent) before any route so handlers can check roles;
+  // requests with a key are limited per IP first so unknown keys cannot flood the key lookup
+  app.use('/api/v1', apiKeyRateLimiter, authenticate);
+  app.use('/api/v1', couponRoutes);
+  app.use('/api/v1', retailerRoutes);
+  app.use('/api/v1/admin', adminRoutes);
+  if (config.features.apiDocs) {
+    app.use('/api/v1', docsRoutes);
+  }
+
+  // 404 handler for undefined routes
+  app.use(notFoundHandler);
+
+  // Global error handler (must be last)
+  app.use(createErrorHandler(config.env));
+
+  return app;
+}
@@ -4,17 +4,53 @@
  */
 
 import type { Request, Response, NextFunction } from 'express';
-import type { ZodIssue } from 'zod';
-import { getCouponsByDomain } from '../services/coupon.service.js';
+import {
+  getCouponsByDomain,
+  computeCouponSetHash,
+  lookupCouponSets,
+  createCoupon,
+  updateCoupon,
+  expireCoupon,
+  deleteCoupon,
+} from '../services/coupon.service.js';
+import { importCoupons } from '../services/couponImport.service.js';
+import { createCouponSubmission, listPendingCoupons, reviewCoupon } from '../services/couponSubmission.service.js';
 import { recordCouponFeedback, recordBatchCouponFeedback, calculateSuccessRate } from '../services/feedback.service.js';
+import type { FeedbackSubmitter } from '../services/feedbackTrust.service.js';
+import { listPendingFeedbackReviews, resolveFeedbackReview } from '../services/feedbackReview.service.js';
 import { BadRequestError } from '../lib/errors.js';
-import { feedbackRequestSchema, batchFeedbackRequestSchema } from '../validators/feedback.validator.js';
+import { parseWithSchema } from '../lib/validation.js';
+import { parseCsvRecords } from '../lib/csv.js';
+import {
+  feedbackRequestSchema,
+  batchFeedbackRequestSchema,
+  installIdSchema,
+  feedbackReviewIdSchema,
+  listFeedbackReviewsQuerySchema,
+} from '../validators/feedback.validator.js';
+import {
+  couponIdSchema,
+  couponListQuerySchema,
+  createCouponSchema,
+  updateCouponSchema,
+  importCouponsSchema,
+  submitCouponSchema,
+  lookupCouponsSchema,
+  listPendingCouponsQuerySchema,
+} from '../validators/coupon.validator.js';
+
+/**
+ * Cache policy for coupon lists: shared caches may keep them briefly,
+ * then must revalidate with the ETag
+ */
+const COUPONS_CACHE_CONTROL = 'public, max-age=60, must-revalidate';
 
 /**
  * GET /api/v1/coupons
- * Retrieve coupons for a specific retailer domain
+ * Retrieve coupons for a specific retailer domain, with the retailer's display info and selectors
+ * Responds 304 Not Modified when If-None-Match matches the current coupon set
  *
- * @param req - Express request object with query param 'domain'
+ * @param req - Express request object with query params 'domain' and optional 'sort' and 'includeExpired', and optional If-None-Match header
  * @param res - Express response object
  * @param next - Express next function for error handling
  */
@@ -22,17 +58,30 @@ export async function getCoupons(req: Request, res: Response, next: NextFunction
   try {
     const { domain } = req.query;
 
-    // Validate query parameter
+    // Validate query parameters
     if (!domain || typeof domain !== 'string') {
       throw new BadRequestError('Query parameter "domain" is required and must be a string');
     }
+    const { sort, includeExpired } = parseWithSchema(couponListQuerySchema, req.query, 'query parameters');
 
     // Call service layer
-    const coupons = await getCouponsByDomain(domain);
+    const couponSet = await getCouponsByDomain(domain, { sort, includeExpired });
+
+    res.set({
+      ETag: `"${computeCouponSetHash(couponSet)}"`,
+      'Cache-Control': COUPONS_CACHE_CONTROL,
+    });
+
+    // req.fresh compares If-None-Match with the ETag set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
 
     // Return successful response
     res.status(200).json({
-      data: coupons,
+      data: couponSet.coupons,
+      retailer: couponSet.retailer,
     });
   } catch (error) {
     // Pass error to error handling middleware
@@ -40,11 +89,71 @@ export async function getCoupons(req: Request, res: Response, next: NextFunction
   }
 }
 
+/**
+ * POST /api/v1/coupons/lookup
+ * Check several domains in one request: whether a retailer serves each one, how many coupons it has,
+ * and the hash of its coupon list (matching the GET /coupons ETag) so clients can reuse cached lists
+ *
+ * @param req - Express request object with domains (array of hostnames or URLs) in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function lookupCoupons(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { domains } = parseWithSchema(lookupCouponsSchema, req.body);
+
+    const results = await lookupCouponSets(domains);
+
+    res.status(200).json({ data: results });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/coupons
+ * Submit a coupon from the community; it is held for moderation
+ *
+ * @param req - Express request object with submission (domain, code, description, expiryDate?) in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function submitCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const input = parseWithSchema(submitCouponSchema, req.body);
+
+    const coupon = await createCouponSubmission(input);
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon submitted for review',
+      data: {
+        id: coupon.id,
+        code: coupon.code,
+        description: coupon.description,
+        expiryDate: coupon.expiryDate,
+        status: coupon.status,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Identify who sent a feedback request
+ * A missing or malformed X-Install-Id header is treated as anonymous
+ */
+function getFeedbackSubmitter(req: Request): FeedbackSubmitter {
+  const installId = installIdSchema.safeParse(req.get('X-Install-Id'));
+  return { installId: installId.success ? installId.data : null, ip: req.ip ?? 'unknown' };
+}
+
 /**
  * POST /api/v1/coupons/:id/feedback
- * Record feedback for a specific coupon
+ * Record feedback for a specific coupon, weighted by the submitter's trust
  *
- * @param req - Express request object with coupon ID in params and feedback data in body
+ * @param req - Express request object with coupon ID in params, feedback data in body, and optional X-Install-Id header
  * @param res - Express response object
  * @param next - Express next function for error handling
  */
@@ -57,22 +166,12 @@ export async function submitCouponFeedback(req: Request, res: Response, next: Ne
     }
 
     // Validate request body using Zod
-    const validationResult = feedbackRequestSchema.safeParse(req.body);
-    if (!validationResult.success) {
-      const errorMessages = validationResult.error.issues
-        .map((e: ZodIssue) => {
-          const path = e.path.length > 0 ? `${e.path.join('.')}: ` : '';
-          return `${path}${e.message}`;
-        })
-        .join(', ');
-      throw new BadRequestError(`Invalid request body: ${errorMessages}`);
-    }
-    const validatedData = validationResult.data;
+    const validatedData = parseWithSchema(feedbackRequestSchema, req.body);
 
-    const { success, metadata } = validatedData;
+    const { success, metadata, eventId } = validatedData;
 
-    // Record feedback in database
-    const updatedCoupon = await recordCouponFeedback(couponId, success, metadata);
+    // Record feedback in database (a replayed eventId returns the coupon without counting it again)
+    const updatedCoupon = await recordCouponFeedback(couponId, success, metadata, eventId, getFeedbackSubmitter(req));
 
     // Calculate success rate
     const successRate = calculateSuccessRate(updatedCoupon.successCount, updatedCoupon.failureCount);
@@ -98,31 +197,21 @@ export async function submitCouponFeedback(req: Request, res: Response, next: Ne
 
 /**
  * POST /api/v1/coupons/feedback/batch
- * Record feedback for multiple coupons in a single request
+ * Record feedback for multiple coupons in a single request, weighted by the submitter's trust
  *
- * @param req - Express request object with array of feedback items in body
+ * @param req - Express request object with array of feedback items in body and optional X-Install-Id header
  * @param res - Express response object
  * @param next - Express next function for error handling
  */
 export async function submitBatchCouponFeedback(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     // Validate request body using Zod
-    const validationResult = batchFeedbackRequestSchema.safeParse(req.body);
-    if (!validationResult.success) {
-      const errorMessages = validationResult.error.issues
-        .map((e: ZodIssue) => {
-          const path = e.path.length > 0 ? `${e.path.join('.')}: ` : '';
-          return `${path}${e.message}`;
-        })
-        .join(', ');
-      throw new BadRequestError(`Invalid request body: ${errorMessages}`);
-    }
-    const validatedData = validationResult.data;
+    const validatedData = parseWithSchema(batchFeedbackRequestSchema, req.body);
 
     const { feedback } = validatedData;
 
     // Record batch feedback in database
-    const result = await recordBatchCouponFeedback(feedback.map((f) => ({ ...f, metadata: f.metadata! })));
+    const result = await recordBatchCouponFeedback(feedback, getFeedbackSubmitter(req));
 
     // Return successful response
     res.status(200).json({
@@ -137,3 +226,260 @@ export async function submitBatchCouponFeedback(req: Request, res: Response, nex
     next(error);
   }
 }
+
+/**
+ * POST /api/v1/admin/coupons
+ * Create a coupon for a retailer
+ *
+ * @param req - Express request object with coupon data in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function addCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const input = parseWithSchema(createCouponSchema, req.body);
+
+    const coupon = await createCoupon(input);
+
+    res.status(201).json({
+      data: coupon,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/admin/coupons/:id
+ * Update a coupon's code, description, expiry date, source, or status
+ *
+ * @param req - Express request object with coupon ID in params and fields to update in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function editCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(couponIdSchema, req.params.id, 'coupon ID');
+    const input = parseWithSchema(updateCouponSchema, req.body);
+
+    const coupon = await updateCoupon(id, input);
+
+    res.status(200).json({
+      data: coupon,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/coupons/:id/expire
+ * Expire a coupon immediately
+ *
+ * @param req - Express request object with coupon ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function markCouponExpired(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(couponIdSchema, req.params.id, 'coupon ID');
+
+    const coupon = await expireCoupon(id);
+
+    res.status(200).json({
+      data: coupon,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/coupons/:id
+ * Delete a coupon
+ *
+ * @param req - Express request object with coupon ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function removeCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(couponIdSchema, req.params.id, 'coupon ID');
+
+    await deleteCoupon(id);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/coupons/import
+ * Bulk import coupons from a CSV file (text/csv) or a JSON array
+ *
+ * @param req - Express request object with CSV text or a JSON array of rows in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function bulkImportCoupons(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    // CSV bodies are parsed as text by the route; everything else is JSON
+    const rawRows: unknown = req.is('text/csv') && typeof req.body === 'string' ? parseCsvRecords(req.body) : req.body;
+    const rows = parseWithSchema(importCouponsSchema, rawRows);
+
+    const report = await importCoupons(rows);
+
+    res.status(200).json({
+      success: true,
+      message: `Imported ${report.created + report.updated} coupons, ${report.rejected} rejected`,
+      ...report,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/admin/coupons/pending
+ * List community submissions waiting for moderation, oldest first
+ *
+ * @param req - Express request object with optional query params 'page', 'pageSize'
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function getPendingCoupons(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const query = parseWithSchema(listPendingCouponsQuerySchema, req.query, 'query parameters');
+
+    const { coupons, total } = await listPendingCoupons(query);
+
+    res.status(200).json({
+      data: coupons,
+      pagination: {
+        page: query.page,
+        pageSize: query.pageSize,
+        total,
+        totalPages: Math.ceil(total / query.pageSize),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/coupons/:id/approve
+ * Approve a pending submission so it is served to clients
+ *
+ * @param req - Express request object with coupon ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function approveCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(couponIdSchema, req.params.id, 'coupon ID');
+
+    const coupon = await reviewCoupon(id, 'approve');
+
+    res.status(200).json({
+      data: coupon,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/coupons/:id/reject
+ * Reject a pending submission; the coupon is disabled and kept so the code cannot be resubmitted
+ *
+ * @param req - Express request object with coupon ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function rejectCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(couponIdSchema, req.params.id, 'coupon ID');
+
+    const coupon = await reviewCoupon(id, 'reject');
+
+    res.status(200).json({
+      data: coupon,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/admin/feedback/reviews
+ * List flagged feedback votes waiting for a moderator, oldest first
+ *
+ * @param req - Express request object with optional 'page' and 'pageSize' query params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function getFeedbackReviews(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const query = parseWithSchema(listFeedbackReviewsQuerySchema, req.query, 'query parameters');
+
+    const { reviews, total } = await listPendingFeedbackReviews(query);
+
+    res.status(200).json({
+      data: reviews,
+      pagination: {
+        page: query.page,
+        pageSize: query.pageSize,
+        total,
+        totalPages: Math.ceil(total / query.pageSize),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/feedback/reviews/:id/apply
+ * Count a flagged vote in its coupon's success/failure counters
+ *
+ * @param req - Express request object with review ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function applyFeedbackReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(feedbackReviewIdSchema, req.params.id, 'feedback review ID');
+
+    const review = await resolveFeedbackReview(id, 'apply');
+
+    res.status(200).json({
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/feedback/reviews/:id/dismiss
+ * Dismiss a flagged vote; it stays logged but is never counted
+ *
+ * @param req - Express request object with review ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function dismissFeedbackReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(feedbackReviewIdSchema, req.params.id, 'feedback review ID');
+
+    const review = await resolveFeedbackReview(id, 'dismiss');
+
+    res.status(200).json({
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
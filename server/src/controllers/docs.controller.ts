@@ -0,0 +1,33 @@
+/**
+ * Docs Controller
+ * Serves the generated API description
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import couponRoutes from '../routes/coupon.routes.js';
+import retailerRoutes from '../routes/retailer.routes.js';
+import { buildOpenApiDocument } from '../lib/openapi.js';
+
+// Routes never change at runtime, so the document is built on first request and reused
+let openApiDocument: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+/**
+ * GET /api/v1/openapi.json
+ * Return the OpenAPI 3.1 document for the public coupon and retailer endpoints
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export function getOpenApiDocument(req: Request, res: Response, next: NextFunction): void {
+  try {
+    openApiDocument ??= buildOpenApiDocument([
+      { basePath: '/api/v1', router: couponRoutes },
+      { basePath: '/api/v1', router: retailerRoutes },
+    ]);
+
+    res.status(200).json(openApiDocument);
+  } catch (error) {
+    next(error);
+  }
+}
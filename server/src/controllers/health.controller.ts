@@ -0,0 +1,39 @@
+/**
+ * Health Controller
+ * Liveness and readiness endpoints for load balancers and orchestrators
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { checkReadiness } from '../services/health.service.js';
+import type { ProbeDatabase } from '../services/health.service.js';
+
+/**
+ * GET /health/live (also GET /health)
+ * Report that the process is up and serving requests; does not touch any dependency
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ */
+export function getLiveness(req: Request, res: Response): void {
+  res.status(200).json({ status: 'ok' });
+}
+
+/**
+ * GET /health/ready
+ * Check the database and migration status, and report the app version
+ * Responds 503 with the failing checks when the API cannot serve traffic
+ *
+ * @param db - Database client to probe
+ * @returns Express handler
+ */
+export function getReadiness(db: ProbeDatabase): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const report = await checkReadiness(db);
+
+      res.status(report.status === 'ready' ? 200 : 503).json(report);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Metrics Controller
+ * Serves the in-process metrics to Prometheus
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { renderMetrics } from '../lib/metrics.js';
+import { UnauthorizedError } from '../lib/errors.js';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Check the request's bearer token against the configured metrics token in constant time
+ * @param req - Express request object
+ * @param token - Expected token
+ * @returns Whether the request sent the token
+ */
+function hasMetricsToken(req: Request, token: string): boolean {
+  const authorization = req.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  // Hash both sides so the comparison does not leak the token length
+  const sent = createHash('sha256').update(authorization.slice('Bearer '.length).trim()).digest();
+  const expected = createHash('sha256').update(token).digest();
+  return timingSafeEqual(sent, expected);
+}
+
+/**
+ * GET /metrics
+ * Return request, feedback, rate limit, and database metrics in the Prometheus text format
+ * Requires `Authorization: Bearer <token>` when a token is configured
+ *
+ * @param token - Expected bearer token (METRICS_TOKEN); metrics are open when undefined
+ * @returns Express handler
+ */
+export function getMetrics(token: string | undefined): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      if (token && !hasMetricsToken(req, token)) {
+        throw new UnauthorizedError('Metrics token required (send it as Authorization: Bearer <token>)');
+      }
+
+      res.status(200).set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(renderMetrics());
+    } catch (error) {
+      next(error);
+    }
+  };
+}
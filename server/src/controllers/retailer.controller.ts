@@ -0,0 +1,211 @@
+/**
+ * Retailer Controller
+ * Handles HTTP requests for the public retailer directory and admin retailer endpoints
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import {
+  createRetailer,
+  listRetailers,
+  updateRetailer,
+  deleteRetailer,
+  listRetailerDomains,
+  createRetailerDomain,
+  deleteRetailerDomain,
+} from '../services/retailer.service.js';
+import { searchRetailers } from '../services/retailerSearch.service.js';
+import { parseWithSchema } from '../lib/validation.js';
+import {
+  createRetailerSchema,
+  updateRetailerSchema,
+  listRetailersQuerySchema,
+  retailerIdSchema,
+  retailerDomainIdSchema,
+  createRetailerDomainSchema,
+  searchRetailersQuerySchema,
+} from '../validators/retailer.validator.js';
+
+/**
+ * GET /api/v1/retailers
+ * Search active retailers by name or domain prefix, with their coupon counts and best known discount
+ *
+ * @param req - Express request object with optional query params 'search', 'cursor', 'limit', 'hasCoupons'
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function browseRetailers(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const query = parseWithSchema(searchRetailersQuerySchema, req.query, 'query parameters');
+
+    const { retailers, nextCursor } = await searchRetailers(query);
+
+    res.status(200).json({
+      data: retailers,
+      pagination: {
+        limit: query.limit,
+        nextCursor,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/admin/retailers
+ * List retailers with pagination and optional search
+ *
+ * @param req - Express request object with optional query params 'page', 'pageSize', 'search', 'isActive'
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function getRetailers(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const query = parseWithSchema(listRetailersQuerySchema, req.query, 'query parameters');
+
+    const { retailers, total } = await listRetailers(query);
+
+    res.status(200).json({
+      data: retailers,
+      pagination: {
+        page: query.page,
+        pageSize: query.pageSize,
+        total,
+        totalPages: Math.ceil(total / query.pageSize),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/retailers
+ * Create a new retailer
+ *
+ * @param req - Express request object with retailer data in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function addRetailer(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const input = parseWithSchema(createRetailerSchema, req.body);
+
+    const retailer = await createRetailer(input);
+
+    res.status(201).json({
+      data: retailer,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/admin/retailers/:id
+ * Update an existing retailer
+ *
+ * @param req - Express request object with retailer ID in params and fields to update in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function editRetailer(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(retailerIdSchema, req.params.id, 'retailer ID');
+    const input = parseWithSchema(updateRetailerSchema, req.body);
+
+    const retailer = await updateRetailer(id, input);
+
+    res.status(200).json({
+      data: retailer,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/retailers/:id
+ * Delete a retailer and all of its coupons
+ *
+ * @param req - Express request object with retailer ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function removeRetailer(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(retailerIdSchema, req.params.id, 'retailer ID');
+
+    await deleteRetailer(id);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/admin/retailers/:id/domains
+ * List a retailer's domain aliases
+ *
+ * @param req - Express request object with retailer ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function getRetailerDomains(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(retailerIdSchema, req.params.id, 'retailer ID');
+
+    const domains = await listRetailerDomains(id);
+
+    res.status(200).json({
+      data: domains,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/v1/admin/retailers/:id/domains
+ * Add a domain alias (e.g., a regional storefront) to a retailer
+ *
+ * @param req - Express request object with retailer ID in params and alias data in body
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function addRetailerDomain(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(retailerIdSchema, req.params.id, 'retailer ID');
+    const input = parseWithSchema(createRetailerDomainSchema, req.body);
+
+    const domain = await createRetailerDomain(id, input);
+
+    res.status(201).json({
+      data: domain,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/v1/admin/retailers/:id/domains/:domainId
+ * Remove a domain alias from a retailer
+ *
+ * @param req - Express request object with retailer ID and alias ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function removeRetailerDomain(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(retailerIdSchema, req.params.id, 'retailer ID');
+    const domainId = parseWithSchema(retailerDomainIdSchema, req.params.domainId, 'domain alias ID');
+
+    await deleteRetailerDomain(id, domainId);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+}
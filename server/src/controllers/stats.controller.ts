@@ -0,0 +1,57 @@
+/**
+ * Stats Controller
+ * Handles HTTP requests for public coupon and retailer statistics
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { getCouponStats, getRetailerStats } from '../services/stats.service.js';
+import { parseWithSchema } from '../lib/validation.js';
+import { couponIdSchema } from '../validators/coupon.validator.js';
+import { domainSchema } from '../validators/retailer.validator.js';
+
+/**
+ * Cache policy for statistics: they move slowly, so shared caches may keep them for a few minutes
+ */
+const STATS_CACHE_CONTROL = 'public, max-age=300';
+
+/**
+ * GET /api/v1/coupons/:id/stats
+ * Retrieve success rates over 7, 30 and 90 days, discount medians, and failure and detection breakdowns for a coupon
+ *
+ * @param req - Express request object with coupon ID in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function getCouponStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseWithSchema(couponIdSchema, req.params.id, 'coupon ID');
+
+    const stats = await getCouponStats(id);
+
+    res.set('Cache-Control', STATS_CACHE_CONTROL);
+    res.status(200).json({ data: stats });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/v1/retailers/:domain/stats
+ * Retrieve aggregate test counts and savings for a retailer
+ *
+ * @param req - Express request object with the retailer domain in params
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+export async function getRetailerStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const domain = parseWithSchema(domainSchema, req.params.domain, 'retailer domain');
+
+    const stats = await getRetailerStats(domain);
+
+    res.set('Cache-Control', STATS_CACHE_CONTROL);
+    res.status(200).json({ data: stats });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,36 +1,46 @@
 /**
  * OpenCoupon Backend Server
- * Main entry point for the Express API
+ * Main entry point: builds the app, starts listening and background jobs, and shuts down on SIGTERM/SIGINT
  */
 
-import express from 'express';
-import couponRoutes from './routes/coupon.routes.js';
-import { errorHandler, notFoundHandler } from './middleware/error.middleware.js';
+import { createApp } from './app.js';
+import { config } from './lib/config.js';
+import { db } from './lib/db.js';
+import { logger } from './lib/logger.js';
+import { handleShutdownSignals } from './lib/shutdown.js';
+import type { ShutdownTask } from './lib/shutdown.js';
+import { startPruneSchedule } from './jobs/pruneStaleCoupons.js';
 
-const app = express();
-const PORT = process.env.PORT ?? 3000;
+const PORT = config.port;
 
-// Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+const app = createApp({ readinessDb: db, config });
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.status(200).json({ status: 'ok' });
+if (config.cors.extensionOrigins.length === 0) {
+  logger.warn('CORS_EXTENSION_ORIGINS is empty: any browser extension may call the public API', {
+    hint: 'Set it to your extension origin, e.g. chrome-extension://<id>',
+  });
+}
+
+// Start server
+const server = app.listen(PORT, () => {
+  logger.info(`Server is running on http://localhost:${PORT}`, {
+    port: PORT,
+    healthCheck: `http://localhost:${PORT}/health/ready`,
+    metrics: `http://localhost:${PORT}/metrics`,
+    openApi: `http://localhost:${PORT}/api/v1/openapi.json`,
+  });
 });
 
-// API Routes
-app.use('/api/v1', couponRoutes);
+// Cleanup run on shutdown, after in-flight requests have finished
+const shutdownTasks: ShutdownTask[] = [];
 
-// 404 handler for undefined routes
-app.use(notFoundHandler);
+// Background maintenance (disable with PRUNE_INTERVAL_MINUTES=0)
+if (config.prune.intervalMs > 0) {
+  const stopPruneSchedule = startPruneSchedule(config.prune.intervalMs, config.prune.options);
+  shutdownTasks.push({ name: 'prune schedule', run: stopPruneSchedule });
+}
 
-// Global error handler (must be last)
-app.use(errorHandler);
+// Disconnect last so requests and jobs can finish their queries
+shutdownTasks.push({ name: 'database', run: () => db.$disconnect() });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server is running on http://localhost:${PORT}`);
-  console.log(`📋 Health check: http://localhost:${PORT}/health`);
-  console.log(`🎫 Coupons API: http://localhost:${PORT}/api/v1/coupons?domain=example.com`);
-});
+handleShutdownSignals(server, shutdownTasks, config.shutdownTimeoutMs);
@@ -0,0 +1,169 @@
+/**
+ * Prune Stale Coupons Job
+ * Demotes coupons that keep failing and purges coupons past their expiry date
+ *
+ * - Coupons with at least `staleFailureThreshold` failures and no success within the window are marked stale
+ * - Coupons with at least `disableFailureThreshold` failures and no success within the window are disabled
+ * - Stale coupons that succeeded again within the window are reactivated
+ * - Coupons more than `expiredGraceDays` past their expiry date are deleted
+ */
+
+import { db } from '../lib/db.js';
+import { logger } from '../lib/logger.js';
+import { config } from '../lib/config.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Thresholds for the prune job (read from PRUNE_* variables by lib/config.ts)
+ */
+export interface PruneOptions {
+  /** Days of feedback history to consider */
+  windowDays: number;
+  /** Recent failures (with no recent success) before a coupon is marked stale */
+  staleFailureThreshold: number;
+  /** Recent failures (with no recent success) before a coupon is disabled */
+  disableFailureThreshold: number;
+  /** Days past the expiry date before a coupon is deleted */
+  expiredGraceDays: number;
+}
+
+/**
+ * What a prune run changed
+ */
+export interface PruneSummary {
+  markedStale: string[];
+  disabled: string[];
+  reactivated: number;
+  purgedExpired: number;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+/**
+ * Run the prune job once
+ * @param options - Thresholds (missing values use the configured thresholds)
+ * @param now - Reference time (defaults to now)
+ * @returns Summary of what changed
+ */
+export async function pruneStaleCoupons(
+  options: Partial<PruneOptions> = {},
+  now: Date = new Date(),
+): Promise<PruneSummary> {
+  const startedAt = new Date();
+  const { windowDays, staleFailureThreshold, disableFailureThreshold, expiredGraceDays } = {
+    ...config.prune.options,
+    ...options,
+  };
+  const windowStart = new Date(now.getTime() - windowDays * MS_PER_DAY);
+
+  // Count recent failures per coupon from the feedback event log (capped and flagged votes are ignored)
+  const failureGroups = await db.feedbackEvent.groupBy({
+    by: ['couponId'],
+    where: { success: false, outcome: 'applied', createdAt: { gte: windowStart } },
+    _count: { _all: true },
+  });
+
+  const failingIds = (threshold: number) =>
+    failureGroups.filter((group) => group._count._all >= threshold).map((group) => group.couponId);
+  const toDisable = failingIds(disableFailureThreshold);
+  const toMarkStale = failingIds(staleFailureThreshold);
+
+  // Only coupons that have not worked within the window are demoted. The conditions are part of each update,
+  // so a coupon that succeeds while the job runs is left alone instead of being demoted from an earlier read
+  const notRecentlySuccessful = { OR: [{ lastSuccessAt: null }, { lastSuccessAt: { lt: windowStart } }] };
+
+  const disabled =
+    toDisable.length > 0
+      ? await db.coupon.updateManyAndReturn({
+          where: { id: { in: toDisable }, status: { in: ['active', 'stale'] }, ...notRecentlySuccessful },
+          data: { status: 'disabled' },
+          select: { id: true },
+        })
+      : [];
+
+  // Runs after disabling, so coupons disabled above no longer match status "active"
+  const markedStale =
+    toMarkStale.length > 0
+      ? await db.coupon.updateManyAndReturn({
+          where: { id: { in: toMarkStale }, status: 'active', ...notRecentlySuccessful },
+          data: { status: 'stale' },
+          select: { id: true },
+        })
+      : [];
+
+  // Stale coupons that worked again are served normally
+  const reactivated = await db.coupon.updateMany({
+    where: { status: 'stale', lastSuccessAt: { gte: windowStart } },
+    data: { status: 'active' },
+  });
+
+  // Feedback events are removed with their coupon (cascade)
+  const purged = await db.coupon.deleteMany({
+    where: { expiryDate: { lt: new Date(now.getTime() - expiredGraceDays * MS_PER_DAY) } },
+  });
+
+  return {
+    markedStale: markedStale.map((coupon) => coupon.id),
+    disabled: disabled.map((coupon) => coupon.id),
+    reactivated: reactivated.count,
+    purgedExpired: purged.count,
+    startedAt,
+    finishedAt: new Date(),
+  };
+}
+
+/**
+ * Format a prune summary as a single log line
+ * @param summary - Result of a prune run
+ * @returns Human-readable summary
+ */
+export function formatPruneSummary(summary: PruneSummary): string {
+  const durationMs = summary.finishedAt.getTime() - summary.startedAt.getTime();
+
+  return (
+    `Pruned coupons in ${durationMs}ms: ${summary.markedStale.length} marked stale, ` +
+    `${summary.disabled.length} disabled, ${summary.reactivated} reactivated, ` +
+    `${summary.purgedExpired} expired deleted`
+  );
+}
+
+/**
+ * Run the prune job on an in-process interval
+ * Runs never overlap, and failures are logged without stopping the schedule
+ *
+ * @param intervalMs - Time between runs
+ * @param options - Thresholds passed to each run
+ * @returns Function that stops the schedule and resolves once a run in progress has finished
+ */
+export function startPruneSchedule(intervalMs: number, options: Partial<PruneOptions> = {}): () => Promise<void> {
+  let running: Promise<void> | undefined;
+
+  const timer = setInterval(() => {
+    if (running) return;
+
+    running = pruneStaleCoupons(options)
+      .then((summary) => {
+        logger.info(formatPruneSummary(summary), {
+          markedStale: summary.markedStale.length,
+          disabled: summary.disabled.length,
+          reactivated: summary.reactivated,
+          purgedExpired: summary.purgedExpired,
+        });
+      })
+      .catch((error: unknown) => {
+        logger.error('coupon prune job failed', { error });
+      })
+      .finally(() => {
+        running = undefined;
+      });
+  }, intervalMs);
+
+  // Do not keep the process alive just for maintenance
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await running;
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Server Configuration
+ * Parses and validates the environment once at startup and exposes typed settings to every module
+ *
+ * - `.env` is loaded first (via dotenv), then process.env is checked against one Zod schema
+ * - Every invalid or missing variable is reported at once, and the process exits before anything starts
+ * - Modules read `config` instead of process.env; tests build their own settings with `loadConfig`
+ */
+
+import 'dotenv/config';
+import { z } from 'zod';
+import type { RateLimitSettings } from '../middleware/rateLimiter.js';
+import type { PruneOptions } from '../jobs/pruneStaleCoupons.js';
+
+/**
+ * Validated server settings
+ */
+export interface Config {
+  /** Runtime environment (NODE_ENV) */
+  env: 'development' | 'production' | 'test';
+  /** Port the HTTP server listens on */
+  port: number;
+  /** Postgres connection string */
+  databaseUrl: string;
+  /** Lowest log level written (LOG_LEVEL) */
+  logLevel: 'debug' | 'info' | 'warn' | 'error' | 'silent';
+  /** Browser origins allowed to call the API */
+  cors: {
+    /** Extension origins allowed on the public API (CORS_EXTENSION_ORIGINS); empty allows any extension */
+    extensionOrigins: string[];
+    /** Admin dashboard origins allowed on the whole API, including /api/v1/admin (CORS_ADMIN_ORIGINS) */
+    adminOrigins: string[];
+  };
+  /** Key for the HMACs that pseudonymize feedback submitters (FEEDBACK_HASH_SECRET) */
+  feedbackHashSecret: string;
+  /** Bearer token required on /metrics (open when undefined) */
+  metricsToken: string | undefined;
+  /** Time allowed for draining requests and disconnecting on SIGTERM/SIGINT */
+  shutdownTimeoutMs: number;
+  /** Rate limit store and the limit of each rate limiter */
+  rateLimits: RateLimitSettings;
+  /** Prune job thresholds and schedule interval (0 when the schedule is disabled) */
+  prune: { options: PruneOptions; intervalMs: number };
+  /** Optional endpoints that can be switched off */
+  features: {
+    /** Serve GET /metrics (ENABLE_METRICS) */
+    metrics: boolean;
+    /** Serve GET /api/v1/openapi.json (ENABLE_API_DOCS) */
+    apiDocs: boolean;
+  };
+}
+
+/**
+ * Invalid or missing environment variables
+ * The message lists every problem, one per line
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid server configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Optional string where an empty value (e.g. `METRICS_TOKEN=` in .env) means unset
+ */
+const optionalString = z
+  .string()
+  .optional()
+  .transform((value) => value || undefined);
+
+/**
+ * Boolean flag written as "true" or "false"
+ */
+const flag = (defaultValue: boolean) =>
+  z
+    .enum(['true', 'false'])
+    .default(defaultValue ? 'true' : 'false')
+    .transform((value) => value === 'true');
+
+/**
+ * Comma-separated list of origins, each checked against `origin`
+ */
+const originList = (origin: z.ZodString) =>
+  z
+    .string()
+    .default('')
+    .transform((value) =>
+      value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(origin));
+
+/**
+ * Feedback hash key used in development and tests when FEEDBACK_HASH_SECRET is not set
+ * Production must set its own secret, or the stored hashes could be recomputed from guessed IPs
+ */
+const DEVELOPMENT_FEEDBACK_HASH_SECRET = 'opencoupon-development-feedback-hash-secret';
+
+const positiveInt = (defaultValue: number) => z.coerce.number().int().min(1).default(defaultValue);
+const nonNegativeInt = (defaultValue: number) => z.coerce.number().int().min(0).default(defaultValue);
+
+/**
+ * Schema for all environment variables the server reads
+ */
+const envSchema = z
+  .object({
+    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    PORT: z.coerce.number().int().min(0).max(65535).default(3030),
+    DATABASE_URL: z.string().regex(/^postgres(ql)?:\/\//, 'must be a postgresql:// connection string'),
+    LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error', 'silent']).default('info'),
+
+    CORS_EXTENSION_ORIGINS: originList(
+      z
+        .string()
+        .regex(
+          /^(chrome|moz)-extension:\/\/[a-z0-9-]+$/,
+          'must list chrome-extension://<id> or moz-extension://<id> origins',
+        ),
+    ),
+    CORS_ADMIN_ORIGINS: originList(
+      z.string().regex(/^https?:\/\/[a-z0-9.-]+(:\d+)?$/, 'must list http(s)://host[:port] origins without a path'),
+    ),
+    FEEDBACK_HASH_SECRET: optionalString.pipe(z.string().min(32, 'must be at least 32 characters').optional()),
+    METRICS_TOKEN: optionalString,
+    SHUTDOWN_TIMEOUT_SECONDS: z.coerce.number().min(0).default(10),
+
+    RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+    RATE_LIMIT_READ_MAX: positiveInt(300),
+    RATE_LIMIT_READ_WINDOW_MINUTES: positiveInt(15),
+    RATE_LIMIT_FEEDBACK_MAX: positiveInt(100),
+    RATE_LIMIT_FEEDBACK_WINDOW_MINUTES: positiveInt(60),
+    RATE_LIMIT_BATCH_MAX: positiveInt(50),
+    RATE_LIMIT_BATCH_WINDOW_MINUTES: positiveInt(60),
+    RATE_LIMIT_SUBMISSION_MAX: positiveInt(10),
+    RATE_LIMIT_SUBMISSION_WINDOW_MINUTES: positiveInt(60),
+    RATE_LIMIT_API_KEY_MAX: positiveInt(1000),
+    RATE_LIMIT_API_KEY_WINDOW_MINUTES: positiveInt(15),
+
+    // PRUNE_INTERVAL_MINUTES=0 disables the in-process schedule
+    PRUNE_WINDOW_DAYS: positiveInt(14),
+    PRUNE_STALE_FAILURES: positiveInt(5),
+    PRUNE_DISABLE_FAILURES: positiveInt(20),
+    PRUNE_EXPIRED_GRACE_DAYS: nonNegativeInt(7),
+    PRUNE_INTERVAL_MINUTES: nonNegativeInt(60),
+
+    ENABLE_METRICS: flag(true),
+    ENABLE_API_DOCS: flag(true),
+  })
+  .superRefine((env, ctx) => {
+    if (env.NODE_ENV === 'production' && !env.FEEDBACK_HASH_SECRET) {
+      ctx.addIssue({ code: 'custom', path: ['FEEDBACK_HASH_SECRET'], message: 'is required in production' });
+    }
+  });
+
+/**
+ * Describe a validation issue by its variable name, without echoing the value (it may be a secret)
+ */
+function formatIssue(issue: z.core.$ZodIssue, env: NodeJS.ProcessEnv): string {
+  const name = String(issue.path[0]);
+  return env[name] === undefined ? `${name} is required` : `${name}: ${issue.message}`;
+}
+
+/**
+ * Parse and validate settings from environment variables
+ * @param env - Environment to read (defaults to process.env)
+ * @returns Typed settings with defaults applied
+ * @throws ConfigError listing every invalid or missing variable
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map((issue) => formatIssue(issue, env)));
+  }
+
+  const parsed = result.data;
+  const minutes = (value: number) => value * 60 * 1000;
+
+  return {
+    env: parsed.NODE_ENV,
+    port: parsed.PORT,
+    databaseUrl: parsed.DATABASE_URL,
+    logLevel: parsed.LOG_LEVEL,
+    cors: {
+      extensionOrigins: parsed.CORS_EXTENSION_ORIGINS,
+      adminOrigins: parsed.CORS_ADMIN_ORIGINS,
+    },
+    feedbackHashSecret: parsed.FEEDBACK_HASH_SECRET ?? DEVELOPMENT_FEEDBACK_HASH_SECRET,
+    metricsToken: parsed.METRICS_TOKEN,
+    shutdownTimeoutMs: parsed.SHUTDOWN_TIMEOUT_SECONDS * 1000,
+    rateLimits: {
+      store: parsed.RATE_LIMIT_STORE,
+      limits: {
+        read: { max: parsed.RATE_LIMIT_READ_MAX, windowMs: minutes(parsed.RATE_LIMIT_READ_WINDOW_MINUTES) },
+        feedback: { max: parsed.RATE_LIMIT_FEEDBACK_MAX, windowMs: minutes(parsed.RATE_LIMIT_FEEDBACK_WINDOW_MINUTES) },
+        batchFeedback: { max: parsed.RATE_LIMIT_BATCH_MAX, windowMs: minutes(parsed.RATE_LIMIT_BATCH_WINDOW_MINUTES) },
+        submission: {
+          max: parsed.RATE_LIMIT_SUBMISSION_MAX,
+          windowMs: minutes(parsed.RATE_LIMIT_SUBMISSION_WINDOW_MINUTES),
+        },
+        apiKey: { max: parsed.RATE_LIMIT_API_KEY_MAX, windowMs: minutes(parsed.RATE_LIMIT_API_KEY_WINDOW_MINUTES) },
+      },
+    },
+    prune: {
+      options: {
+        windowDays: parsed.PRUNE_WINDOW_DAYS,
+        staleFailureThreshold: parsed.PRUNE_STALE_FAILURES,
+        disableFailureThreshold: parsed.PRUNE_DISABLE_FAILURES,
+        expiredGraceDays: parsed.PRUNE_EXPIRED_GRACE_DAYS,
+      },
+      intervalMs: minutes(parsed.PRUNE_INTERVAL_MINUTES),
+    },
+    features: {
+      metrics: parsed.ENABLE_METRICS,
+      apiDocs: parsed.ENABLE_API_DOCS,
+    },
+  };
+}
+
+/**
+ * Load settings, or print the report and exit when they are invalid
+ * The report goes to stderr as plain text: the logger is not usable without a valid LOG_LEVEL
+ */
+function loadConfigOrExit(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Server settings, validated when this module is first imported
+ */
+export const config: Readonly<Config> = loadConfigOrExit();
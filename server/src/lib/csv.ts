@@ -0,0 +1,80 @@
+/**
+ * CSV parsing utilities
+ * Minimal RFC 4180 parser for bulk imports (quoted fields, escaped quotes, CRLF)
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * @param text - Raw CSV text
+ * @returns Array of rows, each an array of field values (blank lines are skipped)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        // Escaped quote ("") or end of quoted field
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last row if the text does not end with a newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((r) => !(r.length === 1 && r[0]?.trim() === ''));
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ * @param text - Raw CSV text whose first row contains column names
+ * @returns Array of records (one per data row)
+ */
+export function parseCsvRecords(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((row) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index]?.trim() ?? '';
+    });
+    return record;
+  });
+}
@@ -6,27 +6,51 @@
 import { PrismaClient } from '../generated/prisma/index.js';
 import { PrismaPg } from '@prisma/adapter-pg';
 import pg from 'pg';
-import 'dotenv/config';
+import { metrics, secondsSince } from './metrics.js';
+import { config } from './config.js';
+
+/**
+ * Create the Prisma Client with query timing for the prisma_query_duration_seconds metric
+ */
+function createClient() {
+  // Create PostgreSQL connection pool
+  const pool = new pg.Pool({ connectionString: config.databaseUrl });
+  // End the pool on $disconnect so shutdown does not wait on idle connections
+  const adapter = new PrismaPg(pool, { disposeExternalPool: true });
+
+  return new PrismaClient({
+    adapter,
+    log: config.env === 'development' ? ['query', 'error', 'warn'] : ['error'],
+  }).$extends({
+    query: {
+      async $allOperations({ model, operation, args, query }) {
+        const startedAt = process.hrtime.bigint();
+        try {
+          return await query(args);
+        } finally {
+          // Raw queries ($queryRaw, $executeRaw) have no model
+          metrics.dbQueryDuration.observe({ model: model ?? 'raw', operation }, secondsSince(startedAt));
+        }
+      },
+    },
+  });
+}
 
 /**
  * Global Prisma Client instance
  * Prevents multiple instances in development with hot-reload
  */
 declare global {
-  var prisma: PrismaClient | undefined;
+  var prisma: Database | undefined;
 }
 
-// Create PostgreSQL connection pool
-const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
-const adapter = new PrismaPg(pool);
+/**
+ * Type of the database client (the Prisma Client with its query extensions)
+ */
+export type Database = ReturnType<typeof createClient>;
 
-export const db =
-  globalThis.prisma ??
-  new PrismaClient({
-    adapter,
-    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  });
+export const db = globalThis.prisma ?? createClient();
 
-if (process.env.NODE_ENV !== 'production') {
+if (config.env !== 'production') {
   globalThis.prisma = db;
 }
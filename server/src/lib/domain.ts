@@ -0,0 +1,87 @@
+/**
+ * Domain helpers
+ * Hostname normalization and registrable-domain matching for retailer lookups
+ */
+
+/**
+ * Public suffixes with two labels that are common for retail storefronts
+ * Not the full Public Suffix List; single-label suffixes (".com", ".de") need no entry
+ */
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'me.uk',
+  'com.au',
+  'net.au',
+  'co.nz',
+  'co.jp',
+  'ne.jp',
+  'co.kr',
+  'co.in',
+  'co.za',
+  'com.br',
+  'com.mx',
+  'com.ar',
+  'com.tr',
+  'com.cn',
+  'com.hk',
+  'com.sg',
+  'com.my',
+  'co.il',
+]);
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+/**
+ * Normalize a URL or hostname for retailer matching
+ * Lowercases, drops the port, path and trailing dot, and strips a leading "www."
+ *
+ * @param url - Full URL or domain string (e.g., "https://www.Nike.com/products")
+ * @returns Normalized hostname (e.g., "nike.com")
+ */
+export function normalizeHostname(url: string): string {
+  let hostname: string;
+
+  try {
+    // If it's already just a domain (no protocol), add one temporarily
+    const urlWithProtocol = url.includes('://') ? url : `https://${url}`;
+    hostname = new URL(urlWithProtocol).hostname;
+  } catch {
+    // If URL parsing fails, use the cleaned input
+    hostname = url.trim().toLowerCase();
+  }
+
+  return hostname.replace(/\.$/, '').replace(/^www\./, '');
+}
+
+/**
+ * Get the registrable domain of a hostname (the part a retailer actually registers)
+ * Examples: "store.nike.com" → "nike.com", "m.nike.co.uk" → "nike.co.uk"
+ *
+ * @param hostname - Normalized hostname
+ * @returns Registrable domain, or the hostname itself for IPs and single-label hosts
+ */
+export function getRegistrableDomain(hostname: string): string {
+  if (IPV4_PATTERN.test(hostname)) {
+    return hostname;
+  }
+
+  const labels = hostname.split('.');
+  if (labels.length <= 2) {
+    return hostname;
+  }
+
+  const lastTwo = labels.slice(-2).join('.');
+  const suffixLabels = MULTI_LABEL_SUFFIXES.has(lastTwo) ? 2 : 1;
+
+  return labels.slice(-(suffixLabels + 1)).join('.');
+}
+
+/**
+ * Domains to try, most specific first, when looking up a retailer for a hostname
+ * @param hostname - Normalized hostname (e.g., "store.nike.com")
+ * @returns Distinct candidates (e.g., ["store.nike.com", "nike.com"])
+ */
+export function getDomainCandidates(hostname: string): string[] {
+  return [...new Set([hostname, getRegistrableDomain(hostname)])];
+}
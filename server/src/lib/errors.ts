@@ -43,6 +43,38 @@ export class BadRequestError extends AppError {
   }
 }
 
+/**
+ * 401 Unauthorized Error
+ * The request has no valid credentials
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Unauthorized') {
+    super(message, 401);
+    Object.setPrototypeOf(this, UnauthorizedError.prototype);
+  }
+}
+
+/**
+ * 403 Forbidden Error
+ * The credentials are valid but not allowed to perform the action
+ */
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden') {
+    super(message, 403);
+    Object.setPrototypeOf(this, ForbiddenError.prototype);
+  }
+}
+
+/**
+ * 409 Conflict Error
+ */
+export class ConflictError extends AppError {
+  constructor(message = 'Resource already exists') {
+    super(message, 409);
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
+
 /**
  * 429 Too Many Requests Error
  */
@@ -62,3 +94,15 @@ export class InternalServerError extends AppError {
     Object.setPrototypeOf(this, InternalServerError.prototype);
   }
 }
+
+/**
+ * Check whether an error is a Prisma known request error with the given code
+ * Uses duck typing so it also works with mocked clients in tests
+ *
+ * @param error - Caught error
+ * @param code - Prisma error code (e.g., "P2002" unique constraint, "P2025" record not found)
+ * @returns true if the error carries the given Prisma error code
+ */
+export function isPrismaError(error: unknown, code: string): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === code;
+}
@@ -0,0 +1,72 @@
+/**
+ * Logger
+ * Writes structured log entries as one JSON object per line
+ *
+ * - Every entry has a level, an ISO 8601 time, and a message; extra fields are merged in
+ * - Error values are written with their name, message, and stack
+ * - Entries below LOG_LEVEL (debug, info, warn, error, or silent; defaults to info) are dropped
+ */
+
+import { config } from './config.js';
+import type { Config } from './config.js';
+
+const LOG_LEVELS: readonly Config['logLevel'][] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Severity of a log entry
+ */
+export type LogLevel = Exclude<Config['logLevel'], 'silent'>;
+
+/**
+ * Extra fields merged into a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Format a log entry as a single JSON line
+ * @param level - Severity of the entry
+ * @param message - What happened
+ * @param fields - Extra fields (cannot override level, time, or msg)
+ * @param now - Time of the entry (defaults to now)
+ * @returns JSON line without a trailing newline
+ */
+export function formatLogEntry(level: LogLevel, message: string, fields: LogFields = {}, now = new Date()): string {
+  return JSON.stringify({ ...fields, level, time: now.toISOString(), msg: message }, (_key, value: unknown) =>
+    value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value,
+  );
+}
+
+/**
+ * Logger with the methods for each level
+ */
+export type Logger = Record<LogLevel, (message: string, fields?: LogFields) => void>;
+
+/**
+ * Create a logger that drops entries below a level (info and debug go to stdout, warn and error to stderr)
+ * @param minLevel - Lowest level written, or silent to write nothing
+ * @returns Logger
+ */
+export function createLogger(minLevel: Config['logLevel']): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields): void => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+    const line = formatLogEntry(level, message, fields);
+    if (level === 'warn' || level === 'error') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
+
+/**
+ * Application logger, writing entries at LOG_LEVEL and above
+ */
+export const logger = createLogger(config.logLevel);
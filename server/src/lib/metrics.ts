@@ -0,0 +1,216 @@
+/**
+ * Metrics
+ * In-process counters and histograms rendered in the Prometheus text exposition format (version 0.0.4)
+ *
+ * - Values live in process memory and start from zero on restart; /metrics renders their current values
+ * - Label values must come from bounded sets (route patterns, enums), never from raw user input
+ */
+
+/**
+ * Label names and values of one series
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Default latency buckets in seconds (same as the Prometheus client libraries)
+ */
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format labels as {name="value",...} (empty string when there are none)
+ */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Format a sample value (Prometheus spells infinity as +Inf)
+ */
+function formatValue(value: number): string {
+  return value === Infinity ? '+Inf' : String(value);
+}
+
+/**
+ * Base for metrics with a fixed set of label names
+ * Series are keyed by their label values in label name order
+ */
+abstract class Metric<TSeries> {
+  protected readonly series = new Map<string, { labels: MetricLabels; value: TSeries }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+  ) {}
+
+  /**
+   * Key and label name order of the series with the given labels
+   * @throws Error if a label is missing or unknown
+   */
+  private seriesKey(labels: MetricLabels): { key: string; ordered: MetricLabels } {
+    const names = Object.keys(labels);
+    if (names.length !== this.labelNames.length || !this.labelNames.every((name) => name in labels)) {
+      throw new Error(`Metric ${this.name} expects labels [${this.labelNames.join(', ')}], got [${names.join(', ')}]`);
+    }
+
+    const ordered = Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? '']));
+    return { key: JSON.stringify(Object.values(ordered)), ordered };
+  }
+
+  /**
+   * Get the series for the given labels, creating it on first use
+   */
+  protected getOrCreateSeries(labels: MetricLabels, create: () => TSeries): TSeries {
+    const { key, ordered } = this.seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  /**
+   * Get the series for the given labels, if it has been recorded
+   */
+  protected findSeries(labels: MetricLabels): TSeries | undefined {
+    return this.series.get(this.seriesKey(labels).key)?.value;
+  }
+
+  /**
+   * Forget all series
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Render the metric's HELP and TYPE lines and its samples
+   */
+  abstract render(): string[];
+}
+
+/**
+ * Monotonically increasing count, e.g. requests served
+ */
+export class Counter extends Metric<{ count: number }> {
+  /**
+   * @param labels - Label values of the series to increment
+   * @param value - Amount to add (defaults to 1)
+   */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.getOrCreateSeries(labels, () => ({ count: 0 })).count += value;
+  }
+
+  /**
+   * Current count of a series (0 if it was never incremented)
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels)?.count ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value.count}`),
+    ];
+  }
+}
+
+/**
+ * Distribution of observed values in cumulative buckets, e.g. request latency
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets = DEFAULT_DURATION_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * @param labels - Label values of the series to update
+   * @param value - Observed value (seconds for durations)
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getOrCreateSeries(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]!++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, value } of this.series.values()) {
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        const count = bound === Infinity ? value.count : value.buckets[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${count}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Seconds elapsed since a process.hrtime.bigint() reading
+ */
+export function secondsSince(startedAt: bigint): number {
+  return Number(process.hrtime.bigint() - startedAt) / 1e9;
+}
+
+/**
+ * Metrics collected by the API
+ */
+export const metrics = {
+  httpRequests: new Counter('http_requests_total', 'HTTP requests by method, route, and status code', [
+    'method',
+    'route',
+    'status',
+  ]),
+  httpRequestDuration: new Histogram('http_request_duration_seconds', 'HTTP request latency by method and route', [
+    'method',
+    'route',
+  ]),
+  feedbackEvents: new Counter(
+    'coupon_feedback_events_total',
+    'Recorded coupon feedback by result, detection method, and trust screening outcome',
+    ['result', 'detection_method', 'outcome'],
+  ),
+  rateLimitRejections: new Counter('rate_limit_rejections_total', 'Requests rejected by a rate limiter', ['limiter']),
+  dbQueryDuration: new Histogram('prisma_query_duration_seconds', 'Prisma query duration by model and operation', [
+    'model',
+    'operation',
+  ]),
+};
+
+/**
+ * Render all metrics in the Prometheus text format
+ * @returns Exposition text ending with a newline
+ */
+export function renderMetrics(): string {
+  return `${Object.values(metrics)
+    .flatMap((metric) => metric.render())
+    .join('\n')}\n`;
+}
+
+/**
+ * Forget all collected values (for tests)
+ */
+export function resetMetrics(): void {
+  Object.values(metrics).forEach((metric) => metric.reset());
+}
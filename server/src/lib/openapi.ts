@@ -0,0 +1,518 @@
+/**
+ * OpenAPI Document
+ * Builds an OpenAPI 3.1 description of the public API from the Zod validators and the route table
+ */
+
+import { z } from 'zod';
+import type { Router } from 'express';
+import {
+  couponIdSchema,
+  couponListQuerySchema,
+  couponStatusSchema,
+  lookupCouponsSchema,
+  submitCouponSchema,
+} from '../validators/coupon.validator.js';
+import { feedbackRequestSchema, batchFeedbackRequestSchema } from '../validators/feedback.validator.js';
+import { domainSchema, searchRetailersQuerySchema, selectorConfigSchema } from '../validators/retailer.validator.js';
+
+/**
+ * JSON Schema (draft 2020-12) or OpenAPI object
+ */
+type JsonObject = Record<string, unknown>;
+
+/**
+ * A router and the path it is mounted on
+ */
+export interface RouteMount {
+  basePath: string;
+  router: Router;
+}
+
+/**
+ * Convert a Zod schema to the JSON Schema dialect used by OpenAPI 3.1
+ * Request schemas are described by what clients send (before coercion and transforms),
+ * and dates are described as ISO 8601 strings
+ *
+ * @param schema - Zod schema to convert
+ * @returns JSON Schema without the $schema keyword
+ */
+export function toJsonSchema(schema: z.ZodType): JsonObject {
+  const jsonSchema: JsonObject = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === 'date') {
+        ctx.jsonSchema.type = 'string';
+        ctx.jsonSchema.format = 'date-time';
+      }
+    },
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * Response body schemas
+ * These mirror what the controllers and middleware send, so generated clients can be checked against them
+ */
+
+const requestIdSchema = z.string().describe('Correlation ID of the request, also sent in the X-Request-Id header');
+
+// Mirrors ErrorResponse in error.middleware.ts (stack is only sent in development)
+const errorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  requestId: requestIdSchema.optional(),
+  stack: z.string().optional(),
+});
+
+// Sent by the handlers in rateLimiter.ts
+const rateLimitResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.literal('RATE_LIMITED'),
+  requestId: requestIdSchema.optional(),
+});
+
+const couponSchema = z.object({
+  id: z.uuid(),
+  code: z.string(),
+  description: z.string(),
+  successCount: z.number().int(),
+  failureCount: z.number().int(),
+  weightedSuccess: z.number().min(0),
+  weightedFailure: z.number().min(0),
+  lastSuccessAt: z.iso.datetime().nullable(),
+  lastTestedAt: z.iso.datetime().nullable(),
+  expiryDate: z.iso.datetime().nullable(),
+  source: z.string().nullable(),
+  status: couponStatusSchema,
+  retailerId: z.uuid(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  score: z.number().min(0).max(1),
+});
+
+const servedRetailerSchema = z.object({
+  id: z.uuid(),
+  domain: z.string(),
+  name: z.string(),
+  logoUrl: z.string().nullable(),
+  homeUrl: z.string().nullable(),
+  selectorConfig: selectorConfigSchema.nullable(),
+});
+
+const couponListResponseSchema = z.object({
+  data: z.array(couponSchema),
+  retailer: servedRetailerSchema,
+});
+
+const couponLookupResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      domain: z.string().describe('Normalized hostname'),
+      found: z.boolean().describe('Whether an active retailer serves the domain'),
+      couponCount: z.number().int(),
+      hash: z
+        .string()
+        .nullable()
+        .describe('ETag of the default GET /coupons response for the domain, without quotes; null when not found'),
+    }),
+  ),
+});
+
+const couponSubmissionResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  data: couponSchema.pick({ id: true, code: true, description: true, expiryDate: true, status: true }),
+});
+
+const feedbackResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  updatedCoupon: z.object({
+    id: z.uuid(),
+    successCount: z.number().int(),
+    failureCount: z.number().int(),
+    successRate: z.number().int().min(0).max(100),
+    lastSuccessAt: z.iso.datetime().optional(),
+    lastTestedAt: z.iso.datetime(),
+  }),
+});
+
+const batchFeedbackResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  processed: z.number().int(),
+  failed: z.number().int(),
+  results: z.array(
+    z.object({
+      couponId: z.string(),
+      success: z.boolean(),
+      error: z.string().optional(),
+    }),
+  ),
+});
+
+const testCountsSchema = z.object({
+  successCount: z.number().int(),
+  failureCount: z.number().int(),
+  successRate: z.number().int().min(0).max(100),
+});
+
+const successRateWindowSchema = testCountsSchema.extend({ days: z.number().int() });
+
+const breakdownSchema = z.array(z.object({ value: z.string(), count: z.number().int() }));
+
+const couponStatsResponseSchema = z.object({
+  data: z.object({
+    couponId: z.uuid(),
+    code: z.string(),
+    windows: z.array(successRateWindowSchema),
+    discount: z.object({
+      medianAmount: z.number().nullable(),
+      medianPercentage: z.number().nullable(),
+      sampleSize: z.number().int(),
+    }),
+    failureReasons: breakdownSchema,
+    detectionMethods: breakdownSchema,
+  }),
+});
+
+const retailerStatsResponseSchema = z.object({
+  data: z.object({
+    retailer: servedRetailerSchema.pick({ id: true, domain: true, name: true }),
+    activeCoupons: z.number().int(),
+    tests: testCountsSchema,
+    recentTests: successRateWindowSchema,
+    savings: z.object({
+      totalAmount: z.number(),
+      averageAmount: z.number().nullable(),
+      averagePercentage: z.number().nullable(),
+      reportCount: z.number().int(),
+    }),
+  }),
+});
+
+const retailerSearchResponseSchema = z.object({
+  data: z.array(
+    servedRetailerSchema.omit({ selectorConfig: true }).extend({
+      activeCouponCount: z.number().int(),
+      bestDiscount: z
+        .object({ amount: z.number().nullable(), percentage: z.number().nullable() })
+        .nullable()
+        .describe('Largest discount reported by a successful test in the last 90 days'),
+    }),
+  ),
+  pagination: z.object({
+    limit: z.number().int(),
+    nextCursor: z.string().nullable().describe('Pass as cursor to fetch the next page; null on the last page'),
+  }),
+});
+
+/**
+ * Named schemas published under components.schemas
+ */
+const componentSchemas: Record<string, z.ZodType> = {
+  Coupon: couponSchema,
+  Retailer: servedRetailerSchema,
+  CouponListResponse: couponListResponseSchema,
+  CouponLookupRequest: lookupCouponsSchema,
+  CouponLookupResponse: couponLookupResponseSchema,
+  SubmitCouponRequest: submitCouponSchema,
+  CouponSubmissionResponse: couponSubmissionResponseSchema,
+  FeedbackRequest: feedbackRequestSchema,
+  FeedbackResponse: feedbackResponseSchema,
+  BatchFeedbackRequest: batchFeedbackRequestSchema,
+  BatchFeedbackResponse: batchFeedbackResponseSchema,
+  CouponStatsResponse: couponStatsResponseSchema,
+  RetailerStatsResponse: retailerStatsResponseSchema,
+  RetailerSearchResponse: retailerSearchResponseSchema,
+  ErrorResponse: errorResponseSchema,
+  RateLimitResponse: rateLimitResponseSchema,
+};
+
+function schemaRef(name: string): JsonObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function responseRef(name: string): JsonObject {
+  return { $ref: `#/components/responses/${name}` };
+}
+
+function jsonContent(schemaName: string): JsonObject {
+  return { 'application/json': { schema: schemaRef(schemaName) } };
+}
+
+/**
+ * Optional header the extension sends with feedback so votes can be weighted per install
+ */
+const installIdHeader: JsonObject = {
+  name: 'X-Install-Id',
+  in: 'header',
+  required: false,
+  description: 'Anonymous install ID of the extension; feedback without it carries less weight',
+  schema: { type: 'string', format: 'uuid' },
+};
+
+function errorResponse(description: string): JsonObject {
+  return { description, content: jsonContent('ErrorResponse') };
+}
+
+/**
+ * Shared error responses, one per status code the error middleware and rate limiters send
+ */
+const componentResponses: JsonObject = {
+  BadRequest: errorResponse('Invalid request parameters or body'),
+  Unauthorized: errorResponse('The API key sent in X-API-Key or Authorization is unknown or revoked'),
+  Forbidden: errorResponse('The request came from a browser origin that is not allowed to call the API'),
+  NotFound: errorResponse('Resource not found'),
+  Conflict: errorResponse('Resource conflicts with existing data'),
+  InternalError: errorResponse('Unexpected server error'),
+  RateLimited: {
+    description: 'Rate limit exceeded',
+    headers: {
+      'Retry-After': { description: 'Seconds until requests are accepted again', schema: { type: 'integer' } },
+      'RateLimit-Limit': { description: 'Requests allowed per window', schema: { type: 'integer' } },
+      'RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+      'RateLimit-Reset': { description: 'Seconds until the window resets', schema: { type: 'integer' } },
+    },
+    content: jsonContent('RateLimitResponse'),
+  },
+};
+
+/**
+ * Describe each property of an object schema as an OpenAPI parameter
+ * @param schema - Zod object schema for the query string or path
+ * @param location - Where the parameters are sent
+ * @returns OpenAPI parameter objects
+ */
+function toParameters(schema: z.ZodObject, location: 'query' | 'path'): JsonObject[] {
+  const { properties = {}, required = [] } = toJsonSchema(schema) as {
+    properties?: Record<string, JsonObject>;
+    required?: string[];
+  };
+
+  return Object.entries(properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: propertySchema,
+  }));
+}
+
+/**
+ * Operations keyed by "method path", with paths as written in the route files
+ * Every route registered on a documented router must have an entry here
+ */
+const operations: Record<string, JsonObject> = {
+  'get /coupons': {
+    operationId: 'getCoupons',
+    summary: 'List coupons for a retailer domain',
+    description:
+      'Resolves the domain (or URL) to a retailer by hostname, registrable domain, or alias and returns its served coupons ordered by the requested sort.',
+    parameters: [
+      ...toParameters(
+        couponListQuerySchema.extend({
+          domain: z.string().min(1).describe('Store hostname or URL'),
+        }),
+        'query',
+      ),
+      {
+        name: 'If-None-Match',
+        in: 'header',
+        required: false,
+        description: 'ETag of a previously fetched coupon list',
+        schema: { type: 'string' },
+      },
+    ],
+    responses: {
+      200: {
+        description: 'Coupons for the retailer',
+        headers: {
+          ETag: { description: 'Strong ETag of the coupon list', schema: { type: 'string' } },
+          'Cache-Control': { description: 'Caching policy for the coupon list', schema: { type: 'string' } },
+        },
+        content: jsonContent('CouponListResponse'),
+      },
+      304: {
+        description: 'Coupon list unchanged since the ETag in If-None-Match',
+        headers: {
+          ETag: { description: 'Strong ETag of the coupon list', schema: { type: 'string' } },
+        },
+      },
+      400: responseRef('BadRequest'),
+      404: responseRef('NotFound'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'post /coupons': {
+    operationId: 'submitCoupon',
+    summary: 'Submit a coupon for moderation',
+    requestBody: { required: true, content: jsonContent('SubmitCouponRequest') },
+    responses: {
+      201: { description: 'Coupon stored as pending review', content: jsonContent('CouponSubmissionResponse') },
+      400: responseRef('BadRequest'),
+      404: responseRef('NotFound'),
+      409: responseRef('Conflict'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'post /coupons/lookup': {
+    operationId: 'lookupCoupons',
+    summary: 'Check coupon availability for several domains',
+    description:
+      'Resolves up to 50 domains in one request. Duplicate domains (after normalization) are reported once, in request order.',
+    requestBody: { required: true, content: jsonContent('CouponLookupRequest') },
+    responses: {
+      200: { description: 'One result per domain', content: jsonContent('CouponLookupResponse') },
+      400: responseRef('BadRequest'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'get /coupons/:id/stats': {
+    operationId: 'getCouponStats',
+    summary: 'Get success rates and feedback breakdowns for a coupon',
+    description:
+      'Success rates cover the last 7, 30 and 90 days; discount medians and breakdowns cover 90 days. Only feedback counted toward the coupon is included.',
+    parameters: toParameters(z.object({ id: couponIdSchema }), 'path'),
+    responses: {
+      200: {
+        description: 'Coupon statistics',
+        headers: { 'Cache-Control': { description: 'Caching policy for statistics', schema: { type: 'string' } } },
+        content: jsonContent('CouponStatsResponse'),
+      },
+      400: responseRef('BadRequest'),
+      404: responseRef('NotFound'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'post /coupons/:id/feedback': {
+    operationId: 'submitCouponFeedback',
+    summary: 'Record whether a coupon worked',
+    description:
+      'Votes are weighted by submitter trust. Votes over the daily per-coupon cap, or flagged as part of a failure burst, are accepted but not counted.',
+    parameters: [...toParameters(z.object({ id: couponIdSchema }), 'path'), installIdHeader],
+    requestBody: { required: true, content: jsonContent('FeedbackRequest') },
+    responses: {
+      200: { description: 'Feedback recorded', content: jsonContent('FeedbackResponse') },
+      400: responseRef('BadRequest'),
+      404: responseRef('NotFound'),
+      409: responseRef('Conflict'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'post /coupons/feedback/batch': {
+    operationId: 'submitBatchCouponFeedback',
+    summary: 'Record feedback for several coupons',
+    description:
+      'Unknown or malformed coupon IDs are reported per item in results; all other items are recorded in a single transaction. Votes are screened like single feedback.',
+    parameters: [installIdHeader],
+    requestBody: { required: true, content: jsonContent('BatchFeedbackRequest') },
+    responses: {
+      200: { description: 'Feedback processed', content: jsonContent('BatchFeedbackResponse') },
+      400: responseRef('BadRequest'),
+      409: responseRef('Conflict'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'get /retailers': {
+    operationId: 'searchRetailers',
+    summary: 'Search active retailers by name or domain',
+    description:
+      'search matches the start of the retailer name (any case), its domain, or a domain alias. Results are ordered by name; follow nextCursor for more.',
+    parameters: toParameters(searchRetailersQuerySchema, 'query'),
+    responses: {
+      200: { description: 'A page of retailers', content: jsonContent('RetailerSearchResponse') },
+      400: responseRef('BadRequest'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+  'get /retailers/:domain/stats': {
+    operationId: 'getRetailerStats',
+    summary: 'Get test counts and savings for a retailer',
+    description:
+      'Subdomains and aliases resolve to their retailer. Savings are summed from discounts reported by successful tests, in the store currency.',
+    parameters: toParameters(z.object({ domain: domainSchema.describe('Store hostname') }), 'path'),
+    responses: {
+      200: {
+        description: 'Retailer statistics',
+        headers: { 'Cache-Control': { description: 'Caching policy for statistics', schema: { type: 'string' } } },
+        content: jsonContent('RetailerStatsResponse'),
+      },
+      400: responseRef('BadRequest'),
+      404: responseRef('NotFound'),
+      429: responseRef('RateLimited'),
+      500: responseRef('InternalError'),
+    },
+  },
+};
+
+/**
+ * Responses any operation can return, whatever its route: `authenticate` runs on all of /api/v1 and rejects
+ * a bad API key (requests without one are anonymous), and the CORS middleware rejects unlisted browser origins
+ */
+const sharedResponses: JsonObject = {
+  401: responseRef('Unauthorized'),
+  403: responseRef('Forbidden'),
+};
+
+/**
+ * Convert an Express path ("/coupons/:id") to an OpenAPI path ("/coupons/{id}")
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Build the OpenAPI document for the given routers
+ * @param mounts - Routers to document and the paths they are mounted on
+ * @returns OpenAPI 3.1 document
+ * @throws Error if a route has no documented operation
+ */
+export function buildOpenApiDocument(mounts: RouteMount[]): JsonObject {
+  const paths: Record<string, JsonObject> = {};
+
+  for (const { basePath, router } of mounts) {
+    for (const layer of router.stack) {
+      if (!layer.route) continue;
+
+      const routePath = layer.route.path;
+      const methods = new Set(layer.route.stack.map((routeLayer) => routeLayer.method));
+
+      for (const method of methods) {
+        const operation = operations[`${method} ${routePath}`];
+        if (!operation) {
+          throw new Error(`No OpenAPI operation documented for ${method.toUpperCase()} ${basePath}${routePath}`);
+        }
+
+        const path = toOpenApiPath(`${basePath}${routePath}`);
+        const responses = { ...sharedResponses, ...(operation.responses as JsonObject) };
+        paths[path] = { ...paths[path], [method]: { ...operation, responses } };
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'OpenCoupon API',
+      version: '1.0.0',
+      description: 'Public coupon lookup, submission, feedback, statistics, and retailer search endpoints',
+    },
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(componentSchemas).map(([name, schema]) => [name, toJsonSchema(schema)]),
+      ),
+      responses: componentResponses,
+    },
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Rate Limit Stores
+ * Hit counters for express-rate-limit, either in process memory or in Postgres
+ *
+ * - The memory store is per process, so each server instance counts separately
+ * - The Postgres store keeps one row per limiter and client in rate_limit_buckets, shared by all instances
+ */
+
+import { MemoryStore } from 'express-rate-limit';
+import type { Store, Options, ClientRateLimitInfo } from 'express-rate-limit';
+import { db } from './db.js';
+import { logger } from './logger.js';
+
+/**
+ * Where rate limit counters are kept
+ */
+export type RateLimitStoreKind = 'memory' | 'postgres';
+
+/**
+ * Fixed-window hit counters in the rate_limit_buckets table
+ * Each limiter gets its own store instance and key prefix, so limiters sharing the table do not share counters
+ */
+export class PrismaRateLimitStore implements Store {
+  readonly prefix: string;
+  readonly localKeys = false;
+  private windowMs = 60 * 1000;
+  private cleanupTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param prefix - Prepended to every client key, e.g. "feedback:"
+   */
+  constructor(prefix: string) {
+    this.prefix = prefix;
+  }
+
+  /**
+   * Take the window length from the limiter and start removing expired buckets
+   * @param options - Options of the limiter using this store
+   */
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = setInterval(() => {
+      this.deleteExpired().catch((error: unknown) => {
+        logger.error('rate limit cleanup failed', { prefix: this.prefix, error });
+      });
+    }, this.windowMs);
+
+    // Do not keep the process alive just for cleanup
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * Count a hit in a single statement, starting a new window if the current one has ended
+   * @param key - Client key from the limiter's key generator
+   * @returns Hits in the current window and when it ends
+   */
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + this.windowMs);
+
+    const [bucket] = await db.$queryRaw<Array<{ hits: number; resetAt: Date }>>`
+      INSERT INTO "rate_limit_buckets" ("key", "hits", "resetAt")
+      VALUES (${this.prefix + key}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "hits" = CASE
+          WHEN "rate_limit_buckets"."resetAt" <= ${now} THEN 1
+          ELSE "rate_limit_buckets"."hits" + 1
+        END,
+        "resetAt" = CASE
+          WHEN "rate_limit_buckets"."resetAt" <= ${now} THEN EXCLUDED."resetAt"
+          ELSE "rate_limit_buckets"."resetAt"
+        END
+      RETURNING "hits", "resetAt"
+    `;
+
+    if (!bucket) {
+      throw new Error(`Rate limit bucket for "${this.prefix + key}" was not returned`);
+    }
+
+    return { totalHits: bucket.hits, resetTime: bucket.resetAt };
+  }
+
+  /**
+   * Undo a hit (used when skipSuccessfulRequests or skipFailedRequests is set)
+   * @param key - Client key from the limiter's key generator
+   */
+  async decrement(key: string): Promise<void> {
+    await db.rateLimitBucket.updateMany({
+      where: { key: this.prefix + key, hits: { gt: 0 }, resetAt: { gt: new Date() } },
+      data: { hits: { decrement: 1 } },
+    });
+  }
+
+  /**
+   * Forget a client's hits
+   * @param key - Client key from the limiter's key generator
+   */
+  async resetKey(key: string): Promise<void> {
+    await db.rateLimitBucket.deleteMany({ where: { key: this.prefix + key } });
+  }
+
+  /**
+   * Read a client's hits without counting a new one
+   * @param key - Client key from the limiter's key generator
+   * @returns Hits in the current window, or undefined if the client has no open window
+   */
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const bucket = await db.rateLimitBucket.findUnique({ where: { key: this.prefix + key } });
+    if (!bucket || bucket.resetAt <= new Date()) {
+      return undefined;
+    }
+
+    return { totalHits: bucket.hits, resetTime: bucket.resetAt };
+  }
+
+  /**
+   * Forget every client's hits for this limiter
+   */
+  async resetAll(): Promise<void> {
+    await db.rateLimitBucket.deleteMany({ where: { key: { startsWith: this.prefix } } });
+  }
+
+  /**
+   * Stop the cleanup timer
+   */
+  shutdown(): void {
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = undefined;
+  }
+
+  /**
+   * Remove this limiter's buckets whose window has ended
+   * @param now - Reference time (defaults to now)
+   * @returns Number of buckets removed
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await db.rateLimitBucket.deleteMany({
+      where: { key: { startsWith: this.prefix }, resetAt: { lte: now } },
+    });
+    return count;
+  }
+}
+
+/**
+ * Create the store for one rate limiter
+ * @param kind - Where counters are kept
+ * @param prefix - Key prefix naming the limiter, e.g. "feedback:"
+ * @returns A new store (stores must not be shared between limiters)
+ */
+export function createRateLimitStore(kind: RateLimitStoreKind, prefix: string): Store {
+  return kind === 'postgres' ? new PrismaRateLimitStore(prefix) : new MemoryStore();
+}
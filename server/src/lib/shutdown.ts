@@ -0,0 +1,95 @@
+/**
+ * Graceful Shutdown
+ * Drains the HTTP server and releases resources before the process exits
+ *
+ * - The server stops accepting connections, idle keep-alive connections are closed,
+ *   and requests in flight are given time to finish
+ * - Cleanup tasks (stopping jobs, disconnecting the database) run once the server has drained
+ * - Everything shares one deadline; connections still open when it passes are destroyed
+ */
+
+import type { Server } from 'node:http';
+import { logger } from './logger.js';
+
+/**
+ * Named cleanup step run after the server has drained
+ */
+export interface ShutdownTask {
+  name: string;
+  run: () => unknown;
+}
+
+/**
+ * Resolve after `ms`, without keeping the process alive
+ */
+function delay(ms: number): Promise<'timeout'> {
+  return new Promise((resolve) => setTimeout(() => resolve('timeout'), ms).unref());
+}
+
+/**
+ * Stop the server and run cleanup tasks within a deadline
+ * @param server - HTTP server to drain
+ * @param tasks - Cleanup steps, run in order after the server has drained (or the deadline forced it closed)
+ * @param timeoutMs - Time allowed for draining and cleanup together
+ * @returns Whether everything finished cleanly within the deadline
+ */
+export async function shutdownGracefully(server: Server, tasks: ShutdownTask[], timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  let clean = true;
+
+  const closed = new Promise<'closed'>((resolve) => {
+    server.close(() => resolve('closed'));
+  });
+  server.closeIdleConnections();
+
+  if ((await Promise.race([closed, delay(timeoutMs)])) === 'timeout') {
+    logger.warn('requests still in flight at the shutdown deadline, closing their connections', { timeoutMs });
+    server.closeAllConnections();
+    clean = false;
+  }
+
+  for (const task of tasks) {
+    const remainingMs = Math.max(deadline - Date.now(), 0);
+    try {
+      const result = await Promise.race([Promise.resolve(task.run()), delay(remainingMs)]);
+      if (result === 'timeout') {
+        logger.warn('shutdown task did not finish before the deadline', { task: task.name });
+        clean = false;
+      }
+    } catch (error) {
+      logger.error('shutdown task failed', { task: task.name, error });
+      clean = false;
+    }
+  }
+
+  return clean;
+}
+
+/**
+ * Shut down gracefully on SIGTERM or SIGINT, then exit
+ * Exits with 0 after a clean shutdown and 1 otherwise; a second signal exits immediately
+ *
+ * @param server - HTTP server to drain
+ * @param tasks - Cleanup steps, run in order after the server has drained
+ * @param timeoutMs - Time allowed for the whole shutdown
+ */
+export function handleShutdownSignals(server: Server, tasks: ShutdownTask[], timeoutMs: number): void {
+  let shuttingDown = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn('received second shutdown signal, exiting immediately', { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    logger.info('shutting down', { signal, timeoutMs });
+    shutdownGracefully(server, tasks, timeoutMs).then((clean) => {
+      logger.info(clean ? 'shutdown complete' : 'shutdown finished with errors', { signal });
+      process.exit(clean ? 0 : 1);
+    });
+  };
+
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
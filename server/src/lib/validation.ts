@@ -0,0 +1,37 @@
+/**
+ * Request validation helpers
+ * Shared Zod parsing that reports failures as BadRequestError
+ */
+
+import type { ZodType, ZodIssue } from 'zod';
+import { BadRequestError } from './errors.js';
+
+/**
+ * Format Zod issues into a single readable message
+ * @param issues - Issues reported by a failed parse
+ * @returns Comma-separated list of "path: message" entries
+ */
+export function formatZodIssues(issues: ZodIssue[]): string {
+  return issues
+    .map((e: ZodIssue) => {
+      const path = e.path.length > 0 ? `${e.path.join('.')}: ` : '';
+      return `${path}${e.message}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Parse input with a Zod schema
+ * @param schema - Zod schema to validate against
+ * @param input - Raw input (request body, query, params)
+ * @param label - What is being validated, used in the error message (e.g., "request body")
+ * @returns Parsed and transformed data
+ * @throws BadRequestError if validation fails
+ */
+export function parseWithSchema<T>(schema: ZodType<T>, input: unknown, label = 'request body'): T {
+  const validationResult = schema.safeParse(input);
+  if (!validationResult.success) {
+    throw new BadRequestError(`Invalid ${label}: ${formatZodIssues(validationResult.error.issues)}`);
+  }
+  return validationResult.data;
+}
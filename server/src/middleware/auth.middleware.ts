@@ -0,0 +1,95 @@
+/**
+ * Authentication Middleware
+ * Resolves API keys to principals and enforces roles on protected routes
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { resolveApiKey } from '../services/apiKey.service.js';
+import type { ApiKeyPrincipal } from '../services/apiKey.service.js';
+import type { ApiKeyRole } from '../validators/apiKey.validator.js';
+import { UnauthorizedError, ForbiddenError } from '../lib/errors.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /**
+     * Caller resolved from the API key, if one was sent
+     */
+    principal?: ApiKeyPrincipal;
+  }
+}
+
+/**
+ * Header carrying the API key
+ * `Authorization: Bearer <key>` is accepted as well
+ */
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Read the API key from the request headers
+ * @param req - Express request object
+ * @returns Plaintext API key, or null if none was sent
+ */
+export function getApiKeyFromRequest(req: Request): string | null {
+  const headerKey = req.get(API_KEY_HEADER);
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the API key (if any) and attach the principal to the request
+ * Requests without a key continue anonymously; an unknown or revoked key is rejected
+ *
+ * @param req - Express request object
+ * @param _res - Express response object (unused)
+ * @param next - Express next function
+ */
+export async function authenticate(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  try {
+    const key = getApiKeyFromRequest(req);
+    if (!key) {
+      next();
+      return;
+    }
+
+    const principal = await resolveApiKey(key);
+    if (!principal) {
+      throw new UnauthorizedError('Invalid or revoked API key');
+    }
+
+    req.principal = principal;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require an authenticated principal with one of the given roles
+ * Must run after `authenticate`
+ *
+ * @param roles - Roles allowed to access the route
+ * @returns Express middleware
+ */
+export function requireRole(...roles: ApiKeyRole[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.principal) {
+      next(new UnauthorizedError(`API key required (send it in the ${API_KEY_HEADER} header)`));
+      return;
+    }
+
+    if (!roles.includes(req.principal.role)) {
+      next(new ForbiddenError(`API key role "${req.principal.role}" is not allowed to access this resource`));
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * CORS Middleware
+ * Lets allowlisted browser origins (the extension and the admin dashboard) call the API
+ *
+ * - Requests without an Origin header (curl, scrapers, other servers) pass through untouched
+ * - The extension's popup, side panel and service worker send their own origin (chrome-extension://<id>);
+ *   content scripts send the page's origin, so the paths they call are opened to every origin
+ * - Allowed origins get Access-Control-* headers; preflight requests are answered with 204
+ * - Any other browser origin is rejected with 403 before the request reaches a route
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ForbiddenError } from '../lib/errors.js';
+import { API_KEY_HEADER } from './auth.middleware.js';
+import { REQUEST_ID_HEADER } from './request.middleware.js';
+
+/**
+ * Methods browsers may use cross-origin
+ */
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Request headers browsers may send cross-origin (beyond the CORS-safelisted ones)
+ */
+const ALLOWED_HEADERS = ['Content-Type', 'Authorization', API_KEY_HEADER, 'X-Install-Id', REQUEST_ID_HEADER];
+
+/**
+ * Response headers scripts may read cross-origin (beyond the CORS-safelisted ones)
+ */
+const EXPOSED_HEADERS = [
+  REQUEST_ID_HEADER,
+  'Retry-After',
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'RateLimit-Policy',
+];
+
+/**
+ * How long browsers may cache a preflight response, in seconds
+ */
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+/**
+ * Origin of any Chrome or Firefox extension page
+ */
+const EXTENSION_ORIGIN_PATTERN = /^(chrome|moz)-extension:\/\/[a-z0-9-]+$/;
+
+/**
+ * Extra origins a CORS policy accepts beyond its list
+ */
+export interface CorsOptions {
+  /** Accept every extension origin (used when no extension origins are configured) */
+  anyExtension?: boolean;
+  /** Paths any origin may call, for requests sent from content scripts */
+  anyOriginPaths?: readonly RegExp[];
+}
+
+/**
+ * Create a CORS middleware for a fixed list of origins
+ * Responses vary by Origin, so caches never serve one origin's headers to another
+ *
+ * @param allowedOrigins - Exact origins allowed, e.g. "chrome-extension://<id>" or "https://admin.example.com"
+ * @param options - Whether any extension origin, or any origin on some paths, is allowed as well
+ * @returns Express middleware
+ */
+export function cors(allowedOrigins: readonly string[], options: CorsOptions = {}): RequestHandler {
+  const allowed = new Set(allowedOrigins);
+  const anyOriginPaths = options.anyOriginPaths ?? [];
+  const isAllowed = (origin: string, path: string) =>
+    allowed.has(origin) ||
+    (options.anyExtension === true && EXTENSION_ORIGIN_PATTERN.test(origin)) ||
+    anyOriginPaths.some((pattern) => pattern.test(path));
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const origin = req.get('Origin');
+    res.vary('Origin');
+
+    if (!origin) {
+      next();
+      return;
+    }
+
+    if (!isAllowed(origin, req.path)) {
+      next(new ForbiddenError(`Origin ${origin} is not allowed to call this API`));
+      return;
+    }
+
+    res.set('Access-Control-Allow-Origin', origin);
+    res.set('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '));
+
+    // Preflight: answer here, the route itself only handles the real request
+    if (req.method === 'OPTIONS' && req.get('Access-Control-Request-Method')) {
+      res.set('Access-Control-Allow-Methods', ALLOWED_METHODS.join(', '));
+      res.set('Access-Control-Allow-Headers', ALLOWED_HEADERS.join(', '));
+      res.set('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE_SECONDS));
+      res.status(204).end();
+      return;
+    }
+
+    next();
+  };
+}
@@ -3,8 +3,11 @@
  * Centralized error handling for the application
  */
 
-import type { Request, Response, NextFunction } from 'express';
+import type { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
 import { AppError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+import { config } from '../lib/config.js';
+import type { Config } from '../lib/config.js';
 
 /**
  * Error response structure
@@ -12,60 +15,68 @@ import { AppError } from '../lib/errors.js';
 interface ErrorResponse {
   success: false;
   error: string;
+  /** Correlation ID from requestId middleware, for bug reports */
+  requestId?: string;
   stack?: string;
 }
 
 /**
- * Global error handler middleware
+ * Create the global error handler middleware
  * Catches all errors and returns a consistent JSON response
  *
- * @param err - Error object
- * @param req - Express request object
- * @param res - Express response object
- * @param _next - Express next function (unused but required by Express signature)
+ * @param env - Runtime environment; stack traces are only sent in development
+ * @returns Express error middleware
  */
-export function errorHandler(err: Error | AppError, req: Request, res: Response, _next: NextFunction): void {
-  // Default to 500 Internal Server Error
-  let statusCode = 500;
-  let message = 'Internal Server Error';
+export function createErrorHandler(env: Config['env']): ErrorRequestHandler {
+  return (err: Error | AppError, req: Request, res: Response, _next: NextFunction): void => {
+    // Default to 500 Internal Server Error
+    let statusCode = 500;
+    let message = 'Internal Server Error';
 
-  // If it's an operational error we defined, use its properties
-  // Check for statusCode property first (more reliable than instanceof in some environments)
-  if ('statusCode' in err && typeof (err as AppError).statusCode === 'number') {
-    statusCode = (err as AppError).statusCode;
-    message = err.message;
-  } else if (err instanceof AppError) {
-    statusCode = err.statusCode;
-    message = err.message;
-  } else if (err instanceof Error) {
-    // For standard errors, use the message but keep 500 status
-    message = err.message;
-  }
+    // If it's an operational error we defined, use its properties
+    // Check for statusCode property first (more reliable than instanceof in some environments)
+    if ('statusCode' in err && typeof (err as AppError).statusCode === 'number') {
+      statusCode = (err as AppError).statusCode;
+      message = err.message;
+    } else if (err instanceof AppError) {
+      statusCode = err.statusCode;
+      message = err.message;
+    } else if (err instanceof Error) {
+      // For standard errors, use the message but keep 500 status
+      message = err.message;
+    }
 
-  // Log error for debugging
-  console.error('Error:', {
-    message: err.message,
-    statusCode,
-    stack: err.stack,
-    path: req.path,
-    method: req.method,
-  });
+    // Log error for debugging
+    logger.error('request failed', {
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      statusCode,
+      error: err,
+    });
 
-  // Build error response with flat structure
-  const errorResponse: ErrorResponse = {
-    success: false,
-    error: message,
-  };
+    // Build error response with flat structure
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: message,
+      ...(req.requestId ? { requestId: req.requestId } : {}),
+    };
 
-  // Include stack trace in development mode only
-  if (process.env.NODE_ENV === 'development' && err.stack) {
-    errorResponse.stack = err.stack;
-  }
+    // Include stack trace in development mode only
+    if (env === 'development' && err.stack) {
+      errorResponse.stack = err.stack;
+    }
 
-  // Send error response
-  res.status(statusCode).json(errorResponse);
+    // Send error response
+    res.status(statusCode).json(errorResponse);
+  };
 }
 
+/**
+ * Global error handler for the configured environment (NODE_ENV)
+ */
+export const errorHandler = createErrorHandler(config.env);
+
 /**
  * 404 Not Found handler for undefined routes
  * Should be registered after all other routes
@@ -74,8 +85,11 @@ export function errorHandler(err: Error | AppError, req: Request, res: Response,
  * @param res - Express response object
  */
 export function notFoundHandler(req: Request, res: Response): void {
-  res.status(404).json({
+  const errorResponse: ErrorResponse = {
     success: false,
     error: `Route ${req.method} ${req.path} not found`,
-  });
+    ...(req.requestId ? { requestId: req.requestId } : {}),
+  };
+
+  res.status(404).json(errorResponse);
 }
@@ -1,53 +1,226 @@
 /**
  * Rate Limiter Middleware
- * Limits the number of requests per IP to prevent abuse
+ * Limits the number of requests per client to prevent abuse
+ *
+ * - Clients are identified by API key, then by install ID (X-Install-Id header), then by IP
+ * - Requests without an API key are also counted per IP, so rotating install IDs cannot reset a limit
+ * - Requests that send an API key are counted per IP before the key is looked up (apiKeyRateLimiter)
+ * - Counters are kept in memory or in Postgres (RATE_LIMIT_STORE), see lib/rateLimitStore.ts
+ * - Limits and windows can be overridden per limiter from the environment (see lib/config.ts)
  */
 
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import type { Request, RequestHandler, Response } from 'express';
+import { createRateLimitStore } from '../lib/rateLimitStore.js';
+import type { RateLimitStoreKind } from '../lib/rateLimitStore.js';
+import { installIdSchema } from '../validators/feedback.validator.js';
+import { metrics } from '../lib/metrics.js';
+import { config } from '../lib/config.js';
+import { getApiKeyFromRequest } from './auth.middleware.js';
+
+/**
+ * Requests allowed per client within a fixed window
+ */
+export interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+/**
+ * Rate limiters applied to the public API
+ */
+export type RateLimiterName = 'read' | 'feedback' | 'batchFeedback' | 'submission' | 'apiKey';
+
+/**
+ * Rate limit settings read from the environment by lib/config.ts
+ */
+export interface RateLimitSettings {
+  store: RateLimitStoreKind;
+  limits: Record<RateLimiterName, RateLimit>;
+}
+
+/**
+ * How many clients' worth of requests one IP may send in total
+ * Lets installs behind one NAT keep separate limits while capping a client that invents new install IDs
+ */
+export const IP_LIMIT_MULTIPLIER = 10;
+
+/**
+ * Identify the IP (or IPv6 /56 subnet) a request comes from
+ * @param req - Express request object
+ * @returns "ip:<ip or IPv6 /56 subnet>"
+ */
+export function getIpRateLimitKey(req: Request): string {
+  return `ip:${ipKeyGenerator(req.ip ?? 'unknown')}`;
+}
+
+/**
+ * Identify the client a request is counted against
+ * Install IDs are chosen by the client, so they only separate installs (e.g. behind one NAT); they are not credentials.
+ * The IP-wide limit in createRateLimiter keeps them from being used to dodge a limit.
+ *
+ * @param req - Express request object (after `authenticate`)
+ * @returns "key:<api key id>", "install:<install id>", or "ip:<ip or IPv6 /56 subnet>"
+ */
+export function getRateLimitKey(req: Request): string {
+  if (req.principal) {
+    return `key:${req.principal.id}`;
+  }
+
+  const installId = installIdSchema.safeParse(req.get('X-Install-Id'));
+  if (installId.success) {
+    return `install:${installId.data.toLowerCase()}`;
+  }
+
+  return getIpRateLimitKey(req);
+}
+
+/**
+ * Options shared by the IP-wide and per-client limiters
+ */
+function limiterOptions(name: RateLimiterName, error: string) {
+  return {
+    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+    // A counter outage should not take the API down with it
+    passOnStoreError: true,
+    handler: (req: Request, res: Response) => {
+      metrics.rateLimitRejections.inc({ limiter: name });
+      res.status(429).json({
+        success: false,
+        error,
+        code: 'RATE_LIMITED',
+        ...(req.requestId ? { requestId: req.requestId } : {}),
+      });
+    },
+  };
+}
+
+/**
+ * Store key prefixes for a limiter's IP-wide and per-client counters
+ * Neither prefix starts with the other, so resetting or cleaning up one store never touches the other's buckets
+ *
+ * @param name - Limiter name
+ * @returns Prefix for each store
+ */
+export function rateLimitStorePrefixes(name: RateLimiterName): { ip: string; client: string } {
+  return { ip: `${name}:ip:`, client: `${name}:client:` };
+}
+
+/**
+ * Create a rate limiter with its own stores
+ * Each request is counted against its client (see getRateLimitKey) and, unless it carries an API key,
+ * against its IP with IP_LIMIT_MULTIPLIER times the limit. Retry-After and RateLimit-* headers are set by
+ * express-rate-limit from the window that ran out.
+ *
+ * @param name - Limiter name, used as the store key prefix
+ * @param limit - Requests allowed per client and window
+ * @param store - Where counters are kept
+ * @param error - Message sent with the 429 response
+ * @returns Express middleware: the IP-wide limiter, then the per-client limiter
+ */
+export function createRateLimiter(
+  name: RateLimiterName,
+  limit: RateLimit,
+  store: RateLimitStoreKind,
+  error: string,
+): RequestHandler[] {
+  const prefixes = rateLimitStorePrefixes(name);
+
+  const ipLimiter = rateLimit({
+    ...limiterOptions(name, error),
+    windowMs: limit.windowMs,
+    limit: limit.max * IP_LIMIT_MULTIPLIER,
+    store: createRateLimitStore(store, prefixes.ip),
+    keyGenerator: getIpRateLimitKey,
+    // API keys are credentials and are limited by key alone
+    skip: (req) => req.principal !== undefined,
+  });
+
+  const clientLimiter = rateLimit({
+    ...limiterOptions(name, error),
+    windowMs: limit.windowMs,
+    limit: limit.max,
+    store: createRateLimitStore(store, prefixes.client),
+    keyGenerator: getRateLimitKey,
+  });
+
+  return [ipLimiter, clientLimiter];
+}
+
+/**
+ * Create a per-IP limiter for requests that send an API key
+ * Runs before `authenticate`, so a client cycling through made-up keys is stopped before each one is looked up.
+ * Requests without a key are not counted (they never reach the key lookup).
+ *
+ * @param limit - Requests with a key allowed per IP and window
+ * @param store - Where counters are kept
+ * @param error - Message sent with the 429 response
+ * @returns Express middleware
+ */
+export function createApiKeyRateLimiter(limit: RateLimit, store: RateLimitStoreKind, error: string): RequestHandler {
+  return rateLimit({
+    ...limiterOptions('apiKey', error),
+    windowMs: limit.windowMs,
+    limit: limit.max,
+    store: createRateLimitStore(store, 'apiKey:'),
+    keyGenerator: getIpRateLimitKey,
+    skip: (req) => getApiKeyFromRequest(req) === null,
+  });
+}
+
+const settings = config.rateLimits;
+
+/**
+ * Rate limiter for requests that send an API key, applied before the key is looked up
+ * Allows 1000 requests per 15 minutes per IP by default
+ */
+export const apiKeyRateLimiter = createApiKeyRateLimiter(
+  settings.limits.apiKey,
+  settings.store,
+  'Too many API key requests, please try again later.',
+);
+
+/**
+ * Rate limiter for coupon lookups
+ * Allows 300 requests per 15 minutes per client by default
+ */
+export const readRateLimiter = createRateLimiter(
+  'read',
+  settings.limits.read,
+  settings.store,
+  'Too many coupon requests, please try again later.',
+);
 
 /**
  * Rate limiter for feedback endpoints
- * Allows 100 requests per hour per IP
- */
-export const feedbackRateLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour window
-  max: 100, // Limit each IP to 100 requests per windowMs
-  message: {
-    success: false,
-    error: 'Too many feedback requests from this IP, please try again later.',
-    code: 'RATE_LIMITED',
-  },
-  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-  // Add Retry-After header
-  handler: (req, res) => {
-    res.status(429).set('Retry-After', '3600').json({
-      success: false,
-      error: 'Too many feedback requests from this IP, please try again later.',
-      code: 'RATE_LIMITED',
-    });
-  },
-});
+ * Allows 100 requests per hour per client by default
+ */
+export const feedbackRateLimiter = createRateLimiter(
+  'feedback',
+  settings.limits.feedback,
+  settings.store,
+  'Too many feedback requests, please try again later.',
+);
 
 /**
  * Stricter rate limiter for batch feedback endpoint
- * Allows 50 requests per hour per IP (since batch can contain up to 100 items)
- */
-export const batchFeedbackRateLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour window
-  max: 50, // Limit each IP to 50 batch requests per windowMs
-  message: {
-    success: false,
-    error: 'Too many batch feedback requests from this IP, please try again later.',
-    code: 'RATE_LIMITED',
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    res.status(429).set('Retry-After', '3600').json({
-      success: false,
-      error: 'Too many batch feedback requests from this IP, please try again later.',
-      code: 'RATE_LIMITED',
-    });
-  },
-});
+ * Allows 50 requests per hour per client by default (since batch can contain up to 100 items)
+ */
+export const batchFeedbackRateLimiter = createRateLimiter(
+  'batchFeedback',
+  settings.limits.batchFeedback,
+  settings.store,
+  'Too many batch feedback requests, please try again later.',
+);
+
+/**
+ * Rate limiter for community coupon submissions
+ * Allows 10 submissions per hour per client by default (each one needs manual review)
+ */
+export const submissionRateLimiter = createRateLimiter(
+  'submission',
+  settings.limits.submission,
+  settings.store,
+  'Too many coupon submissions, please try again later.',
+);
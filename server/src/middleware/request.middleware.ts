@@ -0,0 +1,92 @@
+/**
+ * Request Middleware
+ * Tags each request with a correlation ID, and logs and measures it once the response is sent
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { metrics, secondsSince } from '../lib/metrics.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /**
+     * Correlation ID from the X-Request-Id header, or generated for this request
+     */
+    requestId?: string;
+  }
+}
+
+/**
+ * Header carrying the request ID, in both directions
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Request IDs accepted from callers (e.g. a proxy's ID); anything else is replaced so logs stay parseable
+ */
+const incomingRequestIdSchema = z.string().regex(/^[\w.:-]{1,128}$/);
+
+/**
+ * Accept the caller's X-Request-Id or generate one, and echo it in the response
+ * Must run before any middleware that logs or sends errors
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export function requestId(req: Request, res: Response, next: NextFunction): void {
+  const incoming = incomingRequestIdSchema.safeParse(req.get(REQUEST_ID_HEADER));
+  req.requestId = incoming.success ? incoming.data : randomUUID();
+  res.set(REQUEST_ID_HEADER, req.requestId);
+  next();
+}
+
+/**
+ * Log method, route, status, and latency of each request when its response has been sent,
+ * and count it in the HTTP request metrics
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction): void {
+  const startedAt = process.hrtime.bigint();
+
+  // Record the full route (e.g. "/api/v1/coupons/:id") when a router matches it:
+  // req.baseUrl is reset once an error is passed out of the router, so it cannot be read after the response
+  let route: string | undefined;
+  let matchedRoute: unknown;
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => matchedRoute,
+    set: (value: { path?: unknown } | undefined) => {
+      matchedRoute = value;
+      if (typeof value?.path === 'string') {
+        route = `${req.baseUrl}${value.path}`;
+      }
+    },
+  });
+
+  res.on('finish', () => {
+    const seconds = secondsSince(startedAt);
+
+    logger.info('request completed', {
+      requestId: req.requestId,
+      method: req.method,
+      // Unmatched requests are logged by path, without the query string (which may hold browsing data)
+      route: route ?? req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      latencyMs: Math.round(seconds * 1e6) / 1000,
+    });
+
+    // Unmatched paths share one series so scanners cannot create unbounded label values
+    const labels = { method: req.method, route: route ?? 'unmatched' };
+    metrics.httpRequests.inc({ ...labels, status: String(res.statusCode) });
+    metrics.httpRequestDuration.observe(labels, seconds);
+  });
+
+  next();
+}
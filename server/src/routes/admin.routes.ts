@@ -0,0 +1,149 @@
+/**
+ * Admin Routes
+ * API route definitions for admin management endpoints
+ */
+
+import express, { Router } from 'express';
+import {
+  getRetailers,
+  addRetailer,
+  editRetailer,
+  removeRetailer,
+  getRetailerDomains,
+  addRetailerDomain,
+  removeRetailerDomain,
+} from '../controllers/retailer.controller.js';
+import {
+  addCoupon,
+  editCoupon,
+  markCouponExpired,
+  removeCoupon,
+  bulkImportCoupons,
+  getPendingCoupons,
+  approveCoupon,
+  rejectCoupon,
+  getFeedbackReviews,
+  applyFeedbackReview,
+  dismissFeedbackReview,
+} from '../controllers/coupon.controller.js';
+import { requireRole } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+/**
+ * Admin routes require an API key; roles are checked per route
+ */
+const adminOnly = requireRole('admin');
+const adminOrScraper = requireRole('admin', 'scraper');
+
+/**
+ * GET /api/v1/admin/retailers?page=1&pageSize=20&search=nike&isActive=true
+ * List retailers with pagination and optional search
+ */
+router.get('/retailers', adminOnly, getRetailers);
+
+/**
+ * POST /api/v1/admin/retailers
+ * Create a new retailer
+ */
+router.post('/retailers', adminOnly, addRetailer);
+
+/**
+ * PATCH /api/v1/admin/retailers/:id
+ * Update a retailer (including selectorConfig, isActive, logoUrl)
+ */
+router.patch('/retailers/:id', adminOnly, editRetailer);
+
+/**
+ * DELETE /api/v1/admin/retailers/:id
+ * Delete a retailer and all of its coupons
+ */
+router.delete('/retailers/:id', adminOnly, removeRetailer);
+
+/**
+ * GET /api/v1/admin/retailers/:id/domains
+ * List a retailer's domain aliases
+ */
+router.get('/retailers/:id/domains', adminOnly, getRetailerDomains);
+
+/**
+ * POST /api/v1/admin/retailers/:id/domains
+ * Add a domain alias (e.g., "nike.co.uk" with region "GB")
+ */
+router.post('/retailers/:id/domains', adminOnly, addRetailerDomain);
+
+/**
+ * DELETE /api/v1/admin/retailers/:id/domains/:domainId
+ * Remove a domain alias
+ */
+router.delete('/retailers/:id/domains/:domainId', adminOnly, removeRetailerDomain);
+
+/**
+ * POST /api/v1/admin/coupons
+ * Create a coupon for a retailer (identified by domain)
+ */
+router.post('/coupons', adminOnly, addCoupon);
+
+/**
+ * POST /api/v1/admin/coupons/import
+ * Bulk import coupons from CSV (Content-Type: text/csv) or a JSON array
+ * Upserts on (retailer, code) and returns a per-row report
+ * Also available to scraper keys
+ */
+router.post('/coupons/import', adminOrScraper, express.text({ type: 'text/csv', limit: '1mb' }), bulkImportCoupons);
+
+/**
+ * GET /api/v1/admin/coupons/pending?page=1&pageSize=20
+ * List community submissions waiting for moderation
+ */
+router.get('/coupons/pending', adminOnly, getPendingCoupons);
+
+/**
+ * POST /api/v1/admin/coupons/:id/approve
+ * Approve a pending submission
+ */
+router.post('/coupons/:id/approve', adminOnly, approveCoupon);
+
+/**
+ * POST /api/v1/admin/coupons/:id/reject
+ * Reject a pending submission
+ */
+router.post('/coupons/:id/reject', adminOnly, rejectCoupon);
+
+/**
+ * PATCH /api/v1/admin/coupons/:id
+ * Update a coupon
+ */
+router.patch('/coupons/:id', adminOnly, editCoupon);
+
+/**
+ * POST /api/v1/admin/coupons/:id/expire
+ * Expire a coupon immediately
+ */
+router.post('/coupons/:id/expire', adminOnly, markCouponExpired);
+
+/**
+ * DELETE /api/v1/admin/coupons/:id
+ * Delete a coupon
+ */
+router.delete('/coupons/:id', adminOnly, removeCoupon);
+
+/**
+ * GET /api/v1/admin/feedback/reviews?page=1&pageSize=20
+ * List flagged feedback votes waiting for moderation
+ */
+router.get('/feedback/reviews', adminOnly, getFeedbackReviews);
+
+/**
+ * POST /api/v1/admin/feedback/reviews/:id/apply
+ * Count a flagged vote in its coupon's counters
+ */
+router.post('/feedback/reviews/:id/apply', adminOnly, applyFeedbackReview);
+
+/**
+ * POST /api/v1/admin/feedback/reviews/:id/dismiss
+ * Dismiss a flagged vote without counting it
+ */
+router.post('/feedback/reviews/:id/dismiss', adminOnly, dismissFeedbackReview);
+
+export default router;
@@ -4,28 +4,62 @@
  */
 
 import { Router } from 'express';
-import { getCoupons, submitCouponFeedback, submitBatchCouponFeedback } from '../controllers/coupon.controller.js';
-import { feedbackRateLimiter, batchFeedbackRateLimiter } from '../middleware/rateLimiter.js';
+import {
+  getCoupons,
+  lookupCoupons,
+  submitCoupon,
+  submitCouponFeedback,
+  submitBatchCouponFeedback,
+} from '../controllers/coupon.controller.js';
+import { getCouponStatistics } from '../controllers/stats.controller.js';
+import {
+  readRateLimiter,
+  feedbackRateLimiter,
+  batchFeedbackRateLimiter,
+  submissionRateLimiter,
+} from '../middleware/rateLimiter.js';
 
 const router = Router();
 
 /**
  * GET /api/v1/coupons?domain=example.com
  * Retrieve coupons for a specific retailer domain
+ * Rate limited: 300 requests per 15 minutes per client
  */
-router.get('/coupons', getCoupons);
+router.get('/coupons', readRateLimiter, getCoupons);
+
+/**
+ * POST /api/v1/coupons
+ * Submit a coupon for moderation (no API key required)
+ * Rate limited: 10 requests per hour per client
+ */
+router.post('/coupons', submissionRateLimiter, submitCoupon);
+
+/**
+ * POST /api/v1/coupons/lookup
+ * Coupon counts and list hashes for up to 50 domains in one request
+ * Rate limited: 300 requests per 15 minutes per client
+ */
+router.post('/coupons/lookup', readRateLimiter, lookupCoupons);
+
+/**
+ * GET /api/v1/coupons/:id/stats
+ * Success rates, discount medians and failure breakdowns for a coupon
+ * Rate limited: 300 requests per 15 minutes per client
+ */
+router.get('/coupons/:id/stats', readRateLimiter, getCouponStatistics);
 
 /**
  * POST /api/v1/coupons/:id/feedback
  * Submit feedback for a specific coupon
- * Rate limited: 100 requests per hour per IP
+ * Rate limited: 100 requests per hour per client
  */
 router.post('/coupons/:id/feedback', feedbackRateLimiter, submitCouponFeedback);
 
 /**
  * POST /api/v1/coupons/feedback/batch
  * Submit feedback for multiple coupons in a single request
- * Rate limited: 50 requests per hour per IP
+ * Rate limited: 50 requests per hour per client
  */
 router.post('/coupons/feedback/batch', batchFeedbackRateLimiter, submitBatchCouponFeedback);
 
@@ -0,0 +1,17 @@
+/**
+ * Docs Routes
+ * API route definitions for machine-readable API documentation
+ */
+
+import { Router } from 'express';
+import { getOpenApiDocument } from '../controllers/docs.controller.js';
+
+const router = Router();
+
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3.1 document generated from the validators and public routes
+ */
+router.get('/openapi.json', getOpenApiDocument);
+
+export default router;
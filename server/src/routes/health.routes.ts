@@ -0,0 +1,37 @@
+/**
+ * Health Routes
+ * Route definitions for liveness and readiness probes
+ */
+
+import { Router } from 'express';
+import { getLiveness, getReadiness } from '../controllers/health.controller.js';
+import type { ProbeDatabase } from '../services/health.service.js';
+
+/**
+ * Create the health routes
+ * @param db - Database client probed by the readiness check
+ * @returns Express router
+ */
+export function createHealthRoutes(db: ProbeDatabase): Router {
+  const router = Router();
+
+  /**
+   * GET /health
+   * Liveness probe (kept for existing monitors)
+   */
+  router.get('/health', getLiveness);
+
+  /**
+   * GET /health/live
+   * Liveness probe: the process is up
+   */
+  router.get('/health/live', getLiveness);
+
+  /**
+   * GET /health/ready
+   * Readiness probe: the database is reachable and fully migrated (503 otherwise)
+   */
+  router.get('/health/ready', getReadiness(db));
+
+  return router;
+}
@@ -0,0 +1,24 @@
+/**
+ * Metrics Routes
+ * Route definitions for operational metrics
+ */
+
+import { Router } from 'express';
+import { getMetrics } from '../controllers/metrics.controller.js';
+
+/**
+ * Create the metrics routes
+ * @param token - Bearer token required to read metrics (open when undefined)
+ * @returns Express router
+ */
+export function createMetricsRoutes(token: string | undefined): Router {
+  const router = Router();
+
+  /**
+   * GET /metrics
+   * Prometheus metrics (protected by the metrics token when set)
+   */
+  router.get('/metrics', getMetrics(token));
+
+  return router;
+}
@@ -0,0 +1,27 @@
+/**
+ * Retailer Routes
+ * API route definitions for public retailer endpoints
+ */
+
+import { Router } from 'express';
+import { browseRetailers } from '../controllers/retailer.controller.js';
+import { getRetailerStatistics } from '../controllers/stats.controller.js';
+import { readRateLimiter } from '../middleware/rateLimiter.js';
+
+const router = Router();
+
+/**
+ * GET /api/v1/retailers?search=nik&hasCoupons=true&limit=20&cursor=...
+ * Search the retailer directory by name or domain prefix
+ * Rate limited: 300 requests per 15 minutes per client
+ */
+router.get('/retailers', readRateLimiter, browseRetailers);
+
+/**
+ * GET /api/v1/retailers/nike.com/stats
+ * Aggregate test counts and savings for a retailer
+ * Rate limited: 300 requests per 15 minutes per client
+ */
+router.get('/retailers/:domain/stats', readRateLimiter, getRetailerStatistics);
+
+export default router;
@@ -0,0 +1,37 @@
+/**
+ * Create API Key Script
+ * Mints a new API key and prints it once
+ *
+ * Usage: npm run apikey:create -- --label "Admin dashboard" --role admin
+ */
+
+import { parseArgs } from 'node:util';
+import { db } from '../lib/db.js';
+import { parseWithSchema } from '../lib/validation.js';
+import { createApiKey } from '../services/apiKey.service.js';
+import { createApiKeySchema } from '../validators/apiKey.validator.js';
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      label: { type: 'string' },
+      role: { type: 'string' },
+    },
+  });
+
+  const input = parseWithSchema(createApiKeySchema, values, 'arguments');
+  const { apiKey, key } = await createApiKey(input);
+
+  console.log(`🔑 Created ${apiKey.role} API key "${apiKey.label}" (${apiKey.id})`);
+  console.log('   Store it now, it will not be shown again:');
+  console.log(`   ${key}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to create API key:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,31 @@
+/**
+ * Prune Stale Coupons Script
+ * Runs the coupon prune job once and prints what changed
+ *
+ * Usage: npm run prune:coupons
+ * Thresholds are read from PRUNE_* environment variables (see README)
+ */
+
+import { db } from '../lib/db.js';
+import { formatPruneSummary, pruneStaleCoupons } from '../jobs/pruneStaleCoupons.js';
+
+async function main(): Promise<void> {
+  const summary = await pruneStaleCoupons();
+
+  console.log(`🧹 ${formatPruneSummary(summary)}`);
+  if (summary.markedStale.length > 0) {
+    console.log(`   Marked stale: ${summary.markedStale.join(', ')}`);
+  }
+  if (summary.disabled.length > 0) {
+    console.log(`   Disabled: ${summary.disabled.join(', ')}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to prune coupons:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
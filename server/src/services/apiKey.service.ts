@@ -0,0 +1,116 @@
+/**
+ * API Key Service
+ * Creation, lookup, and revocation of hashed API keys
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { db } from '../lib/db.js';
+import { NotFoundError, isPrismaError } from '../lib/errors.js';
+import type { ApiKey } from '../generated/prisma/index.js';
+import type { ApiKeyRole, CreateApiKeyInput } from '../validators/apiKey.validator.js';
+
+/**
+ * Prefix for every generated key, so leaked keys are easy to recognize
+ */
+const KEY_PREFIX = 'oc_';
+
+/**
+ * Number of leading key characters stored in plaintext for identification
+ */
+const VISIBLE_PREFIX_LENGTH = 11;
+
+/**
+ * lastUsedAt is only rewritten once it is this old, so busy keys do not cost a write per request
+ */
+export const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Authenticated caller resolved from an API key
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  label: string;
+  role: ApiKeyRole;
+}
+
+/**
+ * Hash an API key for storage and lookup
+ * @param key - Plaintext API key
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a new API key
+ * The plaintext key is returned once and never stored
+ *
+ * @param input - Validated label and role
+ * @returns Stored API key record and the plaintext key
+ */
+export async function createApiKey(input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await db.apiKey.create({
+    data: {
+      keyHash: hashApiKey(key),
+      prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+      label: input.label,
+      role: input.role,
+    },
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * Resolve a plaintext API key to its principal
+ * Records the time of use on success, at most once per LAST_USED_RESOLUTION_MS
+ *
+ * @param key - Plaintext API key from the request
+ * @param now - Time of the request (defaults to now)
+ * @returns Principal for the key, or null if the key is unknown or revoked
+ */
+export async function resolveApiKey(key: string, now: Date = new Date()): Promise<ApiKeyPrincipal | null> {
+  const apiKey = await db.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+  });
+
+  if (!apiKey || apiKey.revoked) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await db.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    id: apiKey.id,
+    label: apiKey.label,
+    role: apiKey.role as ApiKeyRole,
+  };
+}
+
+/**
+ * Revoke an API key so it can no longer authenticate
+ * @param id - UUID of the API key
+ * @returns Updated API key record
+ * @throws NotFoundError if the key does not exist
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey> {
+  try {
+    return await db.apiKey.update({
+      where: { id },
+      data: { revoked: true },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      throw new NotFoundError(`API key not found with ID: ${id}`);
+    }
+    throw error;
+  }
+}
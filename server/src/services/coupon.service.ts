@@ -3,49 +3,89 @@
  * Business logic for coupon operations
  */
 
+import { createHash } from 'node:crypto';
 import { db } from '../lib/db.js';
-import { NotFoundError } from '../lib/errors.js';
-import type { Coupon } from '../generated/prisma/index.js';
+import { ConflictError, NotFoundError, isPrismaError } from '../lib/errors.js';
+import type { Coupon, Prisma, Retailer } from '../generated/prisma/index.js';
+import { normalizeHostname } from '../lib/domain.js';
+import { findRetailerByHostname, findRetailersByHostnames } from './retailer.service.js';
+import { rankCoupons, type ScoredCoupon } from './ranking.service.js';
+import type { CouponListQuery, CreateCouponInput, UpdateCouponInput } from '../validators/coupon.validator.js';
 
 /**
- * Extract hostname from a URL string
- * @param url - Full URL or domain string
- * @returns Normalized hostname (e.g., "nike.com")
+ * Retailer fields served alongside its coupons
+ * selectorConfig lets the extension use retailer-specific selectors instead of heuristics
  */
-function extractHostname(url: string): string {
-  try {
-    // If it's already just a domain (no protocol), add one temporarily
-    const urlWithProtocol = url.includes('://') ? url : `https://${url}`;
-    const hostname = new URL(urlWithProtocol).hostname;
+export type ServedRetailer = Pick<Retailer, 'id' | 'domain' | 'name' | 'logoUrl' | 'homeUrl' | 'selectorConfig'>;
+
+/**
+ * Coupons served for a domain, with the retailer they belong to
+ */
+export interface CouponSet {
+  retailer: ServedRetailer;
+  coupons: ScoredCoupon[];
+}
+
+/**
+ * Result of a bulk lookup for one hostname
+ */
+export interface CouponLookupResult {
+  domain: string;
+  /** Whether an active retailer serves the hostname */
+  found: boolean;
+  couponCount: number;
+  /** Hash of the default coupon list (the GET /coupons ETag without quotes), or null when not found */
+  hash: string | null;
+}
 
-    // Remove 'www.' prefix if present for consistent matching
-    return hostname.replace(/^www\./, '');
-  } catch {
-    // If URL parsing fails, return the cleaned input
-    return url.replace(/^www\./, '').toLowerCase();
+/**
+ * Pick the retailer fields served alongside its coupons
+ */
+function toServedRetailer(retailer: Retailer): ServedRetailer {
+  return {
+    id: retailer.id,
+    domain: retailer.domain,
+    name: retailer.name,
+    logoUrl: retailer.logoUrl,
+    homeUrl: retailer.homeUrl,
+    selectorConfig: retailer.selectorConfig,
+  };
+}
+
+/**
+ * Build the filter for coupons served to clients
+ * Only active and stale coupons that have not passed their expiry date are served by default;
+ * disabled and pending-review coupons are never served
+ *
+ * @param includeExpired - Also include expired coupons (for debugging)
+ * @param now - Reference time for expiry checks
+ * @returns Prisma where clause for the retailer's coupons
+ */
+export function buildServedCouponsWhere(includeExpired: boolean, now: Date): Prisma.CouponWhereInput {
+  if (includeExpired) {
+    return { status: { in: ['active', 'stale', 'expired'] } };
   }
+
+  return {
+    status: { in: ['active', 'stale'] },
+    OR: [{ expiryDate: null }, { expiryDate: { gt: now } }],
+  };
 }
 
 /**
  * Find coupons for a given retailer domain
+ * Subdomains and aliases resolve to their retailer (e.g., "m.nike.com" or "nike.co.uk" → Nike)
+ *
  * @param domain - The retailer's domain (e.g., "nike.com" or "https://www.nike.com")
- * @returns Array of coupons ordered by success rate
+ * @param options - Ordering (defaults to confidence score) and whether to include expired coupons
+ * @returns The retailer and its coupons with their confidence score, in the requested order
  * @throws NotFoundError if retailer is not found
  */
-export async function getCouponsByDomain(domain: string): Promise<Coupon[]> {
-  const hostname = extractHostname(domain);
+export async function getCouponsByDomain(domain: string, options: Partial<CouponListQuery> = {}): Promise<CouponSet> {
+  const hostname = normalizeHostname(domain);
+  const now = new Date();
 
-  // Find the retailer by domain
-  const retailer = await db.retailer.findUnique({
-    where: { domain: hostname },
-    include: {
-      coupons: {
-        orderBy: {
-          successCount: 'desc',
-        },
-      },
-    },
-  });
+  const retailer = await findRetailerByHostname(hostname);
 
   if (!retailer) {
     throw new NotFoundError(`No retailer found for domain: ${hostname}`);
@@ -56,5 +96,193 @@ export async function getCouponsByDomain(domain: string): Promise<Coupon[]> {
     throw new NotFoundError(`Retailer is not active: ${hostname}`);
   }
 
-  return retailer.coupons;
+  // Coupons are ordered after scoring
+  const coupons = await db.coupon.findMany({
+    where: {
+      retailerId: retailer.id,
+      ...buildServedCouponsWhere(options.includeExpired ?? false, now),
+    },
+  });
+
+  return {
+    retailer: toServedRetailer(retailer),
+    coupons: rankCoupons(coupons, options.sort, now),
+  };
+}
+
+/**
+ * Hash a served coupon set for use as a strong ETag
+ * Every stored field is covered, so a new counter, status, expiry, order, or retailer setting changes the hash.
+ * The score is left out: it decays with time, and hashing it would change the ETag every few minutes
+ * for coupons that have not changed.
+ *
+ * @param couponSet - Retailer and coupons exactly as they are sent to the client
+ * @returns URL-safe base64 SHA-256 digest of the JSON representation, without scores
+ */
+export function computeCouponSetHash(couponSet: CouponSet): string {
+  const stored = {
+    retailer: couponSet.retailer,
+    coupons: couponSet.coupons.map(({ score: _score, ...coupon }) => coupon),
+  };
+  return createHash('sha256').update(JSON.stringify(stored)).digest('base64url');
+}
+
+/**
+ * Look up the coupon sets served for several hostnames at once
+ * Hostnames resolve as in getCouponsByDomain, with one retailer query and one coupon query in total.
+ * The hash covers the default listing (score order, no expired coupons), so a client can compare it
+ * with the ETag of a cached GET /coupons response.
+ *
+ * @param hostnames - Normalized hostnames (see normalizeHostname)
+ * @param now - Reference time for expiry checks and scoring
+ * @returns One result per distinct hostname, in request order
+ */
+export async function lookupCouponSets(hostnames: string[], now: Date = new Date()): Promise<CouponLookupResult[]> {
+  const uniqueHostnames = [...new Set(hostnames)];
+  const retailers = await findRetailersByHostnames(uniqueHostnames);
+
+  // Inactive retailers are reported as not found, like the 404 from getCouponsByDomain
+  const activeRetailers = new Map<string, Retailer>();
+  for (const retailer of retailers.values()) {
+    if (retailer?.isActive) activeRetailers.set(retailer.id, retailer);
+  }
+
+  const coupons =
+    activeRetailers.size > 0
+      ? await db.coupon.findMany({
+          where: {
+            retailerId: { in: [...activeRetailers.keys()] },
+            ...buildServedCouponsWhere(false, now),
+          },
+        })
+      : [];
+
+  // Several hostnames may resolve to the same retailer; hash its set once
+  const summaries = new Map<string, { couponCount: number; hash: string }>();
+  for (const retailer of activeRetailers.values()) {
+    const couponSet: CouponSet = {
+      retailer: toServedRetailer(retailer),
+      coupons: rankCoupons(
+        coupons.filter((coupon) => coupon.retailerId === retailer.id),
+        'score',
+        now,
+      ),
+    };
+    summaries.set(retailer.id, { couponCount: couponSet.coupons.length, hash: computeCouponSetHash(couponSet) });
+  }
+
+  return uniqueHostnames.map((domain) => {
+    const retailer = retailers.get(domain);
+    const summary = retailer ? summaries.get(retailer.id) : undefined;
+
+    return summary ? { domain, found: true, ...summary } : { domain, found: false, couponCount: 0, hash: null };
+  });
+}
+
+/**
+ * Create a coupon for a retailer (admin operation)
+ * @param input - Validated coupon data, with the retailer identified by domain
+ * @returns Created coupon
+ * @throws NotFoundError if no retailer exists for the domain
+ * @throws ConflictError if the retailer already has a coupon with the same code
+ */
+export async function createCoupon(input: CreateCouponInput): Promise<Coupon> {
+  const retailer = await db.retailer.findUnique({
+    where: { domain: input.domain },
+  });
+
+  if (!retailer) {
+    throw new NotFoundError(`No retailer found for domain: ${input.domain}`);
+  }
+
+  try {
+    return await db.coupon.create({
+      data: {
+        code: input.code,
+        description: input.description,
+        expiryDate: input.expiryDate ?? null,
+        source: input.source ?? 'admin',
+        status: input.status ?? 'active',
+        retailerId: retailer.id,
+      },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2002')) {
+      throw new ConflictError(`Coupon ${input.code} already exists for domain: ${input.domain}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a coupon (admin operation)
+ * Success/failure counters are never changed here; they come from feedback only
+ *
+ * @param id - UUID of the coupon
+ * @param input - Validated fields to update
+ * @returns Updated coupon
+ * @throws NotFoundError if the coupon does not exist
+ * @throws ConflictError if the new code is already used by the same retailer
+ */
+export async function updateCoupon(id: string, input: UpdateCouponInput): Promise<Coupon> {
+  const data: Prisma.CouponUpdateInput = {};
+
+  if (input.code !== undefined) data.code = input.code;
+  if (input.description !== undefined) data.description = input.description;
+  if (input.expiryDate !== undefined) data.expiryDate = input.expiryDate;
+  if (input.source !== undefined) data.source = input.source;
+  if (input.status !== undefined) data.status = input.status;
+
+  try {
+    return await db.coupon.update({
+      where: { id },
+      data,
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      throw new NotFoundError(`Coupon not found with ID: ${id}`);
+    }
+    if (isPrismaError(error, 'P2002')) {
+      throw new ConflictError(`Coupon ${input.code} already exists for this retailer`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expire a coupon immediately by setting its expiry date to now and its status to expired (admin operation)
+ * @param id - UUID of the coupon
+ * @returns Updated coupon
+ * @throws NotFoundError if the coupon does not exist
+ */
+export async function expireCoupon(id: string): Promise<Coupon> {
+  try {
+    return await db.coupon.update({
+      where: { id },
+      data: { expiryDate: new Date(), status: 'expired' },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      throw new NotFoundError(`Coupon not found with ID: ${id}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a coupon (admin operation)
+ * @param id - UUID of the coupon
+ * @throws NotFoundError if the coupon does not exist
+ */
+export async function deleteCoupon(id: string): Promise<void> {
+  try {
+    await db.coupon.delete({
+      where: { id },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      throw new NotFoundError(`Coupon not found with ID: ${id}`);
+    }
+    throw error;
+  }
 }
@@ -0,0 +1,156 @@
+/**
+ * Coupon Import Service
+ * Bulk coupon import for curators and scrapers
+ */
+
+import { db } from '../lib/db.js';
+import { formatZodIssues } from '../lib/validation.js';
+import { importCouponRowSchema } from '../validators/coupon.validator.js';
+import type { ImportCouponRow } from '../validators/coupon.validator.js';
+
+/**
+ * Outcome of importing a single row
+ */
+export type ImportRowStatus = 'created' | 'updated' | 'rejected';
+
+/**
+ * Per-row import report entry
+ */
+export interface ImportRowResult {
+  row: number; // 1-based position in the submitted rows
+  domain?: string;
+  code?: string;
+  status: ImportRowStatus;
+  couponId?: string;
+  error?: string;
+}
+
+/**
+ * Summary of a bulk import
+ */
+export interface ImportReport {
+  created: number;
+  updated: number;
+  rejected: number;
+  results: ImportRowResult[];
+}
+
+/**
+ * Import coupons keyed by retailer domain
+ * Rows are upserted on the (retailerId, code) unique constraint. Invalid rows and rows
+ * for unknown retailers are rejected individually; valid rows are written in one transaction.
+ * When the same code appears twice for a retailer, the later row wins and is reported as updated.
+ *
+ * @param rows - Raw rows from a CSV file or JSON array
+ * @returns Report with one entry per submitted row
+ */
+export async function importCoupons(rows: unknown[]): Promise<ImportReport> {
+  const results: ImportRowResult[] = [];
+  const validRows: Array<{ row: number; data: ImportCouponRow }> = [];
+
+  // Step 1: Validate every row on its own
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const parsed = importCouponRowSchema.safeParse(raw);
+
+    if (parsed.success) {
+      validRows.push({ row, data: parsed.data });
+    } else {
+      const rawRecord = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+      results[index] = {
+        row,
+        ...(typeof rawRecord.domain === 'string' && { domain: rawRecord.domain }),
+        ...(typeof rawRecord.code === 'string' && { code: rawRecord.code }),
+        status: 'rejected',
+        error: formatZodIssues(parsed.error.issues),
+      };
+    }
+  });
+
+  // Step 2: Resolve retailers and existing coupons in bulk
+  const domains = [...new Set(validRows.map(({ data }) => data.domain))];
+  const retailers =
+    domains.length > 0
+      ? await db.retailer.findMany({
+          where: { domain: { in: domains } },
+          select: { id: true, domain: true },
+        })
+      : [];
+  const retailerIdByDomain = new Map(retailers.map((retailer) => [retailer.domain, retailer.id]));
+
+  const retailerIds = [...retailerIdByDomain.values()];
+  const existingCoupons =
+    retailerIds.length > 0
+      ? await db.coupon.findMany({
+          where: {
+            retailerId: { in: retailerIds },
+            code: { in: validRows.map(({ data }) => data.code) },
+          },
+          select: { retailerId: true, code: true },
+        })
+      : [];
+  const existingKeys = new Set(existingCoupons.map((coupon) => `${coupon.retailerId}:${coupon.code}`));
+
+  // Step 3: Plan upserts
+  const planned: Array<{ row: number; data: ImportCouponRow; retailerId: string; status: ImportRowStatus }> = [];
+
+  for (const { row, data } of validRows) {
+    const retailerId = retailerIdByDomain.get(data.domain);
+
+    if (!retailerId) {
+      results[row - 1] = {
+        row,
+        domain: data.domain,
+        code: data.code,
+        status: 'rejected',
+        error: `No retailer found for domain: ${data.domain}`,
+      };
+      continue;
+    }
+
+    const key = `${retailerId}:${data.code}`;
+    planned.push({ row, data, retailerId, status: existingKeys.has(key) ? 'updated' : 'created' });
+    existingKeys.add(key);
+  }
+
+  // Step 4: Write all valid rows atomically
+  const coupons =
+    planned.length === 0
+      ? []
+      : await db.$transaction(
+          planned.map(({ data, retailerId }) =>
+            db.coupon.upsert({
+              where: { retailerId_code: { retailerId, code: data.code } },
+              create: {
+                code: data.code,
+                description: data.description,
+                expiryDate: data.expiryDate ?? null,
+                source: data.source ?? 'admin',
+                retailerId,
+              },
+              update: {
+                description: data.description,
+                ...(data.expiryDate !== undefined && { expiryDate: data.expiryDate }),
+                ...(data.source !== undefined && { source: data.source }),
+              },
+            }),
+          ),
+        );
+
+  planned.forEach(({ row, data, status }, index) => {
+    results[row - 1] = {
+      row,
+      domain: data.domain,
+      code: data.code,
+      status,
+      ...(coupons[index] && { couponId: coupons[index].id }),
+    };
+  });
+
+  return {
+    created: results.filter((result) => result.status === 'created').length,
+    updated: results.filter((result) => result.status === 'updated').length,
+    rejected: results.filter((result) => result.status === 'rejected').length,
+    results,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Coupon Submission Service
+ * Community coupon submissions and their moderation queue
+ */
+
+import { db } from '../lib/db.js';
+import { ConflictError, NotFoundError, isPrismaError } from '../lib/errors.js';
+import { findRetailerByHostname } from './retailer.service.js';
+import type { Coupon, Retailer } from '../generated/prisma/index.js';
+import type {
+  CouponStatus,
+  ListPendingCouponsQuery,
+  ReviewDecision,
+  SubmitCouponInput,
+} from '../validators/coupon.validator.js';
+
+/**
+ * Pending submission with the retailer it was submitted for
+ */
+export type PendingCoupon = Coupon & { retailer: Pick<Retailer, 'id' | 'domain' | 'name'> };
+
+/**
+ * Status a pending submission moves to for each moderation decision
+ */
+const REVIEW_STATUS: Record<ReviewDecision, CouponStatus> = {
+  approve: 'active',
+  reject: 'disabled',
+};
+
+/**
+ * Submit a coupon from the community
+ * Submissions are stored as pending-review and are not served until an admin approves them
+ *
+ * @param input - Validated submission (domain already normalized)
+ * @returns Created coupon
+ * @throws NotFoundError if no active retailer matches the domain
+ * @throws ConflictError if the retailer already has the code (in any status, compared case-insensitively)
+ */
+export async function createCouponSubmission(input: SubmitCouponInput): Promise<Coupon> {
+  const retailer = await findRetailerByHostname(input.domain);
+
+  if (!retailer || !retailer.isActive) {
+    throw new NotFoundError(`No retailer found for domain: ${input.domain}`);
+  }
+
+  // Codes are usually case-insensitive at checkout, so "save20" duplicates "SAVE20"
+  const existing = await db.coupon.findFirst({
+    where: {
+      retailerId: retailer.id,
+      code: { equals: input.code, mode: 'insensitive' },
+    },
+  });
+
+  if (existing) {
+    throw new ConflictError(`Coupon ${input.code} has already been submitted for ${retailer.domain}`);
+  }
+
+  try {
+    return await db.coupon.create({
+      data: {
+        code: input.code,
+        description: input.description,
+        expiryDate: input.expiryDate ?? null,
+        source: 'user-submission',
+        status: 'pending-review',
+        retailerId: retailer.id,
+      },
+    });
+  } catch (error) {
+    // Another submission of the same code won the race
+    if (isPrismaError(error, 'P2002')) {
+      throw new ConflictError(`Coupon ${input.code} has already been submitted for ${retailer.domain}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List submissions waiting for moderation, oldest first
+ * @param query - Validated pagination options
+ * @returns Page of pending submissions with their retailer, plus the total number pending
+ */
+export async function listPendingCoupons(
+  query: ListPendingCouponsQuery,
+): Promise<{ coupons: PendingCoupon[]; total: number }> {
+  const where = { status: 'pending-review' };
+
+  const [coupons, total] = await Promise.all([
+    db.coupon.findMany({
+      where,
+      include: { retailer: { select: { id: true, domain: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+    db.coupon.count({ where }),
+  ]);
+
+  return { coupons, total };
+}
+
+/**
+ * Approve or reject a pending submission (admin operation)
+ * Approved coupons become active; rejected coupons are disabled so the code cannot be resubmitted
+ *
+ * @param id - UUID of the coupon
+ * @param decision - Moderation decision
+ * @returns Updated coupon
+ * @throws NotFoundError if the coupon does not exist
+ * @throws ConflictError if the coupon is not pending review
+ */
+export async function reviewCoupon(id: string, decision: ReviewDecision): Promise<Coupon> {
+  const coupon = await db.coupon.findUnique({
+    where: { id },
+  });
+
+  if (!coupon) {
+    throw new NotFoundError(`Coupon not found with ID: ${id}`);
+  }
+
+  if (coupon.status !== 'pending-review') {
+    throw new ConflictError(`Coupon is not pending review (status: ${coupon.status})`);
+  }
+
+  return db.coupon.update({
+    where: { id },
+    data: { status: REVIEW_STATUS[decision] },
+  });
+}
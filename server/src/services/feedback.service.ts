@@ -4,32 +4,171 @@
  */
 
 import { db } from '../lib/db.js';
-import { NotFoundError, BadRequestError } from '../lib/errors.js';
-import type { Coupon } from '../generated/prisma/index.js';
+import { NotFoundError, BadRequestError, ConflictError, isPrismaError } from '../lib/errors.js';
+import { metrics } from '../lib/metrics.js';
+import type { Coupon, Prisma } from '../generated/prisma/index.js';
 import type { FeedbackMetadata } from '../validators/feedback.validator.js';
+import {
+  assessFeedback,
+  loadSubmitterHistory,
+  type FeedbackOutcome,
+  type FeedbackSubmitter,
+  type SubmitterHistory,
+} from './feedbackTrust.service.js';
+
+/**
+ * Coupon IDs are UUIDs; malformed IDs are rejected before querying
+ */
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EVENT_ID_REUSED_MESSAGE = 'Feedback event ID was already used for another coupon';
+
+/**
+ * How a vote was screened, stored on its FeedbackEvent
+ */
+interface FeedbackScreening {
+  outcome: FeedbackOutcome;
+  weight: number;
+  submitterHash: string | null;
+  sourceHash: string | null;
+  reason?: string;
+}
+
+/**
+ * Feedback recorded without a submitter (internal callers) is applied at full weight
+ */
+const UNSCREENED: FeedbackScreening = { outcome: 'applied', weight: 1, submitterHash: null, sourceHash: null };
+
+/**
+ * Screen a vote against the submitter's history
+ * @param history - Submitter history, or null when there is no submitter
+ * @param coupon - Coupon the vote is for
+ * @param success - Whether the coupon worked
+ * @returns Outcome, weight, and submitter hashes for the FeedbackEvent
+ */
+function screenFeedback(
+  history: SubmitterHistory | null,
+  coupon: Pick<Coupon, 'id' | 'weightedSuccess' | 'weightedFailure'>,
+  success: boolean,
+): FeedbackScreening {
+  if (!history) return UNSCREENED;
+
+  return {
+    ...assessFeedback(history, coupon, success),
+    weight: history.weight,
+    submitterHash: history.submitterHash,
+    sourceHash: history.sourceHash,
+  };
+}
+
+/**
+ * Build the FeedbackEvent row for a submission
+ * Missing metadata fields are stored as null; flagged votes get a pending FeedbackReview
+ *
+ * @param success - Whether the coupon was successfully applied
+ * @param metadata - Optional metadata about the test
+ * @param eventId - Optional client-generated event ID
+ * @param screening - Trust screening result (defaults to applied at full weight)
+ * @returns FeedbackEvent create input (without the coupon relation)
+ */
+function buildFeedbackEventData(
+  success: boolean,
+  metadata?: FeedbackMetadata,
+  eventId?: string,
+  screening: FeedbackScreening = UNSCREENED,
+): Prisma.FeedbackEventCreateWithoutCouponInput {
+  return {
+    success,
+    eventId: eventId ?? null,
+    outcome: screening.outcome,
+    weight: screening.weight,
+    submitterHash: screening.submitterHash,
+    sourceHash: screening.sourceHash,
+    ...(screening.reason && { review: { create: { reason: screening.reason } } }),
+    discountAmount: metadata?.discountAmount ?? null,
+    discountPercentage: metadata?.discountPercentage ?? null,
+    failureReason: metadata?.failureReason ?? null,
+    detectionMethod: metadata?.detectionMethod ?? null,
+    domain: metadata?.domain ?? null,
+    testDurationMs: metadata ? Math.round(metadata.testDurationMs) : null,
+    testedAt: metadata ? new Date(metadata.testedAt) : null,
+  };
+}
+
+/**
+ * Count written feedback events in the feedback metrics (replayed submissions are not written, so not counted)
+ * @param events - FeedbackEvent rows that were created
+ */
+function countRecordedFeedback(
+  events: Array<Pick<Prisma.FeedbackEventCreateManyCouponInput, 'success' | 'detectionMethod' | 'outcome'>>,
+): void {
+  for (const event of events) {
+    metrics.feedbackEvents.inc({
+      result: event.success ? 'success' : 'failure',
+      detection_method: event.detectionMethod ?? 'none',
+      outcome: event.outcome ?? 'applied',
+    });
+  }
+}
+
+/**
+ * Find the coupon a feedback event was already recorded against
+ * @param couponId - UUID of the coupon the feedback is for
+ * @param eventId - Client-generated event ID
+ * @returns The coupon if the event was already recorded for it, null if the event is new
+ * @throws ConflictError if the event was recorded for a different coupon
+ */
+async function findReplayedCoupon(couponId: string, eventId: string): Promise<Coupon | null> {
+  const event = await db.feedbackEvent.findUnique({
+    where: { eventId },
+    select: { coupon: true },
+  });
+
+  if (!event) return null;
+  if (event.coupon.id !== couponId) {
+    throw new ConflictError(EVENT_ID_REUSED_MESSAGE);
+  }
+  return event.coupon;
+}
 
 /**
  * Record feedback for a coupon (success or failure)
  * Uses atomic database operations to prevent race conditions
+ * The submission is stored as a FeedbackEvent in the same nested write,
+ * so the counters and the event log are committed in one transaction.
+ * When an event ID is given and was already recorded, nothing is incremented
+ * and the coupon is returned with its current counts.
+ * With a submitter, the vote is weighted by their trust and may be capped or flagged for review
+ * instead of applied; those votes are only logged and the coupon is returned unchanged.
  *
  * @param couponId - UUID of the coupon
  * @param success - Whether the coupon was successfully applied
  * @param metadata - Optional metadata about the test
+ * @param eventId - Optional client-generated event ID used to ignore retries
+ * @param submitter - Install ID and IP of the request (omit to apply at full weight)
  * @returns Updated coupon with new success/failure counts
  * @throws NotFoundError if coupon is not found
  * @throws BadRequestError if couponId is invalid
+ * @throws ConflictError if eventId was already used for another coupon
  */
 export async function recordCouponFeedback(
   couponId: string,
   success: boolean,
-  _metadata?: FeedbackMetadata,
+  metadata?: FeedbackMetadata,
+  eventId?: string,
+  submitter?: FeedbackSubmitter,
 ): Promise<Coupon> {
   // Validate UUID format
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  if (!uuidRegex.test(couponId)) {
+  if (!UUID_REGEX.test(couponId)) {
     throw new BadRequestError('Invalid coupon ID format. Must be a valid UUID.');
   }
 
+  // A retry of a submission that was already recorded
+  if (eventId) {
+    const replayed = await findReplayedCoupon(couponId, eventId);
+    if (replayed) return replayed;
+  }
+
   // Check if coupon exists
   const existingCoupon = await db.coupon.findUnique({
     where: { id: couponId },
@@ -39,10 +178,16 @@ export async function recordCouponFeedback(
     throw new NotFoundError(`Coupon not found with ID: ${couponId}`);
   }
 
+  const history = submitter ? await loadSubmitterHistory(submitter, [couponId]) : null;
+  const screening = screenFeedback(history, existingCoupon, success);
+  const event = buildFeedbackEventData(success, metadata, eventId, screening);
+
   // Prepare update data with atomic increments
   const updateData: {
     successCount?: { increment: number };
     failureCount?: { increment: number };
+    weightedSuccess?: { increment: number };
+    weightedFailure?: { increment: number };
     lastSuccessAt?: Date;
     lastTestedAt: Date;
   } = {
@@ -51,74 +196,208 @@ export async function recordCouponFeedback(
 
   if (success) {
     updateData.successCount = { increment: 1 };
+    updateData.weightedSuccess = { increment: screening.weight };
     updateData.lastSuccessAt = new Date();
   } else {
     updateData.failureCount = { increment: 1 };
+    updateData.weightedFailure = { increment: screening.weight };
   }
 
-  // Update coupon with atomic operations
-  const updatedCoupon = await db.coupon.update({
-    where: { id: couponId },
-    data: updateData,
-  });
+  try {
+    // Capped and flagged votes are only logged
+    if (screening.outcome !== 'applied') {
+      await db.feedbackEvent.create({
+        data: { ...event, coupon: { connect: { id: couponId } } },
+      });
+      countRecordedFeedback([event]);
+      return existingCoupon;
+    }
 
-  return updatedCoupon;
+    // Update coupon with atomic operations and log the event alongside
+    const updatedCoupon = await db.coupon.update({
+      where: { id: couponId },
+      data: {
+        ...updateData,
+        feedbackEvents: {
+          create: event,
+        },
+      },
+    });
+    countRecordedFeedback([event]);
+    return updatedCoupon;
+  } catch (error) {
+    // A concurrent retry recorded the same event first; the whole update was rolled back
+    if (eventId && isPrismaError(error, 'P2002')) {
+      const replayed = await findReplayedCoupon(couponId, eventId);
+      if (replayed) return replayed;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Outcome of one item in a batch feedback request
+ */
+export interface BatchFeedbackItemResult {
+  couponId: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Feedback from one batch grouped by coupon
+ */
+interface CouponFeedbackGroup {
+  successCount: number;
+  failureCount: number;
+  weightedSuccess: number;
+  weightedFailure: number;
+  events: Prisma.FeedbackEventCreateManyCouponInput[];
 }
 
 /**
  * Record batch feedback for multiple coupons
- * Processes each feedback item and collects results
+ * Coupon IDs are validated and looked up in one query, feedback is grouped per coupon,
+ * and all counter updates and events are written in a single transaction.
+ * Items with an invalid or unknown coupon ID are reported as failed without affecting the rest;
+ * repeated IDs are all applied, in request order, to the same coupon.
+ * Items whose event ID was already recorded (earlier or in the same batch) succeed without being counted again.
+ * With a submitter, votes are screened like single feedback; capped and flagged items still succeed
+ * but are only logged.
  *
  * @param feedbackItems - Array of feedback items
- * @returns Results for each feedback item (success or error)
+ * @param submitter - Install ID and IP of the request (omit to apply at full weight)
+ * @returns Results for each feedback item (success or error), in request order
+ * @throws ConflictError if a concurrent request recorded one of the event IDs first (nothing is recorded)
+ * @throws Database errors if the transaction fails (nothing from the batch is recorded)
  */
 export async function recordBatchCouponFeedback(
   feedbackItems: Array<{
     couponId: string;
     success: boolean;
-    metadata?: FeedbackMetadata;
+    metadata?: FeedbackMetadata | undefined;
+    eventId?: string | undefined;
   }>,
+  submitter?: FeedbackSubmitter,
 ): Promise<{
   processed: number;
   failed: number;
-  results: Array<{
-    couponId: string;
-    success: boolean;
-    error?: string;
-  }>;
+  results: BatchFeedbackItemResult[];
 }> {
-  const results: Array<{
-    couponId: string;
-    success: boolean;
-    error?: string;
-  }> = [];
+  // Step 1: Look up every well-formed coupon ID in one query
+  const validIds = [...new Set(feedbackItems.map((item) => item.couponId).filter((id) => UUID_REGEX.test(id)))];
+  const existing =
+    validIds.length === 0
+      ? []
+      : await db.coupon.findMany({
+          where: { id: { in: validIds } },
+          select: { id: true, weightedSuccess: true, weightedFailure: true },
+        });
+  const coupons = new Map(existing.map((coupon) => [coupon.id, coupon]));
+  const history = submitter && coupons.size > 0 ? await loadSubmitterHistory(submitter, [...coupons.keys()]) : null;
+
+  // Coupon each already-recorded event ID belongs to; new events are added as they are grouped
+  const eventIds = [...new Set(feedbackItems.flatMap((item) => (item.eventId ? [item.eventId] : [])))];
+  const recordedEvents =
+    eventIds.length === 0
+      ? []
+      : await db.feedbackEvent.findMany({
+          where: { eventId: { in: eventIds } },
+          select: { eventId: true, couponId: true },
+        });
+  const eventCoupons = new Map(recordedEvents.map((event) => [event.eventId, event.couponId]));
 
-  let processed = 0;
-  let failed = 0;
+  // Step 2: Check each item, group applied votes per coupon, and set aside capped or flagged ones
+  const groups = new Map<string, CouponFeedbackGroup>();
+  const loggedEvents: Prisma.FeedbackEventCreateInput[] = [];
+  const results = feedbackItems.map((item): BatchFeedbackItemResult => {
+    if (!UUID_REGEX.test(item.couponId)) {
+      return { couponId: item.couponId, success: false, error: 'Invalid coupon ID format. Must be a valid UUID.' };
+    }
+    const coupon = coupons.get(item.couponId);
+    if (!coupon) {
+      return { couponId: item.couponId, success: false, error: `Coupon not found with ID: ${item.couponId}` };
+    }
+    if (item.eventId) {
+      const recordedCouponId = eventCoupons.get(item.eventId);
+      if (recordedCouponId !== undefined) {
+        return recordedCouponId === item.couponId
+          ? { couponId: item.couponId, success: true }
+          : { couponId: item.couponId, success: false, error: EVENT_ID_REUSED_MESSAGE };
+      }
+      eventCoupons.set(item.eventId, item.couponId);
+    }
+
+    const screening = screenFeedback(history, coupon, item.success);
+    const event = buildFeedbackEventData(item.success, item.metadata, item.eventId, screening);
+    if (screening.outcome !== 'applied') {
+      loggedEvents.push({ ...event, coupon: { connect: { id: item.couponId } } });
+      return { couponId: item.couponId, success: true };
+    }
+
+    const group = groups.get(item.couponId) ?? {
+      successCount: 0,
+      failureCount: 0,
+      weightedSuccess: 0,
+      weightedFailure: 0,
+      events: [],
+    };
+    if (item.success) {
+      group.successCount++;
+      group.weightedSuccess += screening.weight;
+    } else {
+      group.failureCount++;
+      group.weightedFailure += screening.weight;
+    }
+    group.events.push(event);
+    groups.set(item.couponId, group);
+
+    return { couponId: item.couponId, success: true };
+  });
+
+  // Step 3: Apply the grouped increments and write all events atomically
+  if (groups.size > 0 || loggedEvents.length > 0) {
+    const now = new Date();
 
-  // Process each feedback item sequentially to avoid overwhelming the database
-  for (const item of feedbackItems) {
     try {
-      await recordCouponFeedback(item.couponId, item.success, item.metadata);
-      results.push({
-        couponId: item.couponId,
-        success: true,
-      });
-      processed++;
+      await db.$transaction([
+        ...[...groups].map(([couponId, group]) =>
+          db.coupon.update({
+            where: { id: couponId },
+            data: {
+              lastTestedAt: now,
+              ...(group.successCount > 0 && {
+                successCount: { increment: group.successCount },
+                weightedSuccess: { increment: group.weightedSuccess },
+                lastSuccessAt: now,
+              }),
+              ...(group.failureCount > 0 && {
+                failureCount: { increment: group.failureCount },
+                weightedFailure: { increment: group.weightedFailure },
+              }),
+              feedbackEvents: {
+                createMany: { data: group.events },
+              },
+            },
+          }),
+        ),
+        ...loggedEvents.map((data) => db.feedbackEvent.create({ data })),
+      ]);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      results.push({
-        couponId: item.couponId,
-        success: false,
-        error: errorMessage,
-      });
-      failed++;
+      if (isPrismaError(error, 'P2002')) {
+        throw new ConflictError('Some feedback events in this batch are already being recorded. Retry the request.');
+      }
+      throw error;
     }
+
+    countRecordedFeedback([...[...groups.values()].flatMap((group) => group.events), ...loggedEvents]);
   }
 
+  const processed = results.filter((result) => result.success).length;
+
   return {
     processed,
-    failed,
+    failed: results.length - processed,
     results,
   };
 }
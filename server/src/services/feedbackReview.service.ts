@@ -0,0 +1,145 @@
+/**
+ * Feedback Review Service
+ * Moderation queue for flagged feedback votes held back from the coupon counters
+ */
+
+import { db } from '../lib/db.js';
+import { ConflictError, NotFoundError } from '../lib/errors.js';
+import type { Coupon, FeedbackEvent, FeedbackReview, Retailer } from '../generated/prisma/index.js';
+import type { FeedbackReviewDecision, ListFeedbackReviewsQuery } from '../validators/feedback.validator.js';
+
+/**
+ * Review with the flagged vote and the coupon it was for
+ */
+export type FeedbackReviewWithEvent = FeedbackReview & {
+  feedbackEvent: FeedbackEvent & {
+    coupon: Pick<Coupon, 'id' | 'code' | 'status'> & { retailer: Pick<Retailer, 'id' | 'domain' | 'name'> };
+  };
+};
+
+/**
+ * Status a pending review moves to for each moderation decision
+ */
+const REVIEW_STATUS: Record<FeedbackReviewDecision, 'applied' | 'dismissed'> = {
+  apply: 'applied',
+  dismiss: 'dismissed',
+};
+
+/**
+ * Flagged vote and coupon fields returned with a review
+ */
+const REVIEW_INCLUDE = {
+  feedbackEvent: {
+    include: {
+      coupon: {
+        select: {
+          id: true,
+          code: true,
+          status: true,
+          retailer: { select: { id: true, domain: true, name: true } },
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Later of two optional timestamps
+ */
+function latest(current: Date | null, candidate: Date): Date {
+  return current && current > candidate ? current : candidate;
+}
+
+/**
+ * List flagged votes waiting for a moderator, oldest first (admin operation)
+ *
+ * @param query - Validated pagination parameters
+ * @returns Page of pending reviews and the total number pending
+ */
+export async function listPendingFeedbackReviews(
+  query: ListFeedbackReviewsQuery,
+): Promise<{ reviews: FeedbackReviewWithEvent[]; total: number }> {
+  const where = { status: 'pending' };
+
+  const [reviews, total] = await Promise.all([
+    db.feedbackReview.findMany({
+      where,
+      include: REVIEW_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+    db.feedbackReview.count({ where }),
+  ]);
+
+  return { reviews, total };
+}
+
+/**
+ * Apply or dismiss a flagged vote (admin operation)
+ * Applying adds the vote to the coupon's counters at the weight it was screened with and marks the
+ * event applied; dismissing leaves the counters alone. The review is claimed with a conditional update
+ * in the same transaction, so a vote resolved twice concurrently is only counted once.
+ * lastTestedAt and lastSuccessAt only move forward to the time the vote was received.
+ *
+ * @param id - UUID of the review
+ * @param decision - Moderation decision
+ * @returns Resolved review with its vote
+ * @throws NotFoundError if the review does not exist
+ * @throws ConflictError if the review was already resolved
+ */
+export async function resolveFeedbackReview(
+  id: string,
+  decision: FeedbackReviewDecision,
+): Promise<FeedbackReviewWithEvent> {
+  return db.$transaction(async (tx) => {
+    const review = await tx.feedbackReview.findUnique({
+      where: { id },
+      include: { feedbackEvent: { include: { coupon: true } } },
+    });
+
+    if (!review) {
+      throw new NotFoundError(`Feedback review not found with ID: ${id}`);
+    }
+
+    const claimed = await tx.feedbackReview.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: REVIEW_STATUS[decision], resolvedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Feedback review was already resolved');
+    }
+
+    if (decision === 'apply') {
+      const { feedbackEvent: event } = review;
+      const { coupon } = event;
+
+      await tx.coupon.update({
+        where: { id: coupon.id },
+        data: {
+          lastTestedAt: latest(coupon.lastTestedAt, event.createdAt),
+          ...(event.success
+            ? {
+                successCount: { increment: 1 },
+                weightedSuccess: { increment: event.weight },
+                lastSuccessAt: latest(coupon.lastSuccessAt, event.createdAt),
+              }
+            : {
+                failureCount: { increment: 1 },
+                weightedFailure: { increment: event.weight },
+              }),
+        },
+      });
+      await tx.feedbackEvent.update({
+        where: { id: event.id },
+        data: { outcome: 'applied' },
+      });
+    }
+
+    return tx.feedbackReview.findUniqueOrThrow({
+      where: { id },
+      include: REVIEW_INCLUDE,
+    });
+  });
+}
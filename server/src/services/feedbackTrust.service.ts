@@ -0,0 +1,198 @@
+/**
+ * Feedback Trust Service
+ * Weighs feedback by how far its submitter can be trusted and screens out vote stuffing
+ *
+ * - A submitter is an anonymous install ID (X-Install-Id header) seen from an IP; a source is the IP alone
+ * - Both are stored as HMACs keyed by FEEDBACK_HASH_SECRET, so IPs cannot be recovered by hashing the address space
+ * - Votes are weighted down when the install ID is missing or the submitter has no history older than a day
+ * - Each submitter, and each source, may only cast a few votes per coupon per day; the rest are capped
+ * - A burst of failures from one source against a high-confidence coupon is flagged for review
+ */
+
+import { createHmac } from 'node:crypto';
+import { db } from '../lib/db.js';
+import { config } from '../lib/config.js';
+import type { Coupon } from '../generated/prisma/index.js';
+import { wilsonLowerBound } from './ranking.service.js';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Votes one submitter may have applied to a coupon within a day
+ */
+const SUBMITTER_DAILY_VOTE_CAP = 3;
+
+/**
+ * Votes one source may have applied to a coupon within a day, across all install IDs
+ */
+const SOURCE_DAILY_VOTE_CAP = 10;
+
+/**
+ * Failures from one source against a coupon within an hour that count as a burst
+ */
+const FAILURE_BURST_THRESHOLD = 3;
+
+/**
+ * Confidence (Wilson lower bound of the weighted tallies) from which a coupon is protected against failure bursts
+ */
+const TOP_COUPON_MIN_CONFIDENCE = 0.6;
+
+/**
+ * Weight multiplier for feedback sent without an install ID
+ */
+const ANONYMOUS_WEIGHT = 0.5;
+
+/**
+ * Weight multiplier for submitters with no feedback older than a day
+ */
+const NEW_SUBMITTER_WEIGHT = 0.5;
+
+/**
+ * What happens to a feedback vote
+ * - applied: counted in the coupon's counters
+ * - capped: over the daily vote cap, logged only
+ * - flagged: logged with a FeedbackReview for a moderator
+ */
+export type FeedbackOutcome = 'applied' | 'capped' | 'flagged';
+
+/**
+ * Who sent a feedback request
+ */
+export interface FeedbackSubmitter {
+  /** Anonymous install ID from the X-Install-Id header (null if missing or malformed) */
+  installId: string | null;
+  ip: string;
+}
+
+/**
+ * Recent feedback from one submitter, loaded once per request
+ * Counts are keyed by coupon ID and updated as votes are assessed, so a batch sees its own earlier items
+ */
+export interface SubmitterHistory {
+  submitterHash: string;
+  sourceHash: string;
+  /** Trust weight between 0 and 1 applied to every vote in the request */
+  weight: number;
+  submitterVotesToday: Map<string, number>;
+  sourceVotesToday: Map<string, number>;
+  sourceFailuresLastHour: Map<string, number>;
+}
+
+/**
+ * Decision for one vote
+ */
+export interface FeedbackAssessment {
+  outcome: FeedbackOutcome;
+  /** Why the vote was flagged (only set for flagged votes) */
+  reason?: string;
+}
+
+/**
+ * Pseudonymize a submitter identifier with a secret key
+ */
+function hmac(secret: string, value: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+/**
+ * Count rows per coupon from a groupBy result
+ */
+function countsByCoupon(groups: Array<{ couponId: string; _count: { _all: number } }>): Map<string, number> {
+  return new Map(groups.map((group) => [group.couponId, group._count._all]));
+}
+
+function increment(counts: Map<string, number>, couponId: string): void {
+  counts.set(couponId, (counts.get(couponId) ?? 0) + 1);
+}
+
+/**
+ * Load a submitter's recent feedback for the given coupons and compute their trust weight
+ * @param submitter - Install ID and IP of the request
+ * @param couponIds - Coupons the request sends feedback for
+ * @param now - Reference time (defaults to now)
+ * @param hashSecret - Key for the submitter and source hashes (defaults to FEEDBACK_HASH_SECRET)
+ * @returns Hashed identifiers, trust weight, and recent vote counts per coupon
+ */
+export async function loadSubmitterHistory(
+  submitter: FeedbackSubmitter,
+  couponIds: string[],
+  now: Date = new Date(),
+  hashSecret: string = config.feedbackHashSecret,
+): Promise<SubmitterHistory> {
+  const submitterHash = hmac(hashSecret, `${submitter.installId ?? 'anonymous'}:${submitter.ip}`);
+  const sourceHash = hmac(hashSecret, submitter.ip);
+  const dayAgo = new Date(now.getTime() - MS_PER_DAY);
+  const hourAgo = new Date(now.getTime() - MS_PER_HOUR);
+
+  const [submitterVotes, sourceVotes, sourceFailures, earlierFeedback] = await Promise.all([
+    db.feedbackEvent.groupBy({
+      by: ['couponId'],
+      where: { couponId: { in: couponIds }, submitterHash, outcome: 'applied', createdAt: { gte: dayAgo } },
+      _count: { _all: true },
+    }),
+    db.feedbackEvent.groupBy({
+      by: ['couponId'],
+      where: { couponId: { in: couponIds }, sourceHash, outcome: 'applied', createdAt: { gte: dayAgo } },
+      _count: { _all: true },
+    }),
+    db.feedbackEvent.groupBy({
+      by: ['couponId'],
+      where: { couponId: { in: couponIds }, sourceHash, success: false, createdAt: { gte: hourAgo } },
+      _count: { _all: true },
+    }),
+    db.feedbackEvent.findFirst({
+      where: { submitterHash, createdAt: { lt: dayAgo } },
+      select: { id: true },
+    }),
+  ]);
+
+  const weight = (submitter.installId ? 1 : ANONYMOUS_WEIGHT) * (earlierFeedback ? 1 : NEW_SUBMITTER_WEIGHT);
+
+  return {
+    submitterHash,
+    sourceHash,
+    weight,
+    submitterVotesToday: countsByCoupon(submitterVotes),
+    sourceVotesToday: countsByCoupon(sourceVotes),
+    sourceFailuresLastHour: countsByCoupon(sourceFailures),
+  };
+}
+
+/**
+ * Decide whether a vote is applied, capped, or flagged for review
+ * Updates the history counts so later votes in the same request are judged with this one included
+ *
+ * @param history - Submitter history from loadSubmitterHistory
+ * @param coupon - Coupon the vote is for, with its weighted tallies
+ * @param success - Whether the coupon worked
+ * @returns Outcome of the vote
+ */
+export function assessFeedback(
+  history: SubmitterHistory,
+  coupon: Pick<Coupon, 'id' | 'weightedSuccess' | 'weightedFailure'>,
+  success: boolean,
+): FeedbackAssessment {
+  if (!success) {
+    increment(history.sourceFailuresLastHour, coupon.id);
+  }
+
+  if (
+    (history.submitterVotesToday.get(coupon.id) ?? 0) >= SUBMITTER_DAILY_VOTE_CAP ||
+    (history.sourceVotesToday.get(coupon.id) ?? 0) >= SOURCE_DAILY_VOTE_CAP
+  ) {
+    return { outcome: 'capped' };
+  }
+
+  if (
+    !success &&
+    (history.sourceFailuresLastHour.get(coupon.id) ?? 0) >= FAILURE_BURST_THRESHOLD &&
+    wilsonLowerBound(coupon.weightedSuccess, coupon.weightedFailure) >= TOP_COUPON_MIN_CONFIDENCE
+  ) {
+    return { outcome: 'flagged', reason: 'failure-burst' };
+  }
+
+  increment(history.submitterVotesToday, coupon.id);
+  increment(history.sourceVotesToday, coupon.id);
+  return { outcome: 'applied' };
+}
@@ -0,0 +1,237 @@
+/**
+ * Health Service
+ * Readiness probes for the dependencies the API needs to serve traffic
+ *
+ * - database: runs SELECT 1 through the Prisma client
+ * - migrations: compares prisma/migrations with the migrations recorded in _prisma_migrations
+ * - Each probe is raced against a timeout, so a hung connection reports "down" instead of hanging the check
+ * - Failures are logged in full; the public report only says which probe failed and whether it timed out
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { logger } from '../lib/logger.js';
+import type { Database } from '../lib/db.js';
+
+/**
+ * What the probes need from a database client: raw queries only
+ */
+export type ProbeDatabase = Pick<Database, '$queryRaw'>;
+
+/**
+ * Default time a single probe may take before it is reported as failed
+ */
+export const DEFAULT_PROBE_TIMEOUT_MS = 2000;
+
+// Both paths resolve from src/services (tsx) and dist/services (node) alike
+const MIGRATIONS_DIR = new URL('../../prisma/migrations/', import.meta.url);
+const PACKAGE_JSON = new URL('../../package.json', import.meta.url);
+
+/**
+ * Result of the database probe
+ */
+export interface DatabaseCheck {
+  status: 'up' | 'down';
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Result of the migration probe
+ * - up-to-date: every migration in prisma/migrations has been applied
+ * - pending: some migrations have not been applied yet (run `prisma migrate deploy`)
+ * - failed: a migration started but did not finish and needs to be resolved by hand
+ * - unknown: the migration history could not be read
+ */
+export interface MigrationCheck {
+  status: 'up-to-date' | 'pending' | 'failed' | 'unknown';
+  applied: number;
+  pending: string[];
+  failed: string[];
+  error?: string;
+}
+
+/**
+ * Readiness of the API and its dependencies
+ */
+export interface ReadinessReport {
+  status: 'ready' | 'not-ready';
+  version: string;
+  checks: {
+    database: DatabaseCheck;
+    migrations: MigrationCheck;
+  };
+}
+
+/**
+ * Row of Prisma's migration history table
+ */
+interface MigrationRow {
+  migration_name: string;
+  finished_at: Date | null;
+  rolled_back_at: Date | null;
+}
+
+let appVersion: Promise<string> | undefined;
+let localMigrations: Promise<string[]> | undefined;
+
+/**
+ * A probe that did not settle in time
+ */
+class ProbeTimeoutError extends Error {}
+
+/**
+ * Reject if a probe does not settle in time
+ * @param probe - Probe to run
+ * @param timeoutMs - Time allowed
+ * @param name - Probe name for the error message
+ * @returns The probe's result
+ * @throws ProbeTimeoutError if the probe takes longer than timeoutMs
+ */
+async function withTimeout<T>(probe: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new ProbeTimeoutError(`${name} check timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([probe, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Log why a probe failed and pick the reason shown in the public readiness report
+ * Database errors can reveal hosts, users, and schema details, so only timeouts are reported as they are
+ *
+ * @param probe - Probe name for the log entry
+ * @param error - Why the probe failed
+ * @param reason - Reason reported for any failure other than a timeout
+ * @returns Reason for the readiness report
+ */
+function probeFailure(probe: string, error: unknown, reason: string): string {
+  logger.error('readiness probe failed', { probe, error });
+  return error instanceof ProbeTimeoutError ? error.message : reason;
+}
+
+/**
+ * Version from package.json (read once)
+ * @returns App version, or "unknown" if package.json cannot be read
+ */
+export function getAppVersion(): Promise<string> {
+  appVersion ??= readFile(PACKAGE_JSON, 'utf8')
+    .then((contents) => (JSON.parse(contents) as { version?: string }).version ?? 'unknown')
+    .catch(() => 'unknown');
+  return appVersion;
+}
+
+/**
+ * Names of the migrations shipped with this build (read once it succeeds; a failed read is retried next check)
+ */
+function getLocalMigrations(): Promise<string[]> {
+  localMigrations ??= readdir(MIGRATIONS_DIR, { withFileTypes: true })
+    .then((entries) =>
+      entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort(),
+    )
+    .catch((error: unknown) => {
+      localMigrations = undefined;
+      throw error;
+    });
+  return localMigrations;
+}
+
+/**
+ * Check that the database answers a trivial query
+ * @param db - Database client to probe
+ * @param timeoutMs - Time allowed for the query
+ * @returns Status and round-trip time of the query
+ */
+export async function checkDatabase(
+  db: ProbeDatabase,
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS,
+): Promise<DatabaseCheck> {
+  const startedAt = Date.now();
+
+  try {
+    await withTimeout(db.$queryRaw`SELECT 1`, timeoutMs, 'Database');
+    return { status: 'up', latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'down',
+      latencyMs: Date.now() - startedAt,
+      error: probeFailure('database', error, 'Database query failed'),
+    };
+  }
+}
+
+/**
+ * Compare the migrations shipped with this build with those applied to the database
+ * @param db - Database client to read the migration history with
+ * @param timeoutMs - Time allowed for reading the migration history
+ * @returns Migration status with the names of pending and failed migrations
+ */
+export async function checkMigrations(
+  db: ProbeDatabase,
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS,
+): Promise<MigrationCheck> {
+  try {
+    const [expected, rows] = await withTimeout(
+      Promise.all([
+        getLocalMigrations(),
+        db.$queryRaw<MigrationRow[]>`
+          SELECT "migration_name", "finished_at", "rolled_back_at" FROM "_prisma_migrations"
+        `,
+      ]),
+      timeoutMs,
+      'Migration',
+    );
+
+    const active = rows.filter((row) => row.rolled_back_at === null);
+    const applied = new Set(active.filter((row) => row.finished_at !== null).map((row) => row.migration_name));
+    const failed = active.filter((row) => row.finished_at === null).map((row) => row.migration_name);
+    const pending = expected.filter((name) => !applied.has(name) && !failed.includes(name));
+
+    return {
+      status: failed.length > 0 ? 'failed' : pending.length > 0 ? 'pending' : 'up-to-date',
+      applied: applied.size,
+      pending,
+      failed,
+    };
+  } catch (error) {
+    return {
+      status: 'unknown',
+      applied: 0,
+      pending: [],
+      failed: [],
+      error: probeFailure('migrations', error, 'Migration history could not be read'),
+    };
+  }
+}
+
+/**
+ * Run all readiness probes in parallel
+ * The API is ready when the database is up and its schema is fully migrated
+ *
+ * @param db - Database client to probe
+ * @param timeoutMs - Time allowed for each probe
+ * @returns Overall status, app version, and the result of each probe
+ */
+export async function checkReadiness(
+  db: ProbeDatabase,
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS,
+): Promise<ReadinessReport> {
+  const [version, database, migrations] = await Promise.all([
+    getAppVersion(),
+    checkDatabase(db, timeoutMs),
+    checkMigrations(db, timeoutMs),
+  ]);
+
+  return {
+    status: database.status === 'up' && migrations.status === 'up-to-date' ? 'ready' : 'not-ready',
+    version,
+    checks: { database, migrations },
+  };
+}
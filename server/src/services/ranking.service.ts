@@ -0,0 +1,105 @@
+/**
+ * Ranking Service
+ * Confidence scoring and ordering for coupons
+ */
+
+import type { Coupon } from '../generated/prisma/index.js';
+import type { CouponSort } from '../validators/coupon.validator.js';
+
+/**
+ * z-score for a 95% confidence interval
+ */
+const WILSON_Z = 1.96;
+
+/**
+ * Days after which the recency weight of a coupon halves
+ */
+const DECAY_HALF_LIFE_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Coupon with its confidence score
+ */
+export type ScoredCoupon = Coupon & { score: number };
+
+/**
+ * Lower bound of the Wilson score interval for a success rate
+ * Small samples are penalised, so 1/1 ranks below 95/100 but above 2/200
+ *
+ * @param successCount - Number (or total weight) of successful uses
+ * @param failureCount - Number (or total weight) of failed uses
+ * @returns Lower bound between 0 and 1 (0 when there is no data)
+ */
+export function wilsonLowerBound(successCount: number, failureCount: number): number {
+  const total = successCount + failureCount;
+  if (total === 0) return 0;
+
+  const p = successCount / total;
+  const z2 = WILSON_Z * WILSON_Z;
+  const centre = p + z2 / (2 * total);
+  const margin = WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * total)) / total);
+
+  return Math.max(0, (centre - margin) / (1 + z2 / total));
+}
+
+/**
+ * Recency weight based on when a coupon last worked (or was last tested if it never worked)
+ * Halves every DECAY_HALF_LIFE_DAYS
+ *
+ * @param coupon - Coupon timestamps
+ * @param now - Reference time
+ * @returns Weight between 0 and 1 (1 when the coupon has never been tested)
+ */
+export function recencyWeight(coupon: Pick<Coupon, 'lastSuccessAt' | 'lastTestedAt'>, now: Date): number {
+  const reference = coupon.lastSuccessAt ?? coupon.lastTestedAt;
+  if (!reference) return 1;
+
+  const ageDays = Math.max(0, now.getTime() - reference.getTime()) / MS_PER_DAY;
+  return Math.pow(0.5, ageDays / DECAY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Confidence score for a coupon: Wilson lower bound of the trust-weighted tallies, weighted by recency
+ * @param coupon - Weighted tallies and timestamps
+ * @param now - Reference time (defaults to now)
+ * @returns Score between 0 and 1, rounded to 4 decimal places
+ */
+export function calculateCouponScore(
+  coupon: Pick<Coupon, 'weightedSuccess' | 'weightedFailure' | 'lastSuccessAt' | 'lastTestedAt'>,
+  now: Date = new Date(),
+): number {
+  const score = wilsonLowerBound(coupon.weightedSuccess, coupon.weightedFailure) * recencyWeight(coupon, now);
+  return Math.round(score * 10000) / 10000;
+}
+
+/**
+ * Compare two optional dates, most recent first (missing dates sort last)
+ */
+function compareDatesDesc(a: Date | null, b: Date | null): number {
+  return (b?.getTime() ?? 0) - (a?.getTime() ?? 0);
+}
+
+const comparators: Record<CouponSort, (a: ScoredCoupon, b: ScoredCoupon) => number> = {
+  score: (a, b) => b.score - a.score || b.successCount - a.successCount,
+  'success-count': (a, b) => b.successCount - a.successCount || compareDatesDesc(a.lastSuccessAt, b.lastSuccessAt),
+  recent: (a, b) => compareDatesDesc(a.lastSuccessAt, b.lastSuccessAt) || b.score - a.score,
+  newest: (a, b) => compareDatesDesc(a.createdAt, b.createdAt),
+};
+
+/**
+ * Score and order coupons
+ * Ties fall back to the coupon code so the order is stable between requests
+ *
+ * @param coupons - Coupons to rank
+ * @param sort - Ordering to apply (defaults to score)
+ * @param now - Reference time for recency decay (defaults to now)
+ * @returns New array of coupons with a score field, in the requested order
+ */
+export function rankCoupons(coupons: Coupon[], sort: CouponSort = 'score', now: Date = new Date()): ScoredCoupon[] {
+  const compare = comparators[sort];
+
+  return coupons
+    .map((coupon) => ({ ...coupon, score: calculateCouponScore(coupon, now) }))
+    .sort((a, b) => compare(a, b) || a.code.localeCompare(b.code));
+}
@@ -0,0 +1,274 @@
+/**
+ * Retailer Service
+ * Business logic for managing retailers (admin operations) and resolving retailers by hostname
+ */
+
+import { db } from '../lib/db.js';
+import { ConflictError, NotFoundError, isPrismaError } from '../lib/errors.js';
+import { getDomainCandidates } from '../lib/domain.js';
+import { Prisma } from '../generated/prisma/index.js';
+import type { Retailer, RetailerDomain } from '../generated/prisma/index.js';
+import type {
+  CreateRetailerInput,
+  UpdateRetailerInput,
+  ListRetailersQuery,
+  SelectorConfig,
+  CreateRetailerDomainInput,
+} from '../validators/retailer.validator.js';
+
+/**
+ * Convert a validated selector config into a Prisma JSON input
+ * null clears the stored config
+ */
+function toSelectorConfigInput(selectorConfig: SelectorConfig | null): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return selectorConfig === null ? Prisma.DbNull : selectorConfig;
+}
+
+/**
+ * Build Prisma update data from a validated payload
+ * Only fields present in the payload are written
+ */
+function toRetailerData(input: UpdateRetailerInput): Prisma.RetailerUpdateInput {
+  const data: Prisma.RetailerUpdateInput = {};
+
+  if (input.domain !== undefined) data.domain = input.domain;
+  if (input.name !== undefined) data.name = input.name;
+  if (input.logoUrl !== undefined) data.logoUrl = input.logoUrl;
+  if (input.homeUrl !== undefined) data.homeUrl = input.homeUrl;
+  if (input.isActive !== undefined) data.isActive = input.isActive;
+  if (input.selectorConfig !== undefined) data.selectorConfig = toSelectorConfigInput(input.selectorConfig);
+
+  return data;
+}
+
+/**
+ * Create a new retailer
+ * @param input - Validated retailer data
+ * @returns Created retailer
+ * @throws ConflictError if a retailer with the same domain already exists
+ */
+export async function createRetailer(input: CreateRetailerInput): Promise<Retailer> {
+  try {
+    return await db.retailer.create({
+      data: {
+        domain: input.domain,
+        name: input.name,
+        logoUrl: input.logoUrl ?? null,
+        homeUrl: input.homeUrl ?? null,
+        isActive: input.isActive ?? true,
+        selectorConfig: toSelectorConfigInput(input.selectorConfig ?? null),
+      },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2002')) {
+      throw new ConflictError(`Retailer already exists for domain: ${input.domain}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List retailers with pagination and optional search
+ * @param query - Validated pagination and filter options
+ * @returns Page of retailers ordered by name, plus the total number of matches
+ */
+export async function listRetailers(query: ListRetailersQuery): Promise<{ retailers: Retailer[]; total: number }> {
+  const where: Prisma.RetailerWhereInput = {};
+
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { domain: { contains: query.search, mode: 'insensitive' } },
+    ];
+  }
+
+  if (query.isActive !== undefined) {
+    where.isActive = query.isActive;
+  }
+
+  const [retailers, total] = await Promise.all([
+    db.retailer.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+    db.retailer.count({ where }),
+  ]);
+
+  return { retailers, total };
+}
+
+/**
+ * Update an existing retailer
+ * @param id - UUID of the retailer
+ * @param input - Validated fields to update
+ * @returns Updated retailer
+ * @throws NotFoundError if the retailer does not exist
+ * @throws ConflictError if the new domain is already used by another retailer
+ */
+export async function updateRetailer(id: string, input: UpdateRetailerInput): Promise<Retailer> {
+  try {
+    return await db.retailer.update({
+      where: { id },
+      data: toRetailerData(input),
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      throw new NotFoundError(`Retailer not found with ID: ${id}`);
+    }
+    if (isPrismaError(error, 'P2002')) {
+      throw new ConflictError(`Retailer already exists for domain: ${input.domain}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a retailer and (via cascade) all of its coupons
+ * @param id - UUID of the retailer
+ * @throws NotFoundError if the retailer does not exist
+ */
+export async function deleteRetailer(id: string): Promise<void> {
+  try {
+    await db.retailer.delete({
+      where: { id },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      throw new NotFoundError(`Retailer not found with ID: ${id}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the retailer serving a hostname
+ * Tries the full hostname first, then its registrable domain (e.g., "store.nike.com" → "nike.com").
+ * For each candidate a retailer's primary domain wins over an alias.
+ *
+ * @param hostname - Normalized hostname (see normalizeHostname)
+ * @returns Matching retailer (active or not), or null if no domain or alias matches
+ */
+export async function findRetailerByHostname(hostname: string): Promise<Retailer | null> {
+  const retailers = await findRetailersByHostnames([hostname]);
+  return retailers.get(hostname) ?? null;
+}
+
+/**
+ * Find the retailers serving several hostnames with a single query
+ * Each hostname is resolved exactly as findRetailerByHostname would resolve it
+ *
+ * @param hostnames - Normalized hostnames (see normalizeHostname)
+ * @returns Matching retailer (active or not) or null, keyed by hostname
+ */
+export async function findRetailersByHostnames(hostnames: string[]): Promise<Map<string, Retailer | null>> {
+  if (hostnames.length === 0) return new Map();
+
+  const candidatesByHostname = new Map(hostnames.map((hostname) => [hostname, getDomainCandidates(hostname)]));
+  const candidates = [...new Set([...candidatesByHostname.values()].flat())];
+
+  const matches = await db.retailer.findMany({
+    where: {
+      OR: [{ domain: { in: candidates } }, { domains: { some: { domain: { in: candidates } } } }],
+    },
+    include: {
+      domains: {
+        where: { domain: { in: candidates } },
+        select: { domain: true },
+      },
+    },
+  });
+
+  const results = new Map<string, Retailer | null>();
+
+  for (const [hostname, hostnameCandidates] of candidatesByHostname) {
+    // Lower rank is a better match: candidate position, then primary domain before alias
+    const rankOf = (domain: string, isAlias: boolean): number => {
+      const index = hostnameCandidates.indexOf(domain);
+      return index === -1 ? Infinity : index * 2 + (isAlias ? 1 : 0);
+    };
+
+    let best: Retailer | null = null;
+    let bestRank = Infinity;
+
+    for (const { domains, ...retailer } of matches) {
+      const rank = Math.min(rankOf(retailer.domain, false), ...domains.map((alias) => rankOf(alias.domain, true)));
+      if (rank < bestRank) {
+        best = retailer;
+        bestRank = rank;
+      }
+    }
+
+    results.set(hostname, best);
+  }
+
+  return results;
+}
+
+/**
+ * List the domain aliases of a retailer
+ * @param retailerId - UUID of the retailer
+ * @returns Aliases ordered by domain
+ */
+export async function listRetailerDomains(retailerId: string): Promise<RetailerDomain[]> {
+  return db.retailerDomain.findMany({
+    where: { retailerId },
+    orderBy: { domain: 'asc' },
+  });
+}
+
+/**
+ * Add a domain alias to a retailer
+ * @param retailerId - UUID of the retailer
+ * @param input - Validated alias data
+ * @returns Created alias
+ * @throws NotFoundError if the retailer does not exist
+ * @throws ConflictError if the domain is already a retailer's primary domain or another alias
+ */
+export async function createRetailerDomain(
+  retailerId: string,
+  input: CreateRetailerDomainInput,
+): Promise<RetailerDomain> {
+  const primary = await db.retailer.findUnique({
+    where: { domain: input.domain },
+  });
+
+  if (primary) {
+    throw new ConflictError(`Domain is already the primary domain of retailer: ${primary.name}`);
+  }
+
+  try {
+    return await db.retailerDomain.create({
+      data: {
+        domain: input.domain,
+        region: input.region ?? null,
+        retailerId,
+      },
+    });
+  } catch (error) {
+    if (isPrismaError(error, 'P2002')) {
+      throw new ConflictError(`Domain alias already exists: ${input.domain}`);
+    }
+    if (isPrismaError(error, 'P2003')) {
+      throw new NotFoundError(`Retailer not found with ID: ${retailerId}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove a domain alias from a retailer
+ * @param retailerId - UUID of the retailer
+ * @param domainId - UUID of the alias
+ * @throws NotFoundError if the retailer has no such alias
+ */
+export async function deleteRetailerDomain(retailerId: string, domainId: string): Promise<void> {
+  const { count } = await db.retailerDomain.deleteMany({
+    where: { id: domainId, retailerId },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError(`Domain alias not found with ID: ${domainId}`);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Retailer Search Service
+ * Public retailer directory: prefix search over active retailers with cursor pagination
+ */
+
+import { db } from '../lib/db.js';
+import { BadRequestError } from '../lib/errors.js';
+import type { Prisma, Retailer } from '../generated/prisma/index.js';
+import { buildServedCouponsWhere } from './coupon.service.js';
+import type { SearchRetailersQuery } from '../validators/retailer.validator.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Only discounts reported within this many days count as the best known discount
+ */
+const BEST_DISCOUNT_WINDOW_DAYS = 90;
+
+/**
+ * Largest discount reported by a successful test of one of the retailer's served coupons
+ */
+export interface BestDiscount {
+  amount: number | null;
+  percentage: number | null;
+}
+
+/**
+ * Retailer as listed in the directory
+ */
+export type RetailerSummary = Pick<Retailer, 'id' | 'domain' | 'name' | 'logoUrl' | 'homeUrl'> & {
+  activeCouponCount: number;
+  bestDiscount: BestDiscount | null;
+};
+
+/**
+ * A page of directory results
+ */
+export interface RetailerSearchPage {
+  retailers: RetailerSummary[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Position of a retailer in the directory order (name, then ID as a tiebreaker)
+ */
+interface RetailerCursor {
+  name: string;
+  id: string;
+}
+
+/**
+ * Encode a directory position as an opaque cursor
+ */
+function encodeCursor({ name, id }: RetailerCursor): string {
+  return Buffer.from(JSON.stringify([name, id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @throws BadRequestError if the cursor was not produced by this API
+ */
+function decodeCursor(cursor: string): RetailerCursor {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(value) && value.length === 2) {
+      const [name, id] = value as unknown[];
+      if (typeof name === 'string' && typeof id === 'string') return { name, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestError('Invalid cursor');
+}
+
+/**
+ * Build the filter for a directory page
+ * search matches the start of the name (any case), the primary domain, or a domain alias
+ */
+function buildSearchWhere(query: SearchRetailersQuery, now: Date): Prisma.RetailerWhereInput {
+  const conditions: Prisma.RetailerWhereInput[] = [{ isActive: true }];
+
+  if (query.search) {
+    const domainPrefix = query.search.toLowerCase().replace(/^www\./, '');
+    conditions.push({
+      OR: [
+        { name: { startsWith: query.search, mode: 'insensitive' } },
+        { domain: { startsWith: domainPrefix } },
+        { domains: { some: { domain: { startsWith: domainPrefix } } } },
+      ],
+    });
+  }
+
+  if (query.hasCoupons !== undefined) {
+    const served = { coupons: { some: buildServedCouponsWhere(false, now) } };
+    conditions.push(query.hasCoupons ? served : { NOT: served });
+  }
+
+  if (query.cursor) {
+    const { name, id } = decodeCursor(query.cursor);
+    conditions.push({ OR: [{ name: { gt: name } }, { name, id: { gt: id } }] });
+  }
+
+  return { AND: conditions };
+}
+
+/**
+ * Find the best discount reported for each coupon
+ * @param couponIds - Served coupons to look at
+ * @param now - Reference time for the reporting window
+ * @returns Largest amount and percentage per coupon ID
+ */
+async function findBestDiscounts(couponIds: string[], now: Date): Promise<Map<string, BestDiscount>> {
+  if (couponIds.length === 0) return new Map();
+
+  const groups = await db.feedbackEvent.groupBy({
+    by: ['couponId'],
+    where: {
+      couponId: { in: couponIds },
+      outcome: 'applied',
+      success: true,
+      createdAt: { gte: new Date(now.getTime() - BEST_DISCOUNT_WINDOW_DAYS * DAY_MS) },
+    },
+    _max: { discountAmount: true, discountPercentage: true },
+  });
+
+  return new Map(
+    groups.map((group) => [
+      group.couponId,
+      { amount: group._max.discountAmount, percentage: group._max.discountPercentage },
+    ]),
+  );
+}
+
+/**
+ * Combine per-coupon discounts into the retailer's best one
+ * Amount and percentage are maximized separately; null when no coupon reported either
+ */
+function pickBestDiscount(discounts: Array<BestDiscount | undefined>): BestDiscount | null {
+  const max = (values: Array<number | null | undefined>): number | null => {
+    const reported = values.filter((value): value is number => typeof value === 'number');
+    return reported.length > 0 ? Math.max(...reported) : null;
+  };
+
+  const amount = max(discounts.map((discount) => discount?.amount));
+  const percentage = max(discounts.map((discount) => discount?.percentage));
+  return amount === null && percentage === null ? null : { amount, percentage };
+}
+
+/**
+ * Search active retailers by name or domain prefix, ordered by name
+ * @param query - Validated search, cursor, page size and coupon filter
+ * @param now - Reference time for coupon expiry and the discount window
+ * @returns One page of retailers with their served coupon count and best known discount
+ * @throws BadRequestError if the cursor is malformed
+ */
+export async function searchRetailers(
+  query: SearchRetailersQuery,
+  now: Date = new Date(),
+): Promise<RetailerSearchPage> {
+  // Fetch one extra row to know whether another page follows
+  const rows = await db.retailer.findMany({
+    where: buildSearchWhere(query, now),
+    orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    take: query.limit + 1,
+    select: {
+      id: true,
+      domain: true,
+      name: true,
+      logoUrl: true,
+      homeUrl: true,
+      coupons: { where: buildServedCouponsWhere(false, now), select: { id: true } },
+    },
+  });
+
+  const page = rows.slice(0, query.limit);
+  const bestDiscounts = await findBestDiscounts(
+    page.flatMap((retailer) => retailer.coupons.map((coupon) => coupon.id)),
+    now,
+  );
+
+  const last = page[page.length - 1];
+
+  return {
+    retailers: page.map(({ coupons, ...retailer }) => ({
+      ...retailer,
+      activeCouponCount: coupons.length,
+      bestDiscount: pickBestDiscount(coupons.map((coupon) => bestDiscounts.get(coupon.id))),
+    })),
+    nextCursor: rows.length > query.limit && last ? encodeCursor(last) : null,
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Stats Service
+ * Public coupon and retailer statistics derived from recorded feedback
+ *
+ * Only feedback applied to the counters is counted: capped and flagged votes are stored but left out,
+ * so these numbers agree with the coupon's successCount and failureCount.
+ */
+
+import { db } from '../lib/db.js';
+import { NotFoundError } from '../lib/errors.js';
+import { findRetailerByHostname } from './retailer.service.js';
+import { buildServedCouponsWhere } from './coupon.service.js';
+import { calculateSuccessRate } from './feedback.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rolling windows the coupon success rate is reported for, in days
+ * Breakdowns and medians use the longest window
+ */
+export const STATS_WINDOWS_DAYS = [7, 30, 90] as const;
+
+/**
+ * Window the retailer's recent test counts cover, in days
+ */
+const RETAILER_RECENT_DAYS = 30;
+
+/**
+ * Label for feedback sent without a failure reason or detection method
+ */
+const UNSPECIFIED = 'unspecified';
+
+/**
+ * Success and failure counts over a period
+ */
+export interface TestCounts {
+  successCount: number;
+  failureCount: number;
+  /** Percentage of tests that succeeded (0-100) */
+  successRate: number;
+}
+
+/**
+ * Test counts over the last `days` days
+ */
+export interface SuccessRateWindow extends TestCounts {
+  days: number;
+}
+
+/**
+ * How often a value was reported, most frequent first
+ */
+export interface Breakdown {
+  value: string;
+  count: number;
+}
+
+/**
+ * Statistics for a single coupon
+ */
+export interface CouponStats {
+  couponId: string;
+  code: string;
+  windows: SuccessRateWindow[];
+  /** Medians over successful tests that reported a discount (null when none did) */
+  discount: {
+    medianAmount: number | null;
+    medianPercentage: number | null;
+    sampleSize: number;
+  };
+  /** Reported reasons for failed tests */
+  failureReasons: Breakdown[];
+  /** How the extension decided each test's result */
+  detectionMethods: Breakdown[];
+}
+
+/**
+ * Statistics for a retailer across all of its coupons
+ */
+export interface RetailerStats {
+  retailer: { id: string; domain: string; name: string };
+  /** Coupons currently served to clients */
+  activeCoupons: number;
+  /** All-time test counts, from the coupon counters */
+  tests: TestCounts;
+  /** Tests received in the last 30 days */
+  recentTests: SuccessRateWindow;
+  /** Discounts reported by successful tests; amounts are in the store's currency and reportCount counts amounts */
+  savings: {
+    totalAmount: number;
+    averageAmount: number | null;
+    averagePercentage: number | null;
+    reportCount: number;
+  };
+}
+
+/**
+ * Round to two decimal places (amounts and percentages are reported that precisely)
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Round a nullable aggregate to two decimals
+ */
+function round2OrNull(value: number | null): number | null {
+  return value === null ? null : round2(value);
+}
+
+/**
+ * Turn grouped counts into a breakdown
+ * @param groups - Count per reported value; null counts as "unspecified"
+ * @returns Values with their counts, most frequent first (ties alphabetical)
+ */
+function toBreakdown(groups: Array<{ value: string | null; count: number }>): Breakdown[] {
+  return groups
+    .map(({ value, count }) => ({ value: value ?? UNSPECIFIED, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Discount medians computed by the database
+ */
+interface DiscountMedianRow {
+  medianAmount: number | null;
+  medianPercentage: number | null;
+  sampleSize: number;
+}
+
+function toTestCounts(successCount: number, failureCount: number): TestCounts {
+  return { successCount, failureCount, successRate: calculateSuccessRate(successCount, failureCount) };
+}
+
+/**
+ * Get success rates, discount medians and breakdowns for a coupon
+ * @param couponId - UUID of the coupon
+ * @param now - Reference time for the windows
+ * @returns Coupon statistics over the last 7, 30 and 90 days
+ * @throws NotFoundError if the coupon does not exist or is still pending review
+ */
+export async function getCouponStats(couponId: string, now: Date = new Date()): Promise<CouponStats> {
+  const coupon = await db.coupon.findUnique({
+    where: { id: couponId },
+    select: { id: true, code: true, status: true },
+  });
+
+  // Submissions are not public until a moderator approves them
+  if (!coupon || coupon.status === 'pending-review') {
+    throw new NotFoundError(`Coupon not found with ID: ${couponId}`);
+  }
+
+  const appliedFeedback = { couponId, outcome: 'applied' };
+  const since = (days: number) => new Date(now.getTime() - days * DAY_MS);
+  const longestWindowStart = since(Math.max(...STATS_WINDOWS_DAYS));
+
+  // Counts and medians are computed in the database; only one row per group comes back
+  const [windowGroups, failureReasons, detectionMethods, [discount]] = await Promise.all([
+    Promise.all(
+      STATS_WINDOWS_DAYS.map((days) =>
+        db.feedbackEvent.groupBy({
+          by: ['success'],
+          where: { ...appliedFeedback, createdAt: { gte: since(days) } },
+          _count: { _all: true },
+        }),
+      ),
+    ),
+    db.feedbackEvent.groupBy({
+      by: ['failureReason'],
+      where: { ...appliedFeedback, success: false, createdAt: { gte: longestWindowStart } },
+      _count: { _all: true },
+    }),
+    db.feedbackEvent.groupBy({
+      by: ['detectionMethod'],
+      where: { ...appliedFeedback, createdAt: { gte: longestWindowStart } },
+      _count: { _all: true },
+    }),
+    // Prisma has no median aggregate; percentile_cont skips nulls, so each median covers the tests that reported it
+    db.$queryRaw<DiscountMedianRow[]>`
+      SELECT
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "discountAmount") AS "medianAmount",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "discountPercentage") AS "medianPercentage",
+        COUNT(*) FILTER (WHERE "discountAmount" IS NOT NULL OR "discountPercentage" IS NOT NULL)::int AS "sampleSize"
+      FROM "feedback_events"
+      WHERE "couponId" = ${couponId}::uuid
+        AND "outcome" = 'applied'
+        AND "success"
+        AND "createdAt" >= ${longestWindowStart}
+    `,
+  ]);
+
+  const windows = STATS_WINDOWS_DAYS.map((days, index) => {
+    const groups = windowGroups[index] ?? [];
+    const count = (success: boolean) => groups.find((group) => group.success === success)?._count._all ?? 0;
+    return { days, ...toTestCounts(count(true), count(false)) };
+  });
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    windows,
+    discount: {
+      medianAmount: round2OrNull(discount?.medianAmount ?? null),
+      medianPercentage: round2OrNull(discount?.medianPercentage ?? null),
+      sampleSize: discount?.sampleSize ?? 0,
+    },
+    failureReasons: toBreakdown(
+      failureReasons.map((group) => ({ value: group.failureReason, count: group._count._all })),
+    ),
+    detectionMethods: toBreakdown(
+      detectionMethods.map((group) => ({ value: group.detectionMethod, count: group._count._all })),
+    ),
+  };
+}
+
+/**
+ * Get aggregate test counts and savings for a retailer
+ * Subdomains and aliases resolve to their retailer, as for coupon lookups
+ *
+ * @param hostname - Normalized retailer hostname (e.g., "nike.com")
+ * @param now - Reference time for the recent window
+ * @returns Retailer statistics across all of its coupons
+ * @throws NotFoundError if no active retailer matches the hostname
+ */
+export async function getRetailerStats(hostname: string, now: Date = new Date()): Promise<RetailerStats> {
+  const retailer = await findRetailerByHostname(hostname);
+
+  if (!retailer) {
+    throw new NotFoundError(`No retailer found for domain: ${hostname}`);
+  }
+
+  if (!retailer.isActive) {
+    throw new NotFoundError(`Retailer is not active: ${hostname}`);
+  }
+
+  const appliedFeedback = { coupon: { retailerId: retailer.id }, outcome: 'applied' };
+
+  // Amounts and percentages are reported independently, so each is averaged over the tests that reported it
+  const [activeCoupons, counters, recent, amounts, percentages] = await Promise.all([
+    db.coupon.count({ where: { retailerId: retailer.id, ...buildServedCouponsWhere(false, now) } }),
+    db.coupon.aggregate({
+      where: { retailerId: retailer.id },
+      _sum: { successCount: true, failureCount: true },
+    }),
+    db.feedbackEvent.groupBy({
+      by: ['success'],
+      where: { ...appliedFeedback, createdAt: { gte: new Date(now.getTime() - RETAILER_RECENT_DAYS * DAY_MS) } },
+      _count: { _all: true },
+    }),
+    db.feedbackEvent.aggregate({
+      where: { ...appliedFeedback, success: true, discountAmount: { not: null } },
+      _sum: { discountAmount: true },
+      _avg: { discountAmount: true },
+      _count: { _all: true },
+    }),
+    db.feedbackEvent.aggregate({
+      where: { ...appliedFeedback, success: true, discountPercentage: { not: null } },
+      _avg: { discountPercentage: true },
+    }),
+  ]);
+
+  const recentCount = (success: boolean) => recent.find((group) => group.success === success)?._count._all ?? 0;
+  const averageAmount = amounts._avg.discountAmount;
+  const averagePercentage = percentages._avg.discountPercentage;
+
+  return {
+    retailer: { id: retailer.id, domain: retailer.domain, name: retailer.name },
+    activeCoupons,
+    tests: toTestCounts(counters._sum.successCount ?? 0, counters._sum.failureCount ?? 0),
+    recentTests: { days: RETAILER_RECENT_DAYS, ...toTestCounts(recentCount(true), recentCount(false)) },
+    savings: {
+      totalAmount: round2(amounts._sum.discountAmount ?? 0),
+      averageAmount: averageAmount === null ? null : round2(averageAmount),
+      averagePercentage: averagePercentage === null ? null : round2(averagePercentage),
+      reportCount: amounts._count._all,
+    },
+  };
+}
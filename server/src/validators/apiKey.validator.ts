@@ -0,0 +1,30 @@
+/**
+ * API Key Validation Schemas
+ * Zod schemas for API key roles and creation
+ */
+
+import { z } from 'zod';
+
+/**
+ * Roles an API key can have
+ * - admin: full access to admin endpoints
+ * - scraper: automated coupon imports
+ * - client: first-party clients (e.g., the extension)
+ */
+export const apiKeyRoleSchema = z.enum(['admin', 'scraper', 'client']);
+
+/**
+ * Schema for creating an API key
+ */
+export const createApiKeySchema = z
+  .object({
+    label: z.string().trim().min(1).max(100),
+    role: apiKeyRoleSchema,
+  })
+  .strict();
+
+/**
+ * Type definitions derived from schemas
+ */
+export type ApiKeyRole = z.infer<typeof apiKeyRoleSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,149 @@
+/**
+ * Coupon Validation Schemas
+ * Zod schemas for validating coupon queries, community submissions and admin coupon payloads
+ */
+
+import { z } from 'zod';
+import { domainSchema } from './retailer.validator.js';
+import { normalizeHostname } from '../lib/domain.js';
+
+/**
+ * Schema for a coupon code
+ */
+const codeSchema = z.string().trim().min(1).max(64);
+
+/**
+ * Schema for a coupon ID route parameter
+ */
+export const couponIdSchema = z.string().uuid();
+
+/**
+ * Coupon lifecycle statuses
+ * - active: served to clients
+ * - stale: failing recently with no success; still served so it can recover
+ * - expired: past its expiry date or manually expired
+ * - disabled: soft-disabled by an admin or the prune job; history is kept
+ * - pending-review: submitted but not yet approved
+ */
+export const couponStatusSchema = z.enum(['active', 'stale', 'expired', 'disabled', 'pending-review']);
+
+/**
+ * Schema for the coupon list ordering query parameter
+ * score: confidence score (default), success-count: raw successes,
+ * recent: most recently successful, newest: most recently added
+ */
+export const couponSortSchema = z.enum(['score', 'success-count', 'recent', 'newest']).default('score');
+
+/**
+ * Schema for the optional coupon list query parameters
+ * The domain parameter is validated separately by the controller
+ */
+export const couponListQuerySchema = z.object({
+  sort: couponSortSchema,
+  includeExpired: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+/**
+ * Schema for creating a coupon
+ * The retailer is identified by its domain
+ */
+export const createCouponSchema = z
+  .object({
+    domain: domainSchema,
+    code: codeSchema,
+    description: z.string().trim().min(1).max(500),
+    expiryDate: z.coerce.date().nullable().optional(),
+    source: z.string().trim().min(1).max(50).optional(),
+    status: couponStatusSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Schema for updating a coupon
+ * The retailer cannot be changed; at least one field must be provided
+ */
+export const updateCouponSchema = createCouponSchema
+  .omit({ domain: true })
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, { message: 'At least one field must be provided' });
+
+/**
+ * Schema for a single bulk import row (CSV line or JSON array item)
+ * Empty CSV cells arrive as empty strings and are treated as missing
+ */
+export const importCouponRowSchema = z
+  .object({
+    domain: domainSchema,
+    code: codeSchema,
+    description: z.string().trim().min(1).max(500),
+    expiryDate: z.preprocess((value) => (value === '' ? undefined : value), z.coerce.date().optional()).optional(),
+    source: z
+      .preprocess((value) => (value === '' ? undefined : value), z.string().trim().min(1).max(50).optional())
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a community coupon submission
+ * The domain may be a full URL; it is normalized and resolved like coupon lookups
+ */
+export const submitCouponSchema = z
+  .object({
+    domain: z.string().trim().min(1).max(2048).transform(normalizeHostname),
+    code: codeSchema,
+    description: z.string().trim().min(1).max(500),
+    expiryDate: z.coerce
+      .date()
+      .refine((date) => date.getTime() > Date.now(), { message: 'Expiry date must be in the future' })
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a bulk coupon lookup
+ * Domains may be full URLs; they are normalized like the domain query parameter of coupon lookups
+ */
+export const lookupCouponsSchema = z
+  .object({
+    domains: z.array(z.string().trim().min(1).max(2048).transform(normalizeHostname)).min(1).max(50), // Max 50 domains per lookup
+  })
+  .strict();
+
+/**
+ * Schema for a moderation decision on a pending submission
+ */
+export const reviewDecisionSchema = z.enum(['approve', 'reject']);
+
+/**
+ * Schema for listing pending submissions (query parameters)
+ */
+export const listPendingCouponsQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20), // Max 100 submissions per page
+  })
+  .strict();
+
+/**
+ * Schema for a bulk import request
+ * Rows are validated individually so one bad row does not reject the whole import
+ */
+export const importCouponsSchema = z.array(z.unknown()).min(1).max(1000); // Max 1000 rows per import
+
+/**
+ * Type definitions derived from schemas
+ */
+export type CouponStatus = z.infer<typeof couponStatusSchema>;
+export type CouponSort = z.infer<typeof couponSortSchema>;
+export type CouponListQuery = z.infer<typeof couponListQuerySchema>;
+export type CreateCouponInput = z.infer<typeof createCouponSchema>;
+export type UpdateCouponInput = z.infer<typeof updateCouponSchema>;
+export type SubmitCouponInput = z.infer<typeof submitCouponSchema>;
+export type LookupCouponsInput = z.infer<typeof lookupCouponsSchema>;
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+export type ListPendingCouponsQuery = z.infer<typeof listPendingCouponsQuerySchema>;
+export type ImportCouponRow = z.infer<typeof importCouponRowSchema>;
@@ -14,12 +14,23 @@ const feedbackMetadataSchema = z
     discountPercentage: z.number().min(0).max(100).optional(),
     failureReason: z.enum(['expired', 'invalid', 'minimum-not-met', 'out-of-stock', 'other']).optional(),
     domain: z.string().min(1),
-    testDurationMs: z.number().nonnegative(),
+    testDurationMs: z.number().int().nonnegative().max(600_000), // Whole milliseconds, at most 10 minutes
     detectionMethod: z.enum(['price-change', 'success-message', 'failure-message', 'timeout']),
     testedAt: z.string().datetime(),
   })
   .strict();
 
+/**
+ * Client-generated ID for one test result
+ * Retries reuse it so the same result is only counted once
+ */
+const feedbackEventIdSchema = z.string().uuid();
+
+/**
+ * Anonymous install ID sent by the extension in the X-Install-Id header
+ */
+export const installIdSchema = z.string().uuid();
+
 /**
  * Schema for single feedback request
  */
@@ -27,6 +38,7 @@ export const feedbackRequestSchema = z
   .object({
     success: z.boolean(),
     metadata: feedbackMetadataSchema.optional(),
+    eventId: feedbackEventIdSchema.optional(),
   })
   .strict();
 
@@ -38,6 +50,7 @@ const batchFeedbackItemSchema = z
     couponId: z.string().uuid(),
     success: z.boolean(),
     metadata: feedbackMetadataSchema.optional(),
+    eventId: feedbackEventIdSchema.optional(),
   })
   .strict();
 
@@ -50,9 +63,31 @@ export const batchFeedbackRequestSchema = z
   })
   .strict();
 
+/**
+ * Feedback review IDs are UUIDs
+ */
+export const feedbackReviewIdSchema = z.string().uuid();
+
+/**
+ * Moderation decision for a flagged vote
+ */
+export const feedbackReviewDecisionSchema = z.enum(['apply', 'dismiss']);
+
+/**
+ * Schema for listing pending feedback reviews (query parameters)
+ */
+export const listFeedbackReviewsQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20), // Max 100 reviews per page
+  })
+  .strict();
+
 /**
  * Type definitions derived from schemas
  */
 export type FeedbackRequest = z.infer<typeof feedbackRequestSchema>;
 export type BatchFeedbackRequest = z.infer<typeof batchFeedbackRequestSchema>;
 export type FeedbackMetadata = z.infer<typeof feedbackMetadataSchema>;
+export type FeedbackReviewDecision = z.infer<typeof feedbackReviewDecisionSchema>;
+export type ListFeedbackReviewsQuery = z.infer<typeof listFeedbackReviewsQuerySchema>;
@@ -0,0 +1,122 @@
+/**
+ * Retailer Validation Schemas
+ * Zod schemas for validating admin retailer payloads and the public retailer search
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for a retailer domain
+ * Normalized to lowercase without a "www." prefix
+ */
+export const domainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Must be a valid domain (e.g., "nike.com")')
+  .transform((domain) => domain.replace(/^www\./, ''));
+
+/**
+ * Schema for retailer-specific DOM selectors
+ * Example: { "input": "#promo-code", "submit": ".btn-apply", "priceSelectors": [".order-total"] }
+ * priceSelectors are tried before the extension's generic price selectors
+ */
+export const selectorConfigSchema = z
+  .object({
+    input: z.string().min(1).optional(),
+    submit: z.string().min(1).optional(),
+    container: z.string().min(1).optional(),
+    priceSelectors: z.array(z.string().min(1)).min(1).max(20).optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a retailer ID route parameter
+ */
+export const retailerIdSchema = z.string().uuid();
+
+/**
+ * Schema for creating a retailer
+ */
+export const createRetailerSchema = z
+  .object({
+    domain: domainSchema,
+    name: z.string().trim().min(1).max(200),
+    logoUrl: z.string().url().nullable().optional(),
+    homeUrl: z.string().url().nullable().optional(),
+    isActive: z.boolean().optional(),
+    selectorConfig: selectorConfigSchema.nullable().optional(),
+  })
+  .strict();
+
+/**
+ * Schema for updating a retailer
+ * All fields are optional, but at least one must be provided
+ */
+export const updateRetailerSchema = createRetailerSchema
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, { message: 'At least one field must be provided' });
+
+/**
+ * Schema for listing retailers (query parameters)
+ */
+export const listRetailersQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20), // Max 100 retailers per page
+    search: z.string().trim().min(1).max(100).optional(),
+    isActive: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Schema for the public retailer search (query parameters)
+ * search matches the start of a retailer's name or domain; cursor is the nextCursor of the previous page
+ */
+export const searchRetailersQuerySchema = z
+  .object({
+    search: z.string().trim().min(1).max(100).optional(),
+    cursor: z.string().min(1).max(512).optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20), // Max 50 retailers per page
+    hasCoupons: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a retailer domain alias ID route parameter
+ */
+export const retailerDomainIdSchema = z.string().uuid();
+
+/**
+ * Schema for adding a domain alias to a retailer
+ * region is an ISO 3166-1 alpha-2 country code for regional storefronts (e.g., "GB" for nike.co.uk)
+ */
+export const createRetailerDomainSchema = z
+  .object({
+    domain: domainSchema,
+    region: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z]{2}$/, 'Must be a two-letter country code (e.g., "GB")')
+      .nullable()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Type definitions derived from schemas
+ */
+export type CreateRetailerInput = z.infer<typeof createRetailerSchema>;
+export type UpdateRetailerInput = z.infer<typeof updateRetailerSchema>;
+export type ListRetailersQuery = z.infer<typeof listRetailersQuerySchema>;
+export type SearchRetailersQuery = z.infer<typeof searchRetailersQuerySchema>;
+export type SelectorConfig = z.infer<typeof selectorConfigSchema>;
+export type CreateRetailerDomainInput = z.infer<typeof createRetailerDomainSchema>;